@@ -0,0 +1,637 @@
+/**
+ * Multi-provider CI detection
+ */
+
+import { accessSync, constants, statSync } from "node:fs";
+import type { CIDetectionOptions } from "./ci.js";
+import { getEnv } from "./env.js";
+
+/**
+ * Identifiers of the CI providers that can be detected.
+ */
+export type CIProviderId =
+  | "github-actions"
+  | "gitlab-ci"
+  | "circleci"
+  | "jenkins"
+  | "travis"
+  | "azure-pipelines"
+  | "bitbucket-pipelines"
+  | "buildkite"
+  | "teamcity";
+
+/**
+ * Normalised description of the current CI build.
+ *
+ * Fields that a provider does not expose are `undefined`.
+ */
+export type CIInfo = {
+  /**
+   * Stable provider identifier, e.g. `github-actions`
+   */
+  id: CIProviderId;
+
+  /**
+   * Human readable provider name, e.g. `GitHub Actions`
+   */
+  name: string;
+
+  /**
+   * Whether the build was triggered for a pull/merge request
+   */
+  isPullRequest: boolean;
+
+  /**
+   * The branch being built. For pull requests this is the source branch.
+   */
+  branch: string | undefined;
+
+  /**
+   * The commit SHA being built
+   */
+  commitSha: string | undefined;
+
+  /**
+   * The provider's build or run number
+   */
+  buildNumber: string | undefined;
+
+  /**
+   * Link to the build in the provider's UI
+   */
+  buildUrl: string | undefined;
+};
+
+/**
+ * Outcome of a single detection signal.
+ */
+export type CISignal = {
+  /**
+   * Short description of what was checked, e.g. `GITHUB_ACTIONS=true`
+   */
+  name: string;
+
+  /**
+   * Whether this signal is enough to detect the provider outside strict mode
+   */
+  primary: boolean;
+
+  /**
+   * Whether the check passed
+   */
+  passed: boolean;
+
+  /**
+   * Why the check passed or failed
+   */
+  detail: string;
+};
+
+/**
+ * Explanation of why a provider was or was not detected.
+ */
+export type CIDiagnosis = {
+  /**
+   * Provider identifier
+   */
+  id: CIProviderId;
+
+  /**
+   * Human readable provider name
+   */
+  name: string;
+
+  /**
+   * Whether the provider is detected with the requested strictness
+   */
+  detected: boolean;
+
+  /**
+   * Whether strict mode was used
+   */
+  strict: boolean;
+
+  /**
+   * Every signal that was evaluated, primary signals first
+   */
+  signals: CISignal[];
+};
+
+/**
+ * A lazily evaluated detection signal.
+ */
+type CISignalCheck = {
+  name: string;
+  primary: boolean;
+  check: (env: NodeJS.ProcessEnv) => { passed: boolean; detail: string };
+};
+
+/**
+ * Signal that passes when a variable has an exact value.
+ */
+function envEquals(
+  variable: string,
+  expected: string,
+  primary = false,
+): CISignalCheck {
+  return {
+    name: `${variable}=${expected}`,
+    primary,
+    check: (env) => {
+      const value = env[variable];
+      if (value === undefined) {
+        return { passed: false, detail: `${variable} is not set` };
+      }
+
+      return value === expected
+        ? { passed: true, detail: `${variable} is "${value}"` }
+        : { passed: false, detail: `${variable} is "${value}"` };
+    },
+  };
+}
+
+/**
+ * Signal that passes when a variable is set to a non-empty value.
+ */
+function envSet(variable: string, primary = false): CISignalCheck {
+  return {
+    name: `${variable} is set`,
+    primary,
+    check: (env) =>
+      env[variable]
+        ? { passed: true, detail: `${variable} is set` }
+        : { passed: false, detail: `${variable} is not set or empty` },
+  };
+}
+
+/**
+ * Signal that passes when a variable matches a pattern.
+ */
+function envMatches(
+  variable: string,
+  pattern: RegExp,
+  primary = false,
+): CISignalCheck {
+  return {
+    name: `${variable} matches ${pattern}`,
+    primary,
+    check: (env) => {
+      const value = env[variable];
+      if (value === undefined) {
+        return { passed: false, detail: `${variable} is not set` };
+      }
+
+      return pattern.test(value)
+        ? { passed: true, detail: `${variable} is "${value}"` }
+        : {
+            passed: false,
+            detail: `${variable} is "${value}", expected ${pattern}`,
+          };
+    },
+  };
+}
+
+/**
+ * Signal that passes when a variable points at an existing directory.
+ */
+function directoryExists(variable: string): CISignalCheck {
+  return {
+    name: `${variable} is an existing directory`,
+    primary: false,
+    check: (env) => {
+      const path = env[variable];
+      if (!path) {
+        return { passed: false, detail: `${variable} is not set` };
+      }
+
+      try {
+        return statSync(path).isDirectory()
+          ? { passed: true, detail: `${path} exists` }
+          : { passed: false, detail: `${path} is not a directory` };
+      } catch {
+        return { passed: false, detail: `${path} does not exist` };
+      }
+    },
+  };
+}
+
+/**
+ * Signal that passes when a variable points at a readable file.
+ */
+function fileReadable(variable: string): CISignalCheck {
+  return {
+    name: `${variable} is a readable file`,
+    primary: false,
+    check: (env) => {
+      const path = env[variable];
+      if (!path) {
+        return { passed: false, detail: `${variable} is not set` };
+      }
+
+      try {
+        accessSync(path, constants.R_OK);
+        return statSync(path).isFile()
+          ? { passed: true, detail: `${path} is readable` }
+          : { passed: false, detail: `${path} is not a file` };
+      } catch {
+        return { passed: false, detail: `${path} is not readable` };
+      }
+    },
+  };
+}
+
+/**
+ * Whether a provider is detected. Outside strict mode only primary signals
+ * are evaluated so no file system access happens.
+ */
+function isProviderDetected(
+  provider: CIProvider,
+  env: NodeJS.ProcessEnv,
+  strict: boolean,
+): boolean {
+  return provider.signals
+    .filter((signal) => strict || signal.primary)
+    .every((signal) => signal.check(env).passed);
+}
+
+/**
+ * Internal description of how to recognise and read a provider.
+ */
+type CIProvider = {
+  id: CIProviderId;
+  name: string;
+  signals: CISignalCheck[];
+  describe: (env: NodeJS.ProcessEnv) => Omit<CIInfo, "id" | "name">;
+};
+
+/**
+ * Returns the first non-empty value.
+ */
+function firstSet(...values: (string | undefined)[]): string | undefined {
+  return values.find((value) => value !== undefined && value !== "");
+}
+
+/**
+ * Strips a leading `refs/heads/` or remote name such as `origin/` from a branch.
+ */
+function normaliseBranch(
+  branch: string | undefined,
+  prefixes: string[],
+): string | undefined {
+  if (!branch) return undefined;
+
+  for (const prefix of prefixes) {
+    if (branch.startsWith(prefix)) {
+      return branch.slice(prefix.length);
+    }
+  }
+
+  return branch;
+}
+
+/**
+ * Whether a pull request variable holds a real value. Several providers set
+ * it to the literal string `false` outside of pull requests.
+ */
+function isPullRequestValue(value: string | undefined): boolean {
+  return value !== undefined && value !== "" && value !== "false";
+}
+
+/**
+ * Known providers, checked in order. More specific providers come first.
+ */
+const PROVIDERS: CIProvider[] = [
+  {
+    id: "github-actions",
+    name: "GitHub Actions",
+    signals: [
+      envEquals("GITHUB_ACTIONS", "true", true),
+      envMatches("RUNNER_OS", /^(Linux|Windows|macOS)$/),
+      envMatches("GITHUB_RUN_ID", /^\d+$/),
+      directoryExists("GITHUB_WORKSPACE"),
+      fileReadable("GITHUB_EVENT_PATH"),
+    ],
+    describe: (env) => {
+      const eventName = env["GITHUB_EVENT_NAME"];
+      const isPullRequest =
+        eventName === "pull_request" || eventName === "pull_request_target";
+      const serverUrl = env["GITHUB_SERVER_URL"];
+      const repository = env["GITHUB_REPOSITORY"];
+      const runId = env["GITHUB_RUN_ID"];
+
+      return {
+        isPullRequest,
+        branch: isPullRequest
+          ? firstSet(env["GITHUB_HEAD_REF"])
+          : env["GITHUB_REF"]?.startsWith("refs/heads/")
+            ? normaliseBranch(env["GITHUB_REF"], ["refs/heads/"])
+            : undefined,
+        commitSha: firstSet(env["GITHUB_SHA"]),
+        buildNumber: firstSet(env["GITHUB_RUN_NUMBER"]),
+        buildUrl:
+          serverUrl && repository && runId
+            ? `${serverUrl}/${repository}/actions/runs/${runId}`
+            : undefined,
+      };
+    },
+  },
+  {
+    id: "gitlab-ci",
+    name: "GitLab CI",
+    signals: [
+      envEquals("GITLAB_CI", "true", true),
+      envMatches("CI_JOB_ID", /^\d+$/),
+      envSet("CI_SERVER_URL"),
+      directoryExists("CI_PROJECT_DIR"),
+    ],
+    describe: (env) => ({
+      isPullRequest: isPullRequestValue(env["CI_MERGE_REQUEST_IID"]),
+      branch: firstSet(
+        env["CI_MERGE_REQUEST_SOURCE_BRANCH_NAME"],
+        env["CI_COMMIT_BRANCH"],
+      ),
+      commitSha: firstSet(env["CI_COMMIT_SHA"]),
+      buildNumber: firstSet(env["CI_PIPELINE_IID"], env["CI_PIPELINE_ID"]),
+      buildUrl: firstSet(env["CI_PIPELINE_URL"], env["CI_JOB_URL"]),
+    }),
+  },
+  {
+    id: "circleci",
+    name: "CircleCI",
+    signals: [
+      envEquals("CIRCLECI", "true", true),
+      envMatches("CIRCLE_BUILD_NUM", /^\d+$/),
+      envSet("CIRCLE_JOB"),
+      envSet("CIRCLE_WORKFLOW_ID"),
+    ],
+    describe: (env) => ({
+      isPullRequest: isPullRequestValue(env["CIRCLE_PULL_REQUEST"]),
+      branch: firstSet(env["CIRCLE_BRANCH"]),
+      commitSha: firstSet(env["CIRCLE_SHA1"]),
+      buildNumber: firstSet(env["CIRCLE_BUILD_NUM"]),
+      buildUrl: firstSet(env["CIRCLE_BUILD_URL"]),
+    }),
+  },
+  {
+    id: "travis",
+    name: "Travis CI",
+    signals: [
+      envEquals("TRAVIS", "true", true),
+      envMatches("TRAVIS_BUILD_ID", /^\d+$/),
+      directoryExists("TRAVIS_BUILD_DIR"),
+    ],
+    describe: (env) => ({
+      isPullRequest: isPullRequestValue(env["TRAVIS_PULL_REQUEST"]),
+      branch: firstSet(env["TRAVIS_PULL_REQUEST_BRANCH"], env["TRAVIS_BRANCH"]),
+      commitSha: firstSet(env["TRAVIS_COMMIT"]),
+      buildNumber: firstSet(env["TRAVIS_BUILD_NUMBER"]),
+      buildUrl: firstSet(env["TRAVIS_BUILD_WEB_URL"]),
+    }),
+  },
+  {
+    id: "azure-pipelines",
+    name: "Azure Pipelines",
+    signals: [
+      envMatches("TF_BUILD", /^true$/i, true),
+      envMatches("BUILD_BUILDID", /^\d+$/),
+      envSet("AGENT_ID"),
+      directoryExists("BUILD_SOURCESDIRECTORY"),
+    ],
+    describe: (env) => {
+      const collectionUri = env["SYSTEM_TEAMFOUNDATIONCOLLECTIONURI"];
+      const project = env["SYSTEM_TEAMPROJECT"];
+      const buildId = env["BUILD_BUILDID"];
+
+      return {
+        isPullRequest:
+          env["BUILD_REASON"] === "PullRequest" ||
+          isPullRequestValue(env["SYSTEM_PULLREQUEST_PULLREQUESTID"]),
+        branch: normaliseBranch(
+          firstSet(
+            env["SYSTEM_PULLREQUEST_SOURCEBRANCH"],
+            env["BUILD_SOURCEBRANCH"],
+          ),
+          ["refs/heads/"],
+        ),
+        commitSha: firstSet(env["BUILD_SOURCEVERSION"]),
+        buildNumber: firstSet(env["BUILD_BUILDNUMBER"]),
+        buildUrl:
+          collectionUri && project && buildId
+            ? `${collectionUri}${project}/_build/results?buildId=${buildId}`
+            : undefined,
+      };
+    },
+  },
+  {
+    id: "bitbucket-pipelines",
+    name: "Bitbucket Pipelines",
+    signals: [
+      envSet("BITBUCKET_BUILD_NUMBER", true),
+      envSet("BITBUCKET_REPO_SLUG"),
+      directoryExists("BITBUCKET_CLONE_DIR"),
+    ],
+    describe: (env) => {
+      const origin = env["BITBUCKET_GIT_HTTP_ORIGIN"];
+      const buildNumber = firstSet(env["BITBUCKET_BUILD_NUMBER"]);
+
+      return {
+        isPullRequest: isPullRequestValue(env["BITBUCKET_PR_ID"]),
+        branch: firstSet(env["BITBUCKET_BRANCH"]),
+        commitSha: firstSet(env["BITBUCKET_COMMIT"]),
+        buildNumber,
+        buildUrl:
+          origin && buildNumber
+            ? `${origin}/addon/pipelines/home#!/results/${buildNumber}`
+            : undefined,
+      };
+    },
+  },
+  {
+    id: "buildkite",
+    name: "Buildkite",
+    signals: [
+      envEquals("BUILDKITE", "true", true),
+      envSet("BUILDKITE_BUILD_ID"),
+      envSet("BUILDKITE_AGENT_NAME"),
+      directoryExists("BUILDKITE_BUILD_CHECKOUT_PATH"),
+    ],
+    describe: (env) => ({
+      isPullRequest: isPullRequestValue(env["BUILDKITE_PULL_REQUEST"]),
+      branch: firstSet(env["BUILDKITE_BRANCH"]),
+      commitSha: firstSet(env["BUILDKITE_COMMIT"]),
+      buildNumber: firstSet(env["BUILDKITE_BUILD_NUMBER"]),
+      buildUrl: firstSet(env["BUILDKITE_BUILD_URL"]),
+    }),
+  },
+  {
+    id: "teamcity",
+    name: "TeamCity",
+    signals: [
+      envSet("TEAMCITY_VERSION", true),
+      envSet("BUILD_NUMBER"),
+      fileReadable("TEAMCITY_BUILD_PROPERTIES_FILE"),
+    ],
+    describe: (env) => ({
+      isPullRequest: false,
+      branch: undefined,
+      commitSha: firstSet(env["BUILD_VCS_NUMBER"]),
+      buildNumber: firstSet(env["BUILD_NUMBER"]),
+      buildUrl: undefined,
+    }),
+  },
+  {
+    id: "jenkins",
+    name: "Jenkins",
+    signals: [
+      envSet("JENKINS_URL", true),
+      envSet("BUILD_ID", true),
+      envSet("JOB_NAME"),
+      directoryExists("WORKSPACE"),
+    ],
+    describe: (env) => ({
+      isPullRequest:
+        isPullRequestValue(env["CHANGE_ID"]) ||
+        isPullRequestValue(env["ghprbPullId"]),
+      branch: normaliseBranch(
+        firstSet(
+          env["CHANGE_BRANCH"],
+          env["ghprbSourceBranch"],
+          env["BRANCH_NAME"],
+          env["GIT_BRANCH"],
+        ),
+        ["refs/heads/", "origin/"],
+      ),
+      commitSha: firstSet(env["ghprbActualCommit"], env["GIT_COMMIT"]),
+      buildNumber: firstSet(env["BUILD_NUMBER"]),
+      buildUrl: firstSet(env["BUILD_URL"]),
+    }),
+  },
+];
+
+/**
+ * Detects which CI provider the process is running on and describes the build.
+ *
+ * With `strict: true` every signal for a provider must pass, including file
+ * system checks such as the workspace directory existing. Use
+ * {@link diagnoseCI} to see which signals failed.
+ *
+ * @example
+ * ```typescript
+ * const ci = detectCI();
+ * if (ci) {
+ *   console.log(`Building ${ci.branch}@${ci.commitSha} on ${ci.name}`);
+ *   if (ci.isPullRequest) {
+ *     console.log("Pull request build");
+ *   }
+ * }
+ * ```
+ *
+ * @param options - Optional CI detection options
+ * @returns The build description, or `undefined` if no known provider is detected
+ */
+export function detectCI(options?: CIDetectionOptions): CIInfo | undefined {
+  const env = getEnv(options);
+  const strict = options?.strict ?? false;
+  const provider = PROVIDERS.find((candidate) =>
+    isProviderDetected(candidate, env, strict),
+  );
+
+  if (!provider) {
+    return undefined;
+  }
+
+  return {
+    id: provider.id,
+    name: provider.name,
+    ...provider.describe(env),
+  };
+}
+
+/**
+ * Detects if running on any CI system.
+ *
+ * Returns `true` for every provider {@link detectCI} knows about, and for
+ * unknown systems that follow the common `CI=true` convention. In strict mode
+ * the `CI` variable alone is not enough.
+ *
+ * @example
+ * ```typescript
+ * if (!isCI()) {
+ *   console.log("Running locally, skipping upload");
+ * }
+ * ```
+ *
+ * @param options - Optional CI detection options
+ */
+export function isCI(options?: CIDetectionOptions): boolean {
+  const env = getEnv(options);
+  const ci = env["CI"]?.toLowerCase();
+
+  if (!options?.strict && (ci === "true" || ci === "1")) {
+    return true;
+  }
+
+  return detectCI(options) !== undefined;
+}
+
+/**
+ * Evaluates every detection signal for a provider and explains the result.
+ *
+ * @example
+ * ```typescript
+ * const diagnosis = diagnoseCIProvider("github-actions", { strict: true });
+ * for (const signal of diagnosis.signals) {
+ *   console.log(`${signal.passed ? "✔" : "✘"} ${signal.name}: ${signal.detail}`);
+ * }
+ * ```
+ *
+ * @param id - The provider to diagnose
+ * @param options - Optional CI detection options, `strict` decides which signals count
+ * @returns The diagnosis for the provider
+ */
+export function diagnoseCIProvider(
+  id: CIProviderId,
+  options?: CIDetectionOptions,
+): CIDiagnosis {
+  const provider = PROVIDERS.find((candidate) => candidate.id === id);
+  if (!provider) {
+    throw new Error(`Unknown CI provider "${id}"`);
+  }
+
+  const env = getEnv(options);
+  const strict = options?.strict ?? false;
+  const signals = provider.signals.map((signal) => ({
+    name: signal.name,
+    primary: signal.primary,
+    ...signal.check(env),
+  }));
+
+  return {
+    id: provider.id,
+    name: provider.name,
+    detected: signals
+      .filter((signal) => strict || signal.primary)
+      .every((signal) => signal.passed),
+    strict,
+    signals,
+  };
+}
+
+/**
+ * Evaluates the detection signals of every known provider.
+ *
+ * @example
+ * ```typescript
+ * const results = diagnoseCI({ strict: true });
+ * const partial = results.filter(
+ *   (result) => !result.detected && result.signals.some((s) => s.primary && s.passed),
+ * );
+ * // Providers whose main variable is set but could not be confirmed
+ * ```
+ *
+ * @param options - Optional CI detection options
+ * @returns One diagnosis per provider, in detection order
+ */
+export function diagnoseCI(options?: CIDetectionOptions): CIDiagnosis[] {
+  return PROVIDERS.map((provider) => diagnoseCIProvider(provider.id, options));
+}
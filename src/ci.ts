@@ -8,7 +8,10 @@ export type CIDetectionOptions = {
   env?: Record<string, string | undefined>;
 
   /**
-   * Strict mode - only return true if absolutely certain
+   * Strict mode - only return true if absolutely certain.
+   *
+   * Detectors confirm the provider with several signals (for example the
+   * workspace directory existing on disk) instead of a single variable.
    */
   strict?: boolean;
 };
\ No newline at end of file
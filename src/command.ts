@@ -1,44 +1,693 @@
-import { spawn, type SpawnOptionsWithoutStdio } from "node:child_process";
+import { spawn, type SpawnOptions } from "node:child_process";
+import { retry, type RetryOptions } from "./safe-run.js";
+import { installShutdownHandlers, trackChildProcess } from "./shutdown.js";
+import { which } from "./which.js";
 
 /**
- * Run a given command and wait for it to finish.
+ * How a child process stream is handled:
+ * - `capture` - collect the output and return it in the result
+ * - `tee` - collect the output and also write it to this process's stream
+ * - `inherit` - write straight to this process's stream without collecting it
+ * - `ignore` - discard the output
+ */
+export type StreamMode = "capture" | "tee" | "inherit" | "ignore";
+
+/**
+ * Options for {@link execCommand}.
+ */
+export type ExecOptions = Omit<
+  SpawnOptions,
+  "stdio" | "timeout" | "shell" | "signal" | "killSignal" | "detached"
+> & {
+  /**
+   * Run the command through a shell. Off by default: the command is resolved
+   * on `PATH` and arguments are passed to it as-is, so they cannot be
+   * interpreted by a shell. When enabled, the command string is passed to the
+   * shell untouched and every argument is quoted with {@link quoteShellArg}.
+   */
+  shell?: boolean | string;
+
+  /**
+   * How to handle the child's stdout (default: `capture`)
+   */
+  stdout?: StreamMode;
+
+  /**
+   * How to handle the child's stderr (default: `capture`)
+   */
+  stderr?: StreamMode;
+
+  /**
+   * How to connect the child's stdin when no `input` is given (default: `ignore`)
+   */
+  stdin?: "inherit" | "ignore";
+
+  /**
+   * Data written to the child's stdin, which is then closed
+   */
+  input?: string | Buffer;
+
+  /**
+   * Resolve instead of rejecting when the command exits with a non-zero code
+   */
+  ignoreReturnCode?: boolean;
+
+  /**
+   * How long (in milliseconds) to wait before killing the command. When
+   * retrying, this is the deadline for all attempts together.
+   */
+  timeoutMs?: number;
+
+  /**
+   * Run the command again when it fails. Each run is bounded by
+   * `retry.attemptTimeoutMs` and by whatever is left of `timeoutMs`.
+   * Commands cancelled through `signal` are never retried.
+   */
+  retry?: RetryOptions;
+
+  /**
+   * Terminates the command when aborted
+   */
+  signal?: AbortSignal;
+
+  /**
+   * Signal sent on timeout or abort (default: `SIGTERM`)
+   */
+  killSignal?: NodeJS.Signals;
+
+  /**
+   * How long (in milliseconds) to wait after `killSignal` before sending
+   * `SIGKILL` (default: `5000`)
+   */
+  killGraceMs?: number;
+
+  /**
+   * Start the command in its own process group and signal the whole group,
+   * so grandchildren such as build tools started by a shell are terminated
+   * too. Defaults to `true` except on Windows and when stdin is an
+   * interactive terminal, where a separate group could not read from it.
+   *
+   * A separate group does not receive Ctrl+C from the terminal, so while the
+   * command runs SIGINT and SIGTERM go through
+   * {@link installShutdownHandlers}, which forwards them to the group before
+   * this process exits.
+   */
+  killProcessGroup?: boolean;
+};
+
+/**
+ * Why a command was terminated by this library.
+ */
+export type CommandTerminationReason = "timeout" | "abort";
+
+/**
+ * Outcome of a finished command.
+ */
+export type ExecResult = {
+  /**
+   * The command that was run
+   */
+  command: string;
+
+  /**
+   * The arguments that were passed
+   */
+  args: string[];
+
+  /**
+   * Exit code, or `null` if the process was terminated by a signal
+   */
+  exitCode: number | null;
+
+  /**
+   * The signal that terminated the process, if any
+   */
+  signal: NodeJS.Signals | null;
+
+  /**
+   * Captured stdout, empty unless the stream was captured or teed
+   */
+  stdout: string;
+
+  /**
+   * Captured stderr, empty unless the stream was captured or teed
+   */
+  stderr: string;
+
+  /**
+   * Wall clock time from spawn to exit
+   */
+  durationMs: number;
+};
+
+/**
+ * Thrown when a command fails to start, exits with a non-zero code or is killed.
+ */
+export class CommandError extends Error {
+  public readonly command: string;
+  public readonly args: string[];
+  public readonly exitCode: number | null;
+  public readonly signal: NodeJS.Signals | null;
+  public readonly stdout: string;
+  public readonly stderr: string;
+  public readonly durationMs: number;
+
+  constructor(message: string, result: ExecResult, options?: ErrorOptions) {
+    super(message, options);
+    this.name = "CommandError";
+    this.command = result.command;
+    this.args = result.args;
+    this.exitCode = result.exitCode;
+    this.signal = result.signal;
+    this.stdout = result.stdout;
+    this.stderr = result.stderr;
+    this.durationMs = result.durationMs;
+  }
+}
+
+/**
+ * Thrown when a command is killed because it timed out or was aborted.
+ */
+export class CommandTerminatedError extends CommandError {
+  constructor(
+    message: string,
+    result: ExecResult,
+    public readonly reason: CommandTerminationReason,
+  ) {
+    super(message, result);
+    this.name = "CommandTerminatedError";
+  }
+
+  /**
+   * Whether the command was killed because it ran past its timeout
+   */
+  get timedOut(): boolean {
+    return this.reason === "timeout";
+  }
+
+  /**
+   * Whether the command was killed because its abort signal fired
+   */
+  get aborted(): boolean {
+    return this.reason === "abort";
+  }
+}
+
+/**
+ * Formats a command and its arguments for error messages.
+ */
+function describeCommand(command: string, args: string[]): string {
+  return [command, ...args].join(" ");
+}
+
+/**
+ * Characters that never need quoting in a POSIX shell.
+ */
+const POSIX_SAFE_ARG = /^[A-Za-z0-9_\/.,:=@%+-]+$/;
+
+/**
+ * Characters `cmd.exe` treats specially and that must be escaped with `^`.
+ */
+const CMD_META_CHARS = /([()\][%!^"`<>&|;, *?])/g;
+
+/**
+ * Escapes an argument for `cmd.exe`. Arguments passed to a `.cmd`/`.bat`
+ * file are parsed twice, so their metacharacters are escaped twice.
+ */
+function quoteWindowsCmdArg(arg: string, doubleEscape = false): string {
+  let quoted = arg
+    // Double backslashes that precede a quote, then escape the quote
+    .replace(/(\\*)"/g, '$1$1\\"')
+    // Double trailing backslashes so they do not escape the closing quote
+    .replace(/(\\*)$/, "$1$1");
+
+  quoted = `"${quoted}"`.replace(CMD_META_CHARS, "^$1");
+
+  return doubleEscape ? quoted.replace(CMD_META_CHARS, "^$1") : quoted;
+}
+
+/**
+ * Quotes a single argument so a shell passes it to the command literally.
+ *
+ * POSIX shells get single quotes; on Windows the argument is escaped for
+ * `cmd.exe`. Use this when building a command string for `shell: true`.
+ *
+ * @example
+ * ```typescript
+ * const title = getGithubHeadRef() ?? "";
+ * await execCommand(`echo ${quoteShellArg(title)} | tee title.txt`, [], {
+ *   shell: true,
+ * });
+ * ```
+ *
+ * @param arg - The argument to quote
+ * @param platform - Platform rules to apply (default: `process.platform`)
+ * @returns The quoted argument
+ */
+export function quoteShellArg(
+  arg: string,
+  platform: NodeJS.Platform = process.platform,
+): string {
+  if (platform === "win32") {
+    return quoteWindowsCmdArg(arg);
+  }
+
+  if (POSIX_SAFE_ARG.test(arg)) {
+    return arg;
+  }
+
+  return `'${arg.replace(/'/g, "'\\''")}'`;
+}
+
+/**
+ * What to actually spawn for a command.
+ */
+type Invocation = {
+  file: string;
+  args: string[];
+  shell: boolean | string;
+  windowsVerbatimArguments: boolean;
+};
+
+/**
+ * Works out what to spawn. Without a shell the command is resolved on `PATH`
+ * first; Windows batch files still need `cmd.exe`, so they are wrapped with
+ * every argument escaped.
+ */
+function resolveInvocation(
+  command: string,
+  args: string[],
+  options: ExecOptions,
+): Invocation | undefined {
+  const shell = options.shell ?? false;
+
+  if (shell) {
+    return {
+      file: [command, ...args.map((arg) => quoteShellArg(arg))].join(" "),
+      args: [],
+      shell,
+      windowsVerbatimArguments: false,
+    };
+  }
+
+  const resolved = which(command, {
+    ...(options.env ? { env: options.env } : {}),
+    ...(typeof options.cwd === "string" ? { cwd: options.cwd } : {}),
+  });
+
+  if (!resolved) {
+    return undefined;
+  }
+
+  if (process.platform === "win32" && /\.(cmd|bat)$/i.test(resolved)) {
+    const line = [
+      quoteWindowsCmdArg(resolved),
+      ...args.map((arg) => quoteWindowsCmdArg(arg, true)),
+    ].join(" ");
+
+    return {
+      file: process.env["ComSpec"] ?? "cmd.exe",
+      args: ["/d", "/s", "/c", `"${line}"`],
+      shell: false,
+      windowsVerbatimArguments: true,
+    };
+  }
+
+  return {
+    file: resolved,
+    args,
+    shell: false,
+    windowsVerbatimArguments: false,
+  };
+}
+
+/**
+ * Maps a stream mode onto the matching spawn stdio value.
+ */
+function toStdio(mode: StreamMode): "pipe" | "inherit" | "ignore" {
+  return mode === "capture" || mode === "tee" ? "pipe" : mode;
+}
+
+/**
+ * Run a command and collect its exit code, signal, output and duration.
+ *
+ * By default both output streams are captured and the promise rejects with a
+ * {@link CommandError} when the command exits with a non-zero code.
+ *
+ * No shell is involved unless `shell` is set: the command is resolved on
+ * `PATH` (including `PATHEXT` on Windows) and each argument reaches the
+ * process exactly as given, so values from PR titles or branch names cannot
+ * inject shell syntax.
+ *
+ * @example
+ * ```typescript
+ * const { stdout } = await execCommand("git", ["rev-parse", "HEAD"]);
+ * console.log(`HEAD is ${stdout.trim()}`);
+ * ```
+ *
+ * @example
+ * ```typescript
+ * // Show output live while still keeping it for later
+ * const result = await execCommand("npm", ["test"], {
+ *   stdout: "tee",
+ *   stderr: "tee",
+ *   ignoreReturnCode: true,
+ * });
+ * if (result.exitCode !== 0) {
+ *   console.log(`Tests failed in ${result.durationMs}ms`);
+ * }
+ * ```
+ *
+ * @example
+ * ```typescript
+ * try {
+ *   await execCommand("jq", [".name"], { input: '{"name":"demo"}' });
+ * } catch (error) {
+ *   if (error instanceof CommandError) {
+ *     console.error(`exit ${error.exitCode}: ${error.stderr}`);
+ *   }
+ * }
+ * ```
+ *
+ * @example
+ * ```typescript
+ * // Cancel from outside, giving the build 10 seconds to shut down cleanly
+ * const controller = new AbortController();
+ * process.once("SIGINT", () => controller.abort());
+ *
+ * try {
+ *   await execCommand("make", ["all"], {
+ *     signal: controller.signal,
+ *     timeoutMs: 20 * 60 * 1000,
+ *     killGraceMs: 10_000,
+ *   });
+ * } catch (error) {
+ *   if (error instanceof CommandTerminatedError) {
+ *     console.error(error.timedOut ? "Build timed out" : "Build cancelled");
+ *   }
+ * }
+ * ```
+ *
+ * @example
+ * ```typescript
+ * // Retry a flaky install with exponential backoff
+ * await execCommand("npm", ["ci"], {
+ *   stdout: "inherit",
+ *   timeoutMs: 15 * 60 * 1000,
+ *   retry: {
+ *     maxAttempts: 3,
+ *     attemptTimeoutMs: 5 * 60 * 1000,
+ *     retryIf: (error) => error instanceof CommandError && error.exitCode !== 2,
+ *   },
+ * });
+ * ```
+ *
  * @param command - The command to run.
  * @param args - Additional arguments to pass to the command.
- * @param options - Spawn options.
- * @param timeout - How long (in seconds) to wait before rejecting.
- * @returns A promise that resolves when the command exits successfully.
+ * @param options - Spawn options plus stream, input, timeout, cancellation and retry settings.
+ * @returns A promise that resolves with the command's result.
+ * @throws CommandTerminatedError if the command times out or is aborted.
+ * @throws CommandError if the command fails to start or exits with a non-zero code.
  */
-export function runCommand(
+export function execCommand(
+  command: string,
+  args: string[] = [],
+  options: ExecOptions = {},
+): Promise<ExecResult> {
+  const { retry: retryOptions, ...runOptions } = options;
+
+  if (!retryOptions) {
+    return execOnce(command, args, runOptions);
+  }
+
+  const { timeoutMs, signal } = runOptions;
+  const deadline =
+    timeoutMs && timeoutMs > 0 ? Date.now() + timeoutMs : undefined;
+
+  return retry(
+    () => {
+      const remaining =
+        deadline === undefined ? undefined : Math.max(1, deadline - Date.now());
+      const attemptTimeout =
+        retryOptions.attemptTimeoutMs && remaining !== undefined
+          ? Math.min(retryOptions.attemptTimeoutMs, remaining)
+          : (retryOptions.attemptTimeoutMs ?? remaining);
+
+      return execOnce(command, args, {
+        ...runOptions,
+        ...(attemptTimeout === undefined ? {} : { timeoutMs: attemptTimeout }),
+      });
+    },
+    {
+      ...retryOptions,
+      // Attempt timeouts are enforced by killing the process instead
+      attemptTimeoutMs: 0,
+      retryIf: async (error, attempt) => {
+        if (deadline !== undefined && Date.now() >= deadline) return false;
+        if (error instanceof CommandTerminatedError && error.aborted) {
+          return false;
+        }
+
+        return retryOptions.retryIf
+          ? retryOptions.retryIf(error, attempt)
+          : true;
+      },
+    },
+    signal,
+  );
+}
+
+/**
+ * Runs a command once. See {@link execCommand}.
+ */
+function execOnce(
   command: string,
   args: string[],
-  options: SpawnOptionsWithoutStdio,
-  timeout: number,
-): Promise<void> {
+  options: Omit<ExecOptions, "retry">,
+): Promise<ExecResult> {
+  const {
+    stdout: stdoutMode = "capture",
+    stderr: stderrMode = "capture",
+    stdin = "ignore",
+    input,
+    ignoreReturnCode = false,
+    timeoutMs,
+    signal: abortSignal,
+    killSignal = "SIGTERM",
+    killGraceMs = 5000,
+    killProcessGroup = process.platform !== "win32" &&
+      !(stdin === "inherit" && input === undefined && process.stdin.isTTY),
+    ...spawnOptions
+  } = options;
+
   return new Promise((resolve, reject) => {
-    const spwn = spawn(command, args, {
-      stdio: "inherit",
-      shell: true,
-      ...options,
+    const startedAt = Date.now();
+    const stdoutChunks: Buffer[] = [];
+    const stderrChunks: Buffer[] = [];
+    let settled = false;
+    let terminatedBy: CommandTerminationReason | undefined;
+    let tid: ReturnType<typeof setTimeout> | undefined;
+    let killTid: ReturnType<typeof setTimeout> | undefined;
+
+    const buildResult = (
+      exitCode: number | null,
+      signal: NodeJS.Signals | null,
+    ): ExecResult => ({
+      command,
+      args,
+      exitCode,
+      signal,
+      stdout: Buffer.concat(stdoutChunks).toString("utf8"),
+      stderr: Buffer.concat(stderrChunks).toString("utf8"),
+      durationMs: Date.now() - startedAt,
     });
 
-    const tid = setTimeout(() => {
-      spwn.kill();
-      reject(new Error("Command timed out and took too long to exit"));
-    }, timeout * 1000);
+    if (abortSignal?.aborted) {
+      reject(
+        new CommandTerminatedError(
+          `Command "${describeCommand(command, args)}" was aborted before it started`,
+          buildResult(null, null),
+          "abort",
+        ),
+      );
+      return;
+    }
 
-    spwn.on("error", (err: Error) => {
-      clearTimeout(tid);
-      spwn.kill();
-      reject(err);
+    const invocation = resolveInvocation(command, args, spawnOptions);
+    if (!invocation) {
+      reject(
+        new CommandError(
+          `Command "${command}" was not found on PATH`,
+          buildResult(null, null),
+        ),
+      );
+      return;
+    }
+
+    const spwn = spawn(invocation.file, invocation.args, {
+      ...spawnOptions,
+      shell: invocation.shell,
+      windowsVerbatimArguments: invocation.windowsVerbatimArguments,
+      detached: killProcessGroup,
+      stdio: [
+        input !== undefined ? "pipe" : stdin,
+        toStdio(stdoutMode),
+        toStdio(stderrMode),
+      ],
     });
 
-    spwn.on("exit", (exitCode: number | null) => {
+    const sendSignal = (signal: NodeJS.Signals) => {
+      try {
+        if (killProcessGroup && spwn.pid !== undefined) {
+          // A negative pid targets the whole process group
+          process.kill(-spwn.pid, signal);
+        } else {
+          spwn.kill(signal);
+        }
+      } catch {
+        // The process already exited
+      }
+    };
+
+    const onAbort = () => terminate("abort");
+
+    // Pass shutdown signals on, a child in its own process group would not
+    // see Ctrl+C and outlive this process otherwise
+    const untrack = trackChildProcess(sendSignal);
+    const uninstallShutdown = killProcessGroup
+      ? installShutdownHandlers()
+      : undefined;
+
+    const cleanup = () => {
       clearTimeout(tid);
-      if (exitCode === 0) {
-        resolve();
-      } else {
-        reject(new Error("Command exited with a non-zero exit code"));
+      clearTimeout(killTid);
+      abortSignal?.removeEventListener("abort", onAbort);
+      untrack();
+      uninstallShutdown?.();
+    };
+
+    const fail = (error: CommandError) => {
+      if (settled) return;
+      settled = true;
+      cleanup();
+      reject(error);
+    };
+
+    const terminate = (reason: CommandTerminationReason) => {
+      if (settled || terminatedBy) return;
+      terminatedBy = reason;
+      sendSignal(killSignal);
+
+      if (killSignal !== "SIGKILL" && killGraceMs >= 0) {
+        killTid = setTimeout(() => sendSignal("SIGKILL"), killGraceMs);
       }
+    };
+
+    spwn.stdout?.on("data", (chunk: Buffer) => {
+      stdoutChunks.push(chunk);
+      if (stdoutMode === "tee") process.stdout.write(chunk);
+    });
+
+    spwn.stderr?.on("data", (chunk: Buffer) => {
+      stderrChunks.push(chunk);
+      if (stderrMode === "tee") process.stderr.write(chunk);
     });
+
+    if (input !== undefined) {
+      // The child may exit without reading stdin; that is not an error here
+      spwn.stdin?.on("error", () => {});
+      spwn.stdin?.end(input);
+    }
+
+    if (timeoutMs && timeoutMs > 0) {
+      tid = setTimeout(() => terminate("timeout"), timeoutMs);
+    }
+
+    abortSignal?.addEventListener("abort", onAbort, { once: true });
+
+    spwn.on("error", (err: Error) => {
+      sendSignal("SIGKILL");
+      fail(
+        new CommandError(
+          `Command "${describeCommand(command, args)}" failed to start: ${err.message}`,
+          buildResult(null, null),
+          { cause: err },
+        ),
+      );
+    });
+
+    // Terminated processes settle on exit: orphaned grandchildren may keep
+    // the output pipes open, so waiting for "close" could hang
+    spwn.on(
+      "exit",
+      (exitCode: number | null, signal: NodeJS.Signals | null) => {
+        if (!terminatedBy) return;
+
+        fail(
+          new CommandTerminatedError(
+            terminatedBy === "timeout"
+              ? `Command "${describeCommand(command, args)}" timed out after ${timeoutMs}ms`
+              : `Command "${describeCommand(command, args)}" was aborted`,
+            buildResult(exitCode, signal),
+            terminatedBy,
+          ),
+        );
+      },
+    );
+
+    spwn.on(
+      "close",
+      (exitCode: number | null, signal: NodeJS.Signals | null) => {
+        if (settled || terminatedBy) return;
+
+        const result = buildResult(exitCode, signal);
+
+        if (exitCode === 0 || ignoreReturnCode) {
+          settled = true;
+          cleanup();
+          resolve(result);
+          return;
+        }
+
+        fail(
+          new CommandError(
+            signal
+              ? `Command "${describeCommand(command, args)}" was terminated by ${signal}`
+              : `Command "${describeCommand(command, args)}" exited with code ${exitCode}`,
+            result,
+          ),
+        );
+      },
+    );
+  });
+}
+
+/**
+ * Run a given command and wait for it to finish.
+ *
+ * Output and input are inherited from the current process. Use
+ * {@link execCommand} to capture output instead. Commands run without a
+ * shell unless `shell: true` is passed in the options.
+ *
+ * @param command - The command to run.
+ * @param args - Additional arguments to pass to the command.
+ * @param options - Spawn options, plus any {@link ExecOptions} overrides.
+ * @param timeout - How long (in seconds) to wait before rejecting.
+ * @returns A promise that resolves with the result when the command exits successfully.
+ * @throws CommandTerminatedError if the command times out or is aborted.
+ * @throws CommandError if the command fails to start or exits with a non-zero code.
+ */
+export function runCommand(
+  command: string,
+  args: string[],
+  options: ExecOptions,
+  timeout: number,
+): Promise<ExecResult> {
+  return execCommand(command, args, {
+    stdin: "inherit",
+    stdout: "inherit",
+    stderr: "inherit",
+    ...options,
+    timeoutMs: timeout * 1000,
   });
 }
@@ -0,0 +1,452 @@
+/**
+ * Read-only introspection of the checked out git repository
+ *
+ * Git is run through `execCommand` rather than `runCommand` because every
+ * helper parses its stdout, which `runCommand` passes through to the console.
+ */
+
+import type { CIDetectionOptions } from "./ci.js";
+import { execCommand, type ExecOptions } from "./command.js";
+import { getEnv } from "./env.js";
+import {
+  getGithubHeadRef,
+  getGithubRefName,
+  getGithubRefType,
+  getGithubSha,
+  getGithubWorkspace,
+} from "./github-ci-variables.js";
+
+/**
+ * Options shared by the git helpers.
+ *
+ * `env` is used both to run git and for the GitHub fallbacks, so a fake
+ * environment without `PATH` exercises the fallbacks in tests.
+ */
+export type GitOptions = CIDetectionOptions & {
+  /**
+   * Repository directory (default: `GITHUB_WORKSPACE`, then `process.cwd()`)
+   */
+  cwd?: string;
+
+  /**
+   * How long (in milliseconds) each git command may run
+   */
+  timeoutMs?: number;
+
+  /**
+   * Cancels running git commands
+   */
+  signal?: AbortSignal;
+};
+
+/**
+ * How a file changed between two commits.
+ */
+export type ChangedFileStatus =
+  | "added"
+  | "modified"
+  | "deleted"
+  | "renamed"
+  | "copied"
+  | "type-changed"
+  | "unmerged"
+  | "unknown";
+
+/**
+ * A file that differs between two commits.
+ */
+export type ChangedFile = {
+  /**
+   * Path of the file after the change, relative to the repository root
+   */
+  path: string;
+
+  /**
+   * Path before a rename or copy
+   */
+  previousPath: string | undefined;
+
+  status: ChangedFileStatus;
+
+  /**
+   * Similarity percentage git reported for renames and copies
+   */
+  similarity: number | undefined;
+};
+
+/**
+ * Options for {@link getChangedFiles}.
+ */
+export type ChangedFilesOptions = GitOptions & {
+  /**
+   * Compare against the merge base of the two refs (`base...head`), which is
+   * what a pull request diff shows (default: false)
+   */
+  mergeBase?: boolean;
+
+  /**
+   * Detect renames, optionally with a minimum similarity percentage
+   * (default: true, git's default of 50%)
+   */
+  findRenames?: boolean | number;
+};
+
+/**
+ * A commit read by {@link getGitCommits}.
+ */
+export type GitCommit = {
+  sha: string;
+  subject: string;
+  body: string;
+
+  /**
+   * Subject and body together, as written
+   */
+  message: string;
+
+  authorName: string;
+  authorEmail: string;
+  authoredAt: Date;
+};
+
+/**
+ * Whether the clone has truncated history.
+ */
+export type GitCloneDepth = {
+  shallow: boolean;
+
+  /**
+   * Number of commits reachable from HEAD when the clone is shallow, e.g. 1
+   * after `actions/checkout` with its default `fetch-depth`
+   */
+  depth: number | undefined;
+};
+
+const STATUS_CODES: Record<string, ChangedFileStatus> = {
+  A: "added",
+  M: "modified",
+  D: "deleted",
+  R: "renamed",
+  C: "copied",
+  T: "type-changed",
+  U: "unmerged",
+};
+
+/**
+ * Runs git in the repository and returns its trimmed stdout.
+ *
+ * @throws CommandError if git is missing or exits with a non-zero code
+ */
+async function git(args: string[], options: GitOptions = {}): Promise<string> {
+  const execOptions: ExecOptions = {
+    cwd: options.cwd ?? getGithubWorkspace(options) ?? process.cwd(),
+    env: getEnv(options),
+  };
+  if (options.timeoutMs !== undefined) {
+    execOptions.timeoutMs = options.timeoutMs;
+  }
+  if (options.signal) {
+    execOptions.signal = options.signal;
+  }
+
+  const { stdout } = await execCommand("git", args, execOptions);
+  return stdout.replace(/\r?\n$/, "");
+}
+
+/**
+ * Builds a `from..to` style revision range for git.
+ *
+ * Refs are spliced into the arguments, so one starting with `-` would be read
+ * as an option such as `--output=<file>`; those are rejected instead.
+ *
+ * @throws Error if either ref starts with `-`
+ */
+function revisionRange(
+  from: string,
+  to: string,
+  separator: ".." | "...",
+): string {
+  for (const ref of [from, to]) {
+    if (ref.startsWith("-")) {
+      throw new Error(`Invalid git ref "${ref}": refs must not start with "-"`);
+    }
+  }
+
+  return `${from}${separator}${to}`;
+}
+
+/**
+ * Like {@link git}, but resolves to `undefined` instead of throwing.
+ */
+async function tryGit(
+  args: string[],
+  options?: GitOptions,
+): Promise<string | undefined> {
+  try {
+    return await git(args, options);
+  } catch {
+    return undefined;
+  }
+}
+
+/**
+ * Whether the directory is inside a git work tree and git can be run.
+ *
+ * @param options - Repository directory and environment
+ */
+export async function isGitRepository(options?: GitOptions): Promise<boolean> {
+  return (
+    (await tryGit(["rev-parse", "--is-inside-work-tree"], options)) === "true"
+  );
+}
+
+/**
+ * Gets the SHA of HEAD, falling back to `GITHUB_SHA` when git cannot be run.
+ *
+ * @example
+ * ```typescript
+ * const sha = await getGitSha();
+ * console.log(sha?.slice(0, 7));
+ * ```
+ *
+ * @param options - Repository directory and environment
+ * @returns The full commit SHA, or `undefined` if neither git nor the env know it
+ */
+export async function getGitSha(
+  options?: GitOptions,
+): Promise<string | undefined> {
+  return (
+    (await tryGit(["rev-parse", "HEAD"], options)) || getGithubSha(options)
+  );
+}
+
+/**
+ * Gets the checked out branch name.
+ *
+ * `actions/checkout` leaves HEAD detached for pull requests and tags, so the
+ * branch then comes from `GITHUB_HEAD_REF` or a branch `GITHUB_REF_NAME`, the
+ * same values used when git cannot be run.
+ *
+ * @param options - Repository directory and environment
+ * @returns The branch name, or `undefined` for a detached HEAD outside a branch build
+ */
+export async function getGitBranch(
+  options?: GitOptions,
+): Promise<string | undefined> {
+  const branch = await tryGit(
+    ["symbolic-ref", "--quiet", "--short", "HEAD"],
+    options,
+  );
+  if (branch) return branch;
+
+  return (
+    getGithubHeadRef(options) ||
+    (getGithubRefType(options) === "branch"
+      ? getGithubRefName(options)
+      : undefined)
+  );
+}
+
+/**
+ * Gets the tags pointing at HEAD, falling back to a tag `GITHUB_REF_NAME`
+ * when git cannot be run.
+ *
+ * @param options - Repository directory and environment
+ * @returns The tag names, sorted by git
+ */
+export async function getGitTagsAtHead(
+  options?: GitOptions,
+): Promise<string[]> {
+  const tags = await tryGit(["tag", "--points-at", "HEAD"], options);
+  if (tags !== undefined) {
+    return tags.split(/\r?\n/).filter(Boolean);
+  }
+
+  const refName = getGithubRefName(options);
+  return getGithubRefType(options) === "tag" && refName ? [refName] : [];
+}
+
+/**
+ * Lists files that differ between two commits.
+ *
+ * @example
+ * ```typescript
+ * const pr = getPullRequestContext();
+ * const files = await getChangedFiles(pr!.baseSha!, pr!.headSha!, { mergeBase: true });
+ * for (const file of files.filter((f) => f.status === "renamed")) {
+ *   console.log(`${file.previousPath} -> ${file.path}`);
+ * }
+ * ```
+ *
+ * @param base - The older ref or SHA
+ * @param head - The newer ref or SHA (default: `HEAD`)
+ * @param options - Merge base and rename detection settings
+ * @returns The changed files in the order git reports them
+ * @throws Error if a ref starts with `-`
+ * @throws CommandError if git fails, e.g. because a ref is missing from a shallow clone
+ */
+export async function getChangedFiles(
+  base: string,
+  head = "HEAD",
+  options: ChangedFilesOptions = {},
+): Promise<ChangedFile[]> {
+  const { mergeBase = false, findRenames = true } = options;
+  const renames =
+    findRenames === false
+      ? "--no-renames"
+      : findRenames === true
+        ? "--find-renames"
+        : `--find-renames=${findRenames}%`;
+
+  const output = await git(
+    [
+      "-c",
+      "core.quotepath=off",
+      "diff",
+      "--name-status",
+      "-z",
+      renames,
+      revisionRange(base, head, mergeBase ? "..." : ".."),
+      "--",
+    ],
+    options,
+  );
+
+  const fields = output.split("\0");
+  const files: ChangedFile[] = [];
+
+  for (let i = 0; i < fields.length;) {
+    const code = fields[i++];
+    if (!code) continue;
+
+    const status = STATUS_CODES[code.charAt(0)] ?? "unknown";
+    const similarity = /^[RC]\d+$/.test(code)
+      ? Number(code.slice(1))
+      : undefined;
+
+    if (status === "renamed" || status === "copied") {
+      const previousPath = fields[i++] ?? "";
+      const path = fields[i++] ?? "";
+      files.push({ path, previousPath, status, similarity });
+    } else {
+      const path = fields[i++] ?? "";
+      files.push({ path, previousPath: undefined, status, similarity });
+    }
+  }
+
+  return files;
+}
+
+/**
+ * Reads the commits in `from..to`, newest first.
+ *
+ * @example
+ * ```typescript
+ * const commits = await getGitCommits("v1.2.0");
+ * const breaking = commits.filter((c) => /BREAKING CHANGE/.test(c.body));
+ * ```
+ *
+ * @param from - Commits reachable from this ref are excluded
+ * @param to - The newest commit (default: `HEAD`)
+ * @param options - Repository directory and environment
+ * @returns The commits in the range
+ * @throws Error if a ref starts with `-`
+ * @throws CommandError if git fails or a ref is unknown
+ */
+export async function getGitCommits(
+  from: string,
+  to = "HEAD",
+  options?: GitOptions,
+): Promise<GitCommit[]> {
+  // Unit and record separators cannot appear in commit metadata
+  const output = await git(
+    [
+      "log",
+      "--format=%H%x1f%an%x1f%ae%x1f%aI%x1f%B%x1e",
+      revisionRange(from, to, ".."),
+      "--",
+    ],
+    options,
+  );
+
+  return output
+    .split("\x1e")
+    .map((record) => record.replace(/^\r?\n/, ""))
+    .filter(Boolean)
+    .map((record) => {
+      const [sha = "", authorName = "", authorEmail = "", date = "", raw = ""] =
+        record.split("\x1f");
+      const message = raw.replace(/\s+$/, "");
+      const [subject = "", ...rest] = message.split("\n");
+
+      return {
+        sha,
+        subject,
+        body: rest.join("\n").replace(/^\s*\n/, ""),
+        message,
+        authorName,
+        authorEmail,
+        authoredAt: new Date(date),
+      };
+    });
+}
+
+/**
+ * Tells whether the clone is shallow and how many commits it holds.
+ *
+ * @example
+ * ```typescript
+ * const { shallow } = await getGitCloneDepth();
+ * if (shallow) {
+ *   await execCommand("git", ["fetch", "--unshallow"]);
+ * }
+ * ```
+ *
+ * @param options - Repository directory and environment
+ * @returns The shallow state and depth
+ * @throws CommandError if git cannot be run
+ */
+export async function getGitCloneDepth(
+  options?: GitOptions,
+): Promise<GitCloneDepth> {
+  const shallow =
+    (await git(["rev-parse", "--is-shallow-repository"], options)) === "true";
+
+  if (!shallow) {
+    return { shallow, depth: undefined };
+  }
+
+  const count = await git(["rev-list", "--count", "HEAD"], options);
+  return { shallow, depth: Number(count) };
+}
+
+/**
+ * Whether the working tree has uncommitted changes.
+ *
+ * @example
+ * ```typescript
+ * await execCommand("npm", ["run", "build"]);
+ * if (await isGitDirty()) {
+ *   error("dist/ is out of date, run npm run build and commit the result");
+ * }
+ * ```
+ *
+ * @param options - Repository directory, environment and whether untracked files count (default: true)
+ * @returns `true` if anything is modified, staged or (optionally) untracked
+ * @throws CommandError if git cannot be run
+ */
+export async function isGitDirty(
+  options: GitOptions & { includeUntracked?: boolean } = {},
+): Promise<boolean> {
+  const { includeUntracked = true } = options;
+  const status = await git(
+    [
+      "status",
+      "--porcelain",
+      includeUntracked ? "--untracked-files=normal" : "--untracked-files=no",
+    ],
+    options,
+  );
+
+  return status.length > 0;
+}
@@ -0,0 +1,630 @@
+/**
+ * Loader and runtime checks for `action.yml` metadata
+ * @see {https://docs.github.com/en/actions/reference/workflows-and-actions/metadata-syntax}
+ */
+
+import { existsSync, readFileSync } from "node:fs";
+import { join } from "node:path";
+import type { CIDetectionOptions } from "./ci.js";
+import { getEnv } from "./env.js";
+import {
+  readKeyValueFileCommands,
+  setOutput,
+} from "./github-ci-file-commands.js";
+import { getInput, getInputEnvName } from "./github-ci-inputs.js";
+import { getGithubActionPath } from "./github-ci-variables.js";
+import { parseYaml, type YamlMapping, type YamlValue } from "./yaml.js";
+
+/**
+ * An input declared under `inputs` in `action.yml`.
+ */
+export type ActionInputDescriptor = {
+  readonly name: string;
+  readonly description: string | undefined;
+  readonly required: boolean;
+
+  /**
+   * The default as a string, the way the runner passes it in `INPUT_*`
+   */
+  readonly default: string | undefined;
+
+  readonly deprecationMessage: string | undefined;
+};
+
+/**
+ * An output declared under `outputs` in `action.yml`.
+ */
+export type ActionOutputDescriptor = {
+  readonly name: string;
+  readonly description: string | undefined;
+
+  /**
+   * The expression a composite action maps the output from
+   */
+  readonly value: string | undefined;
+};
+
+/**
+ * `runs` section of a JavaScript action.
+ */
+export type NodeActionRuns = {
+  readonly using: `node${number}`;
+  readonly main: string;
+  readonly pre: string | undefined;
+  readonly preIf: string | undefined;
+  readonly post: string | undefined;
+  readonly postIf: string | undefined;
+};
+
+/**
+ * `runs` section of a composite action.
+ */
+export type CompositeActionRuns = {
+  readonly using: "composite";
+  readonly steps: readonly YamlMapping[];
+};
+
+/**
+ * `runs` section of a Docker container action.
+ */
+export type DockerActionRuns = {
+  readonly using: "docker";
+  readonly image: string;
+  readonly args: readonly string[];
+  readonly env: Readonly<Record<string, string>>;
+  readonly entrypoint: string | undefined;
+  readonly preEntrypoint: string | undefined;
+  readonly postEntrypoint: string | undefined;
+};
+
+/**
+ * The `runs` section, narrowed by `using`.
+ */
+export type ActionRuns =
+  NodeActionRuns | CompositeActionRuns | DockerActionRuns;
+
+/**
+ * Parsed `action.yml`. The type parameters let callers name the inputs and
+ * outputs they expect, which types {@link getActionInputs} and
+ * {@link setActionOutput}.
+ */
+export type ActionMetadata<
+  I extends string = string,
+  O extends string = string,
+> = {
+  readonly name: string;
+  readonly description: string;
+  readonly author: string | undefined;
+  readonly inputs: Readonly<Record<I, ActionInputDescriptor>>;
+  readonly outputs: Readonly<Record<O, ActionOutputDescriptor>>;
+  readonly runs: ActionRuns;
+  readonly branding:
+    | Readonly<{ icon: string | undefined; color: string | undefined }>
+    | undefined;
+
+  /**
+   * The file the metadata was read from, if it came from disk
+   */
+  readonly file: string | undefined;
+};
+
+/**
+ * Options for {@link loadActionMetadata}.
+ */
+export type ActionMetadataOptions = CIDetectionOptions & {
+  /**
+   * Directory holding `action.yml` (default: `GITHUB_ACTION_PATH`, then the
+   * current working directory)
+   */
+  dir?: string;
+};
+
+/**
+ * A mismatch between `action.yml` and the running step.
+ */
+export type ActionMetadataIssue = {
+  /**
+   * - `missing-input` - a required input without a default is not set
+   * - `unexpected-input` - an `INPUT_*` variable matches no declared input
+   * - `missing-output` - a declared output was not written to `GITHUB_OUTPUT`
+   */
+  kind: "missing-input" | "unexpected-input" | "missing-output";
+  name: string;
+  message: string;
+};
+
+/**
+ * Thrown when `action.yml` cannot be found, parsed or does not have the
+ * expected shape.
+ */
+export class ActionMetadataError extends Error {
+  constructor(
+    message: string,
+    public readonly file: string | undefined,
+  ) {
+    super(file ? `${file}: ${message}` : message);
+    this.name = "ActionMetadataError";
+  }
+}
+
+/**
+ * File names the runner looks for, in order.
+ */
+const METADATA_FILES = ["action.yml", "action.yaml"];
+
+/**
+ * Whether a parsed value is a mapping.
+ */
+function isMapping(value: YamlValue | undefined): value is YamlMapping {
+  return !!value && typeof value === "object" && !Array.isArray(value);
+}
+
+/**
+ * Reads an optional scalar field as a string.
+ */
+function readScalar(
+  mapping: YamlMapping,
+  key: string,
+  path: string,
+  file: string | undefined,
+): string | undefined {
+  const value = mapping[key];
+  if (value === undefined || value === null) return undefined;
+
+  if (typeof value === "object") {
+    throw new ActionMetadataError(`"${path}" must be a scalar`, file);
+  }
+
+  return String(value);
+}
+
+/**
+ * Reads a required scalar field as a string.
+ */
+function requireScalar(
+  mapping: YamlMapping,
+  key: string,
+  path: string,
+  file: string | undefined,
+): string {
+  const value = readScalar(mapping, key, path, file);
+  if (value === undefined || value === "") {
+    throw new ActionMetadataError(`"${path}" is required`, file);
+  }
+
+  return value;
+}
+
+/**
+ * Reads an optional mapping field, treating `null` as empty.
+ */
+function readMapping(
+  mapping: YamlMapping,
+  key: string,
+  path: string,
+  file: string | undefined,
+): YamlMapping {
+  const value = mapping[key];
+  if (value === undefined || value === null) return {};
+
+  if (!isMapping(value)) {
+    throw new ActionMetadataError(`"${path}" must be a mapping`, file);
+  }
+
+  return value;
+}
+
+/**
+ * Builds the input descriptors from the `inputs` section.
+ */
+function parseInputs(
+  root: YamlMapping,
+  file: string | undefined,
+): Record<string, ActionInputDescriptor> {
+  const inputs: Record<string, ActionInputDescriptor> = {};
+
+  for (const [name, raw] of Object.entries(
+    readMapping(root, "inputs", "inputs", file),
+  )) {
+    const path = `inputs.${name}`;
+    const input = raw === null ? {} : raw;
+    if (!isMapping(input)) {
+      throw new ActionMetadataError(`"${path}" must be a mapping`, file);
+    }
+
+    const required = input["required"] ?? false;
+    if (
+      typeof required !== "boolean" &&
+      required !== "true" &&
+      required !== "false"
+    ) {
+      throw new ActionMetadataError(
+        `"${path}.required" must be a boolean`,
+        file,
+      );
+    }
+
+    inputs[name] = {
+      name,
+      description: readScalar(
+        input,
+        "description",
+        `${path}.description`,
+        file,
+      ),
+      required: required === true || required === "true",
+      default: readScalar(input, "default", `${path}.default`, file),
+      deprecationMessage: readScalar(
+        input,
+        "deprecationMessage",
+        `${path}.deprecationMessage`,
+        file,
+      ),
+    };
+  }
+
+  return inputs;
+}
+
+/**
+ * Builds the output descriptors from the `outputs` section.
+ */
+function parseOutputs(
+  root: YamlMapping,
+  file: string | undefined,
+): Record<string, ActionOutputDescriptor> {
+  const outputs: Record<string, ActionOutputDescriptor> = {};
+
+  for (const [name, raw] of Object.entries(
+    readMapping(root, "outputs", "outputs", file),
+  )) {
+    const path = `outputs.${name}`;
+    const output = raw === null ? {} : raw;
+    if (!isMapping(output)) {
+      throw new ActionMetadataError(`"${path}" must be a mapping`, file);
+    }
+
+    outputs[name] = {
+      name,
+      description: readScalar(
+        output,
+        "description",
+        `${path}.description`,
+        file,
+      ),
+      value: readScalar(output, "value", `${path}.value`, file),
+    };
+  }
+
+  return outputs;
+}
+
+/**
+ * Builds the `runs` descriptor for the declared runtime.
+ */
+function parseRuns(root: YamlMapping, file: string | undefined): ActionRuns {
+  const runs = root["runs"];
+  if (!isMapping(runs)) {
+    throw new ActionMetadataError(`"runs" is required`, file);
+  }
+
+  const using = requireScalar(runs, "using", "runs.using", file);
+
+  if (/^node\d+$/.test(using)) {
+    return {
+      using: using as `node${number}`,
+      main: requireScalar(runs, "main", "runs.main", file),
+      pre: readScalar(runs, "pre", "runs.pre", file),
+      preIf: readScalar(runs, "pre-if", "runs.pre-if", file),
+      post: readScalar(runs, "post", "runs.post", file),
+      postIf: readScalar(runs, "post-if", "runs.post-if", file),
+    };
+  }
+
+  if (using === "composite") {
+    const steps = runs["steps"];
+    if (!Array.isArray(steps) || !steps.every(isMapping)) {
+      throw new ActionMetadataError(
+        `"runs.steps" must be a list of steps`,
+        file,
+      );
+    }
+
+    return { using, steps };
+  }
+
+  if (using === "docker") {
+    const args = runs["args"] ?? [];
+    if (
+      !Array.isArray(args) ||
+      args.some((arg) => typeof arg === "object" && arg !== null)
+    ) {
+      throw new ActionMetadataError(
+        `"runs.args" must be a list of scalars`,
+        file,
+      );
+    }
+
+    const envMapping = readMapping(runs, "env", "runs.env", file);
+    const env: Record<string, string> = {};
+    for (const key of Object.keys(envMapping)) {
+      env[key] = readScalar(envMapping, key, `runs.env.${key}`, file) ?? "";
+    }
+
+    return {
+      using,
+      image: requireScalar(runs, "image", "runs.image", file),
+      args: args.map((arg) => (arg === null ? "" : String(arg))),
+      env,
+      entrypoint: readScalar(runs, "entrypoint", "runs.entrypoint", file),
+      preEntrypoint: readScalar(
+        runs,
+        "pre-entrypoint",
+        "runs.pre-entrypoint",
+        file,
+      ),
+      postEntrypoint: readScalar(
+        runs,
+        "post-entrypoint",
+        "runs.post-entrypoint",
+        file,
+      ),
+    };
+  }
+
+  throw new ActionMetadataError(
+    `"runs.using" must be "composite", "docker" or a node runtime such as "node20", got "${using}"`,
+    file,
+  );
+}
+
+/**
+ * Parses and checks the contents of an `action.yml` file.
+ *
+ * @example
+ * ```typescript
+ * const metadata = parseActionMetadata(`
+ * name: Greet
+ * description: Says hello
+ * inputs:
+ *   who:
+ *     required: true
+ * runs:
+ *   using: node20
+ *   main: dist/index.js
+ * `);
+ * metadata.inputs["who"]?.required; // true
+ * ```
+ *
+ * @param source - The YAML source
+ * @param file - Path used in error messages
+ * @returns The typed metadata
+ * @throws ActionMetadataError if the YAML is invalid or required fields are missing
+ */
+export function parseActionMetadata<
+  I extends string = string,
+  O extends string = string,
+>(source: string, file?: string): ActionMetadata<I, O> {
+  let root: YamlValue;
+  try {
+    root = parseYaml(source);
+  } catch (error) {
+    throw new ActionMetadataError(
+      error instanceof Error ? error.message : String(error),
+      file,
+    );
+  }
+
+  if (!isMapping(root)) {
+    throw new ActionMetadataError("Action metadata must be a mapping", file);
+  }
+
+  const branding = readMapping(root, "branding", "branding", file);
+
+  return {
+    name: requireScalar(root, "name", "name", file),
+    description: requireScalar(root, "description", "description", file),
+    author: readScalar(root, "author", "author", file),
+    // The names are the caller's claim, getActionInputs and setActionOutput check them
+    inputs: parseInputs(root, file) as Record<I, ActionInputDescriptor>,
+    outputs: parseOutputs(root, file) as Record<O, ActionOutputDescriptor>,
+    runs: parseRuns(root, file),
+    branding:
+      root["branding"] === undefined
+        ? undefined
+        : {
+            icon: readScalar(branding, "icon", "branding.icon", file),
+            color: readScalar(branding, "color", "branding.color", file),
+          },
+    file,
+  };
+}
+
+/**
+ * Loads `action.yml` (or `action.yaml`) from a directory.
+ *
+ * @example
+ * ```typescript
+ * const metadata = loadActionMetadata<"token" | "paths", "changed">({
+ *   dir: new URL("..", import.meta.url).pathname,
+ * });
+ * if (metadata.runs.using === "composite") {
+ *   console.log(`${metadata.runs.steps.length} steps`);
+ * }
+ * ```
+ *
+ * @param options - The directory to load from and CI detection options
+ * @returns The typed metadata
+ * @throws ActionMetadataError if no metadata file exists or it is invalid
+ */
+export function loadActionMetadata<
+  I extends string = string,
+  O extends string = string,
+>(options: ActionMetadataOptions = {}): ActionMetadata<I, O> {
+  const dir = options.dir ?? getGithubActionPath(options) ?? process.cwd();
+  const file = METADATA_FILES.map((name) => join(dir, name)).find((path) =>
+    existsSync(path),
+  );
+
+  if (!file) {
+    throw new ActionMetadataError(
+      `No action.yml or action.yaml found in ${dir}`,
+      undefined,
+    );
+  }
+
+  return parseActionMetadata<I, O>(readFileSync(file, "utf8"), file);
+}
+
+/**
+ * Reads every declared input, applying the defaults from `action.yml` the
+ * same way the runner does.
+ *
+ * @example
+ * ```typescript
+ * const metadata = loadActionMetadata<"token" | "paths">();
+ * const inputs = getActionInputs(metadata);
+ * inputs.token; // string
+ * ```
+ *
+ * @param metadata - The action metadata
+ * @param options - Optional CI detection options
+ * @returns The input values by name
+ * @throws InputError if a required input without a default is missing
+ */
+export function getActionInputs<I extends string>(
+  metadata: ActionMetadata<I, string>,
+  options?: CIDetectionOptions,
+): Record<I, string> {
+  const values = {} as Record<I, string>;
+  const descriptors: ActionInputDescriptor[] = Object.values(metadata.inputs);
+
+  for (const input of descriptors) {
+    values[input.name as I] = getInput(input.name, {
+      ...options,
+      required: input.required,
+      ...(input.default !== undefined && { default: input.default }),
+    });
+  }
+
+  return values;
+}
+
+/**
+ * Sets an output after checking that `action.yml` declares it.
+ *
+ * @example
+ * ```typescript
+ * const metadata = loadActionMetadata<string, "changed">();
+ * setActionOutput(metadata, "changed", true);
+ * ```
+ *
+ * @param metadata - The action metadata
+ * @param name - The output name
+ * @param value - The output value, non-strings are JSON encoded
+ * @param options - Optional CI detection options
+ * @returns `true` if the output was written, `false` if `GITHUB_OUTPUT` is not set
+ * @throws ActionMetadataError if the output is not declared
+ */
+export function setActionOutput<O extends string>(
+  metadata: ActionMetadata<string, O>,
+  name: O,
+  value: unknown,
+  options?: CIDetectionOptions,
+): boolean {
+  if (!Object.hasOwn(metadata.outputs, name)) {
+    throw new ActionMetadataError(
+      `Output "${name}" is not declared in action metadata`,
+      metadata.file,
+    );
+  }
+
+  return setOutput(name, value, options);
+}
+
+/**
+ * Checks the step's `INPUT_*` variables against the declared inputs.
+ *
+ * @example
+ * ```typescript
+ * for (const issue of validateActionInputs(loadActionMetadata())) {
+ *   error(issue.message);
+ * }
+ * ```
+ *
+ * @param metadata - The action metadata
+ * @param options - Optional CI detection options
+ * @returns Every mismatch found, or an empty array
+ */
+export function validateActionInputs(
+  metadata: ActionMetadata,
+  options?: CIDetectionOptions,
+): ActionMetadataIssue[] {
+  const env = getEnv(options);
+  const issues: ActionMetadataIssue[] = [];
+  const declared = new Set<string>();
+
+  for (const input of Object.values(metadata.inputs)) {
+    const envName = getInputEnvName(input.name);
+    declared.add(envName);
+
+    if (
+      input.required &&
+      input.default === undefined &&
+      !env[envName]?.trim()
+    ) {
+      issues.push({
+        kind: "missing-input",
+        name: input.name,
+        message: `Required input "${input.name}" is not set (expected ${envName})`,
+      });
+    }
+  }
+
+  for (const key of Object.keys(env)) {
+    if (key.startsWith("INPUT_") && !declared.has(key)) {
+      issues.push({
+        kind: "unexpected-input",
+        name: key.slice("INPUT_".length),
+        message: `${key} does not match any input declared in action metadata`,
+      });
+    }
+  }
+
+  return issues;
+}
+
+/**
+ * Checks that every declared output was written to `GITHUB_OUTPUT`. Call
+ * this at the end of a JavaScript or Docker action; composite outputs with a
+ * `value` expression are skipped because the runner resolves them.
+ *
+ * @example
+ * ```typescript
+ * await safeRun(main, {
+ *   onAfter: () => {
+ *     for (const issue of validateActionOutputs(metadata)) warning(issue.message);
+ *   },
+ * });
+ * ```
+ *
+ * @param metadata - The action metadata
+ * @param options - Optional CI detection options
+ * @returns Every output that was not set, or an empty array
+ * @throws Error if `GITHUB_OUTPUT` contains a malformed entry
+ */
+export function validateActionOutputs(
+  metadata: ActionMetadata,
+  options?: CIDetectionOptions,
+): ActionMetadataIssue[] {
+  const written = readKeyValueFileCommands("GITHUB_OUTPUT", options) ?? {};
+
+  return Object.values(metadata.outputs)
+    .filter((output) => output.value === undefined)
+    .filter((output) => !Object.hasOwn(written, output.name))
+    .map((output) => ({
+      kind: "missing-output",
+      name: output.name,
+      message: `Output "${output.name}" is declared in action metadata but was never set`,
+    }));
+}
@@ -0,0 +1,396 @@
+/**
+ * GitHub Actions Workflow Command Helpers
+ * @see {https://docs.github.com/en/actions/reference/workflows-and-actions/workflow-commands}
+ */
+
+import { randomUUID } from "node:crypto";
+import { EOL } from "node:os";
+import type { CIDetectionOptions } from "./ci.js";
+import { toCommandValue } from "./github-ci-file-commands.js";
+import { isRunnerDebug } from "./github-ci-variables.js";
+
+/**
+ * Properties that can be attached to an `error`, `warning` or `notice` annotation.
+ */
+export type AnnotationProperties = {
+  /**
+   * Custom title for the annotation
+   */
+  title?: string;
+
+  /**
+   * Path of the file the annotation refers to, relative to the workspace
+   */
+  file?: string;
+
+  /**
+   * First line of the annotated range
+   */
+  line?: number;
+
+  /**
+   * Last line of the annotated range
+   */
+  endLine?: number;
+
+  /**
+   * First column of the annotated range
+   */
+  col?: number;
+
+  /**
+   * Last column of the annotated range
+   */
+  endColumn?: number;
+};
+
+/**
+ * Annotation levels supported by the runner.
+ */
+export type AnnotationLevel = "error" | "warning" | "notice";
+
+/**
+ * A workflow command read back from log output.
+ */
+export type WorkflowCommand = {
+  command: string;
+  properties: Record<string, string>;
+  message: string;
+};
+
+/**
+ * Escapes a command message so `%`, `\r` and `\n` survive the runner's parser.
+ *
+ * @example
+ * ```typescript
+ * escapeCommandData("50% done\nnext"); // "50%25 done%0Anext"
+ * ```
+ */
+export function escapeCommandData(value: unknown): string {
+  return toCommandValue(value)
+    .replace(/%/g, "%25")
+    .replace(/\r/g, "%0D")
+    .replace(/\n/g, "%0A");
+}
+
+/**
+ * Escapes a command property value. In addition to the data escapes, `:` and
+ * `,` are encoded because they delimit the property list.
+ *
+ * @example
+ * ```typescript
+ * escapeCommandProperty("a:b,c"); // "a%3Ab%2Cc"
+ * ```
+ */
+export function escapeCommandProperty(value: unknown): string {
+  return escapeCommandData(value).replace(/:/g, "%3A").replace(/,/g, "%2C");
+}
+
+/**
+ * Builds the text of a workflow command without writing it.
+ *
+ * @example
+ * ```typescript
+ * formatCommand("warning", { file: "a.ts", line: 3 }, "Deprecated");
+ * // "::warning file=a.ts,line=3::Deprecated"
+ * ```
+ *
+ * @param command - The command name, e.g. `error` or `add-mask`
+ * @param properties - Command properties, `undefined` values are skipped
+ * @param message - The command message
+ * @returns The formatted command
+ */
+export function formatCommand(
+  command: string,
+  properties: Record<string, unknown>,
+  message: unknown,
+): string {
+  const props = Object.entries(properties)
+    .filter(([, value]) => value !== undefined && value !== null && value !== "")
+    .map(([key, value]) => `${key}=${escapeCommandProperty(value)}`)
+    .join(",");
+
+  const head = props ? `::${command} ${props}` : `::${command}`;
+  return `${head}::${escapeCommandData(message)}`;
+}
+
+/**
+ * Reverses {@link escapeCommandData} and {@link escapeCommandProperty}.
+ */
+function unescapeCommandValue(value: string): string {
+  return value
+    .replace(/%0D/gi, "\r")
+    .replace(/%0A/gi, "\n")
+    .replace(/%3A/gi, ":")
+    .replace(/%2C/gi, ",")
+    .replace(/%25/g, "%");
+}
+
+/**
+ * Parses one line of log output as a workflow command, the inverse of
+ * {@link formatCommand}.
+ *
+ * @example
+ * ```typescript
+ * parseCommand("::warning file=a.ts,line=3::Deprecated");
+ * // { command: "warning", properties: { file: "a.ts", line: "3" }, message: "Deprecated" }
+ * ```
+ *
+ * @param line - A single line of output
+ * @returns The command, or `undefined` if the line is not a workflow command
+ */
+export function parseCommand(line: string): WorkflowCommand | undefined {
+  const trimmed = line.replace(/\r?\n$/, "");
+  if (!trimmed.startsWith("::")) return undefined;
+
+  const end = trimmed.indexOf("::", 2);
+  if (end < 0) return undefined;
+
+  const info = trimmed.slice(2, end);
+  const spaceIndex = info.indexOf(" ");
+  const command = spaceIndex < 0 ? info : info.slice(0, spaceIndex);
+  if (!command) return undefined;
+
+  const properties: Record<string, string> = {};
+  if (spaceIndex >= 0) {
+    for (const pair of info.slice(spaceIndex + 1).split(",")) {
+      const equalsIndex = pair.indexOf("=");
+      if (equalsIndex <= 0) continue;
+      properties[pair.slice(0, equalsIndex).trim()] = unescapeCommandValue(
+        pair.slice(equalsIndex + 1),
+      );
+    }
+  }
+
+  return {
+    command,
+    properties,
+    message: unescapeCommandValue(trimmed.slice(end + 2)),
+  };
+}
+
+/**
+ * Reads every workflow command from captured log output, skipping the text
+ * between `stop-commands` and its resume token as the runner does.
+ *
+ * @param output - Captured stdout of a step
+ * @returns The commands in the order they were written
+ */
+export function parseWorkflowCommands(output: string): WorkflowCommand[] {
+  const commands: WorkflowCommand[] = [];
+  let resumeToken: string | undefined;
+
+  for (const line of output.split(/\r?\n/)) {
+    const parsed = parseCommand(line);
+    if (!parsed) continue;
+
+    if (resumeToken !== undefined) {
+      if (parsed.command === resumeToken) resumeToken = undefined;
+      continue;
+    }
+
+    if (parsed.command === "stop-commands") {
+      resumeToken = parsed.message;
+      continue;
+    }
+
+    commands.push(parsed);
+  }
+
+  return commands;
+}
+
+/**
+ * Writes a workflow command to stdout where the runner picks it up.
+ *
+ * @param command - The command name
+ * @param properties - Command properties
+ * @param message - The command message
+ */
+export function issueCommand(
+  command: string,
+  properties: Record<string, unknown> = {},
+  message: unknown = "",
+): void {
+  process.stdout.write(formatCommand(command, properties, message) + EOL);
+}
+
+/**
+ * Maps the public annotation property names onto the names the runner reads.
+ */
+function toAnnotationCommandProperties(
+  properties: AnnotationProperties,
+): Record<string, unknown> {
+  return {
+    title: properties.title,
+    file: properties.file,
+    line: properties.line,
+    endLine: properties.endLine,
+    col: properties.col,
+    endColumn: properties.endColumn,
+  };
+}
+
+/**
+ * Emits an `error`, `warning` or `notice` annotation.
+ *
+ * @param level - The annotation level
+ * @param message - The annotation message, errors are converted with `toString()`
+ * @param properties - Optional location and title for the annotation
+ */
+export function annotate(
+  level: AnnotationLevel,
+  message: string | Error,
+  properties: AnnotationProperties = {},
+): void {
+  issueCommand(
+    level,
+    toAnnotationCommandProperties(properties),
+    message instanceof Error ? message.toString() : message,
+  );
+}
+
+/**
+ * Emits an error annotation. This does not fail the step on its own.
+ *
+ * @example
+ * ```typescript
+ * error("Missing semicolon", { file: "src/app.ts", line: 10, col: 15 });
+ * ```
+ */
+export function error(
+  message: string | Error,
+  properties: AnnotationProperties = {},
+): void {
+  annotate("error", message, properties);
+}
+
+/**
+ * Emits a warning annotation.
+ *
+ * @example
+ * ```typescript
+ * warning("This API is deprecated", { title: "Deprecation" });
+ * ```
+ */
+export function warning(
+  message: string | Error,
+  properties: AnnotationProperties = {},
+): void {
+  annotate("warning", message, properties);
+}
+
+/**
+ * Emits a notice annotation.
+ *
+ * @example
+ * ```typescript
+ * notice("Cache restored from key linux-node-20");
+ * ```
+ */
+export function notice(
+  message: string | Error,
+  properties: AnnotationProperties = {},
+): void {
+  annotate("notice", message, properties);
+}
+
+/**
+ * Emits a debug message. Nothing is written unless step debug logging is
+ * enabled (`RUNNER_DEBUG=1`).
+ *
+ * @example
+ * ```typescript
+ * debug(`Resolved config: ${JSON.stringify(config)}`);
+ * ```
+ *
+ * @param message - The debug message
+ * @param options - Optional CI detection options
+ * @returns `true` if the message was written
+ */
+export function debug(message: string, options?: CIDetectionOptions): boolean {
+  if (isRunnerDebug(options) !== true) {
+    return false;
+  }
+
+  issueCommand("debug", {}, message);
+  return true;
+}
+
+/**
+ * Starts a collapsible group in the log. Close it with {@link endGroup}.
+ */
+export function startGroup(name: string): void {
+  issueCommand("group", {}, name);
+}
+
+/**
+ * Ends the current log group.
+ */
+export function endGroup(): void {
+  issueCommand("endgroup");
+}
+
+/**
+ * Runs a callback inside a collapsible log group, closing the group even if
+ * the callback throws.
+ *
+ * @example
+ * ```typescript
+ * const result = await group("Install dependencies", async () => {
+ *   await runCommand("npm", ["ci"], {}, 300);
+ *   return "done";
+ * });
+ * ```
+ */
+export async function group<T>(
+  name: string,
+  callback: () => T | Promise<T>,
+): Promise<T> {
+  startGroup(name);
+
+  try {
+    return await callback();
+  } finally {
+    endGroup();
+  }
+}
+
+/**
+ * Registers a value with the runner so it is masked in all later log output.
+ *
+ * @example
+ * ```typescript
+ * setSecret(apiKey);
+ * console.log(apiKey); // printed as ***
+ * ```
+ */
+export function setSecret(secret: string): void {
+  issueCommand("add-mask", {}, secret);
+}
+
+/**
+ * Stops the runner from processing workflow commands until the returned
+ * function is called. Useful when printing untrusted text that might contain
+ * `::` sequences.
+ *
+ * @example
+ * ```typescript
+ * const resume = stopCommands();
+ * console.log(untrustedLog);
+ * resume();
+ * ```
+ *
+ * @param token - Optional resume token, a random one is generated by default
+ * @returns A function that resumes command processing
+ */
+export function stopCommands(token: string = randomUUID()): () => void {
+  issueCommand("stop-commands", {}, token);
+
+  let resumed = false;
+  return () => {
+    if (resumed) return;
+    resumed = true;
+    issueCommand(token);
+  };
+}
@@ -0,0 +1,288 @@
+/**
+ * Typed snapshot of the workflow `github` and `runner` contexts
+ * @see {https://docs.github.com/en/actions/reference/workflows-and-actions/contexts}
+ */
+
+import type { EventPayloadMap } from "@octokit/webhooks-types";
+import { getEnv } from "./env.js";
+import {
+  getGithubEventPayloadAuto,
+  type GithubEventName,
+  type PayloadOptions,
+} from "./github-ci-payloads.js";
+import {
+  getGithubAction,
+  getGithubActionPath,
+  getGithubActionRepository,
+  getGithubActor,
+  getGithubActorId,
+  getGithubApiUrl,
+  getGithubBaseRef,
+  getGithubEnv,
+  getGithubEventName,
+  getGithubEventPath,
+  getGithubGraphqlUrl,
+  getGithubHeadRef,
+  getGithubJob,
+  getGithubOutput,
+  getGithubPath,
+  getGithubRef,
+  getGithubRefName,
+  getGithubRefType,
+  getGithubRepository,
+  getGithubRepositoryId,
+  getGithubRepositoryOwner,
+  getGithubRepositoryOwnerId,
+  getGithubRetentionDays,
+  getGithubRunId,
+  getGithubRunNumber,
+  getGithubServerUrl,
+  getGithubSha,
+  getGithubStepSummary,
+  getGithubTriggeringActor,
+  getGithubWorkflow,
+  getGithubWorkflowRef,
+  getGithubWorkflowSha,
+  getGithubWorkspace,
+  getRunnerArch,
+  getRunnerEnvironment,
+  getRunnerName,
+  getRunnerOs,
+  getRunnerTemp,
+  getRunnerToolCache,
+  isRefProtected,
+  isRunnerDebug,
+} from "./github-ci-variables.js";
+
+/**
+ * Mirror of the workflow `runner` context.
+ */
+export type GithubRunnerContext = {
+  readonly name: string | undefined;
+  readonly os: "Linux" | "Windows" | "macOS" | undefined;
+  readonly arch: "X86" | "X64" | "ARM" | "ARM64" | undefined;
+  readonly environment: "github-hosted" | "self-hosted" | undefined;
+  readonly temp: string | undefined;
+  readonly toolCache: string | undefined;
+  readonly debug: boolean;
+};
+
+/**
+ * Mirror of the workflow `github` context, plus derived values.
+ */
+export type GithubContext<T extends GithubEventName = GithubEventName> = {
+  readonly action: string | undefined;
+  readonly actionPath: string | undefined;
+  readonly actionRepository: string | undefined;
+  readonly actor: string | undefined;
+  readonly actorId: string | undefined;
+  readonly triggeringActor: string | undefined;
+  readonly baseRef: string | undefined;
+  readonly headRef: string | undefined;
+  readonly eventName: T | undefined;
+  readonly eventPath: string | undefined;
+
+  /**
+   * The parsed event payload, or `undefined` if it could not be read
+   */
+  readonly event: Readonly<EventPayloadMap[T]> | undefined;
+
+  readonly job: string | undefined;
+  readonly ref: string | undefined;
+  readonly refName: string | undefined;
+  readonly refProtected: boolean;
+  readonly refType: "branch" | "tag" | undefined;
+  readonly sha: string | undefined;
+
+  /**
+   * `owner/name` of the repository
+   */
+  readonly repository: string | undefined;
+
+  /**
+   * The repository split into owner and name
+   */
+  readonly repo: Readonly<{ owner: string; repo: string }> | undefined;
+
+  readonly repositoryId: string | undefined;
+  readonly repositoryOwner: string | undefined;
+  readonly repositoryOwnerId: string | undefined;
+  readonly retentionDays: string | undefined;
+  readonly runId: string | undefined;
+  readonly runNumber: string | undefined;
+  readonly runAttempt: string | undefined;
+
+  /**
+   * Link to this workflow run, e.g. `https://github.com/octo/repo/actions/runs/123`
+   */
+  readonly runUrl: string | undefined;
+
+  readonly serverUrl: string;
+  readonly apiUrl: string;
+  readonly graphqlUrl: string;
+  readonly workflow: string | undefined;
+  readonly workflowRef: string | undefined;
+  readonly workflowSha: string | undefined;
+  readonly workspace: string | undefined;
+  readonly envPath: string | undefined;
+  readonly outputPath: string | undefined;
+  readonly pathPath: string | undefined;
+  readonly stepSummaryPath: string | undefined;
+  readonly runner: GithubRunnerContext;
+};
+
+/**
+ * Options for {@link getGithubContext}.
+ */
+export type GithubContextOptions = PayloadOptions & {
+  /**
+   * Use this payload instead of reading `GITHUB_EVENT_PATH`, shorthand for
+   * an object `source`
+   */
+  payload?: unknown;
+};
+
+/**
+ * Recursively freezes an object graph.
+ */
+function deepFreeze<T>(value: T): T {
+  if (value && typeof value === "object" && !Object.isFrozen(value)) {
+    Object.freeze(value);
+    for (const child of Object.values(value)) {
+      deepFreeze(child);
+    }
+  }
+
+  return value;
+}
+
+/**
+ * Reads the event payload from the provided option or the payload source.
+ * The result is cloned so freezing it never touches a shared object.
+ */
+function readPayload(options?: GithubContextOptions): unknown {
+  if (options?.payload !== undefined) {
+    return structuredClone(options.payload);
+  }
+
+  const payload = getGithubEventPayloadAuto(options);
+  return payload === undefined ? undefined : structuredClone(payload);
+}
+
+/**
+ * Reads a nested string property from an unknown payload.
+ */
+function readString(value: unknown, ...keys: string[]): string | undefined {
+  let current = value;
+
+  for (const key of keys) {
+    if (!current || typeof current !== "object") return undefined;
+    current = (current as Record<string, unknown>)[key];
+  }
+
+  return typeof current === "string" ? current : undefined;
+}
+
+/**
+ * Builds an immutable snapshot of the `github` and `runner` contexts.
+ *
+ * Values come from the environment, with the event payload used as a
+ * fallback for `sha`, `ref` and `repo`. URLs default to github.com.
+ *
+ * @example
+ * ```typescript
+ * const context = getGithubContext<"pull_request">();
+ * console.log(`${context.repo?.owner}/${context.repo?.repo}@${context.sha}`);
+ * console.log(`PR #${context.event?.pull_request.number}`);
+ * console.log(`Run: ${context.runUrl}`);
+ * ```
+ *
+ * @example
+ * ```typescript
+ * // Build from a fake environment and payload in tests
+ * const context = getGithubContext({
+ *   env: { GITHUB_REPOSITORY: "octo/repo", GITHUB_RUN_ID: "42", GITHUB_EVENT_NAME: "push" },
+ *   payload: { ref: "refs/heads/main", after: "abc123" },
+ * });
+ * context.sha; // "abc123"
+ * ```
+ *
+ * @param options - Optional CI detection options and payload override
+ * @returns A deeply frozen context object
+ */
+export function getGithubContext<T extends GithubEventName = GithubEventName>(
+  options?: GithubContextOptions,
+): GithubContext<T> {
+  const env = getEnv(options);
+  const event = readPayload(options) as EventPayloadMap[T] | undefined;
+
+  const envRepo = getGithubRepository(options);
+  const payloadOwner = readString(event, "repository", "owner", "login");
+  const payloadRepo = readString(event, "repository", "name");
+  const repo = envRepo
+    ? { owner: envRepo.owner, repo: envRepo.name }
+    : payloadOwner && payloadRepo
+      ? { owner: payloadOwner, repo: payloadRepo }
+      : undefined;
+
+  const serverUrl = getGithubServerUrl(options) ?? "https://github.com";
+  const runId = getGithubRunId(options);
+
+  const context: GithubContext<T> = {
+    action: getGithubAction(options),
+    actionPath: getGithubActionPath(options),
+    actionRepository: getGithubActionRepository(options),
+    actor: getGithubActor(options),
+    actorId: getGithubActorId(options),
+    triggeringActor: getGithubTriggeringActor(options),
+    baseRef: getGithubBaseRef(options),
+    headRef: getGithubHeadRef(options),
+    eventName: getGithubEventName(options) as T | undefined,
+    eventPath: getGithubEventPath(options),
+    event,
+    job: getGithubJob(options),
+    ref: getGithubRef(options) ?? readString(event, "ref"),
+    refName: getGithubRefName(options),
+    refProtected: isRefProtected(options),
+    refType: getGithubRefType(options),
+    sha:
+      getGithubSha(options) ??
+      readString(event, "after") ??
+      readString(event, "pull_request", "head", "sha"),
+    repository: repo ? `${repo.owner}/${repo.repo}` : undefined,
+    repo,
+    repositoryId: getGithubRepositoryId(options),
+    repositoryOwner: getGithubRepositoryOwner(options) ?? repo?.owner,
+    repositoryOwnerId: getGithubRepositoryOwnerId(options),
+    retentionDays: getGithubRetentionDays(options),
+    runId,
+    runNumber: getGithubRunNumber(options),
+    runAttempt: env["GITHUB_RUN_ATTEMPT"],
+    runUrl:
+      repo && runId
+        ? `${serverUrl}/${repo.owner}/${repo.repo}/actions/runs/${runId}`
+        : undefined,
+    serverUrl,
+    apiUrl: getGithubApiUrl(options) ?? "https://api.github.com",
+    graphqlUrl: getGithubGraphqlUrl(options) ?? "https://api.github.com/graphql",
+    workflow: getGithubWorkflow(options),
+    workflowRef: getGithubWorkflowRef(options),
+    workflowSha: getGithubWorkflowSha(options),
+    workspace: getGithubWorkspace(options),
+    envPath: getGithubEnv(options),
+    outputPath: getGithubOutput(options),
+    pathPath: getGithubPath(options),
+    stepSummaryPath: getGithubStepSummary(options),
+    runner: {
+      name: getRunnerName(options),
+      os: getRunnerOs(options),
+      arch: getRunnerArch(options),
+      environment: getRunnerEnvironment(options),
+      temp: getRunnerTemp(options),
+      toolCache: getRunnerToolCache(options),
+      debug: isRunnerDebug(options) === true,
+    },
+  };
+
+  return deepFreeze(context);
+}
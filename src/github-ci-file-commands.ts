@@ -0,0 +1,354 @@
+/**
+ * GitHub Actions Environment File Helpers
+ * @see {https://docs.github.com/en/actions/reference/workflows-and-actions/workflow-commands#environment-files}
+ */
+
+import { randomUUID } from "node:crypto";
+import {
+  appendFileSync,
+  existsSync,
+  readFileSync,
+  writeFileSync,
+} from "node:fs";
+import { EOL } from "node:os";
+import { delimiter } from "node:path";
+import type { CIDetectionOptions } from "./ci.js";
+import { getEnv } from "./env.js";
+
+/**
+ * Environment variables that point at the runner's per-step command files.
+ */
+export type FileCommandVariable =
+  | "GITHUB_OUTPUT"
+  | "GITHUB_ENV"
+  | "GITHUB_PATH"
+  | "GITHUB_STEP_SUMMARY";
+
+/**
+ * Converts an arbitrary value into the string form the runner expects.
+ *
+ * Strings are passed through, `null`/`undefined` become an empty string and
+ * everything else is JSON encoded.
+ *
+ * @example
+ * ```typescript
+ * toCommandValue("hello"); // "hello"
+ * toCommandValue(42); // "42"
+ * toCommandValue({ a: 1 }); // '{"a":1}'
+ * ```
+ */
+export function toCommandValue(value: unknown): string {
+  if (value === null || value === undefined) {
+    return "";
+  }
+
+  if (typeof value === "string") {
+    return value;
+  }
+
+  return JSON.stringify(value);
+}
+
+/**
+ * Formats a `name=value` pair for `GITHUB_OUTPUT` or `GITHUB_ENV`.
+ *
+ * Single line values use the `name=value` form. Values containing a line break
+ * use the heredoc form with a random delimiter:
+ *
+ * ```text
+ * name<<ghadelimiter_0f6c...
+ * line one
+ * line two
+ * ghadelimiter_0f6c...
+ * ```
+ *
+ * @param name - The output or variable name
+ * @param value - The value to write
+ * @returns The formatted entry, without a trailing line break
+ * @throws Error if the name is empty or contains `=`, `<<` or a line break
+ * @throws Error if the generated delimiter collides with the name or value
+ */
+export function formatKeyValueFileCommand(name: string, value: unknown): string {
+  if (!name) {
+    throw new Error("File command name must not be empty");
+  }
+
+  if (/[\r\n=]/.test(name) || name.includes("<<")) {
+    throw new Error(
+      `File command name "${name}" must not contain "=", "<<" or line breaks`,
+    );
+  }
+
+  const converted = toCommandValue(value);
+
+  if (!/[\r\n]/.test(converted)) {
+    return `${name}=${converted}`;
+  }
+
+  const heredocDelimiter = `ghadelimiter_${randomUUID()}`;
+
+  if (name.includes(heredocDelimiter)) {
+    throw new Error(
+      `Unexpected input: name should not contain the delimiter "${heredocDelimiter}"`,
+    );
+  }
+
+  if (converted.includes(heredocDelimiter)) {
+    throw new Error(
+      `Unexpected input: value should not contain the delimiter "${heredocDelimiter}"`,
+    );
+  }
+
+  return `${name}<<${heredocDelimiter}${EOL}${converted}${EOL}${heredocDelimiter}`;
+}
+
+/**
+ * Parses the contents of a `GITHUB_OUTPUT` or `GITHUB_ENV` file back into
+ * name/value pairs, the inverse of {@link formatKeyValueFileCommand}.
+ *
+ * Later entries replace earlier ones with the same name, as on the runner.
+ *
+ * @example
+ * ```typescript
+ * parseKeyValueFileCommands("version=1.2.3\nnotes<<EOF\nline one\nline two\nEOF\n");
+ * // { version: "1.2.3", notes: "line one\nline two" }
+ * ```
+ *
+ * @param content - The file contents
+ * @returns The entries by name
+ * @throws Error if an entry is malformed or a heredoc is never closed
+ */
+export function parseKeyValueFileCommands(
+  content: string,
+): Record<string, string> {
+  const entries: Record<string, string> = {};
+  const lines = content.split(/\r?\n/);
+
+  for (let i = 0; i < lines.length; i++) {
+    const line = lines[i] ?? "";
+    if (line === "") continue;
+
+    const equalsIndex = line.indexOf("=");
+    const heredocIndex = line.indexOf("<<");
+
+    if (equalsIndex > 0 && (heredocIndex < 0 || equalsIndex < heredocIndex)) {
+      entries[line.slice(0, equalsIndex)] = line.slice(equalsIndex + 1);
+      continue;
+    }
+
+    const name = line.slice(0, heredocIndex);
+    const heredocDelimiter = line.slice(heredocIndex + 2);
+    if (heredocIndex <= 0 || !heredocDelimiter) {
+      throw new Error(`Invalid file command entry on line ${i + 1}: "${line}"`);
+    }
+
+    const end = lines.indexOf(heredocDelimiter, i + 1);
+    if (end < 0) {
+      throw new Error(
+        `Invalid file command entry "${name}": delimiter "${heredocDelimiter}" not found`,
+      );
+    }
+
+    entries[name] = lines.slice(i + 1, end).join("\n");
+    i = end;
+  }
+
+  return entries;
+}
+
+/**
+ * Reads back the entries written to `GITHUB_OUTPUT` or `GITHUB_ENV` during
+ * this step.
+ *
+ * @example
+ * ```typescript
+ * setOutput("version", "1.2.3");
+ * readKeyValueFileCommands("GITHUB_OUTPUT")?.["version"]; // "1.2.3"
+ * ```
+ *
+ * @param variable - Which command file to read
+ * @param options - Optional CI detection options
+ * @returns The entries by name, or `undefined` if the file variable is not set or the file does not exist
+ * @throws Error if the file contains a malformed entry
+ */
+export function readKeyValueFileCommands(
+  variable: "GITHUB_OUTPUT" | "GITHUB_ENV",
+  options?: CIDetectionOptions,
+): Record<string, string> | undefined {
+  const filePath = getEnv(options)[variable];
+
+  if (!filePath || !existsSync(filePath)) {
+    return undefined;
+  }
+
+  return parseKeyValueFileCommands(readFileSync(filePath, "utf8"));
+}
+
+/**
+ * Appends a single entry to one of the runner's command files.
+ *
+ * @param variable - Which command file to write to
+ * @param entry - The entry to append, a line break is added automatically
+ * @param options - Optional CI detection options
+ * @returns `true` if the entry was written, `false` if the file variable is not set
+ */
+export function issueFileCommand(
+  variable: FileCommandVariable,
+  entry: string,
+  options?: CIDetectionOptions,
+): boolean {
+  const env = getEnv(options);
+  const filePath = env[variable];
+
+  if (!filePath) {
+    return false;
+  }
+
+  appendFileSync(filePath, `${entry}${EOL}`, { encoding: "utf8" });
+  return true;
+}
+
+/**
+ * Sets a step output that later steps can read through `steps.<id>.outputs.<name>`.
+ *
+ * Non-string values are JSON encoded. Multiline values are written using the
+ * heredoc delimiter syntax.
+ *
+ * @example
+ * ```typescript
+ * setOutput("version", "1.2.3");
+ * setOutput("changelog", "- fix one\n- fix two");
+ * setOutput("matrix", { os: ["ubuntu-latest", "windows-latest"] });
+ * ```
+ *
+ * @param name - The output name
+ * @param value - The output value
+ * @param options - Optional CI detection options
+ * @returns `true` if the output was written, `false` if `GITHUB_OUTPUT` is not set
+ */
+export function setOutput(
+  name: string,
+  value: unknown,
+  options?: CIDetectionOptions,
+): boolean {
+  return issueFileCommand(
+    "GITHUB_OUTPUT",
+    formatKeyValueFileCommand(name, value),
+    options,
+  );
+}
+
+/**
+ * Exports an environment variable for all later steps in the job.
+ *
+ * The variable is also set on the current environment (`process.env`, or the
+ * `env` override when provided) so the rest of this step sees it too.
+ *
+ * @example
+ * ```typescript
+ * exportVariable("NODE_ENV", "production");
+ * exportVariable("RELEASE_NOTES", "line one\nline two");
+ * ```
+ *
+ * @param name - The variable name
+ * @param value - The variable value
+ * @param options - Optional CI detection options
+ * @returns `true` if the variable was written, `false` if `GITHUB_ENV` is not set
+ */
+export function exportVariable(
+  name: string,
+  value: unknown,
+  options?: CIDetectionOptions,
+): boolean {
+  const entry = formatKeyValueFileCommand(name, value);
+  const env = getEnv(options);
+  env[name] = toCommandValue(value);
+
+  return issueFileCommand("GITHUB_ENV", entry, options);
+}
+
+/**
+ * Prepends a directory to `PATH` for all later steps in the job.
+ *
+ * The directory is also prepended to the `PATH` of the current environment
+ * (`process.env`, or the `env` override when provided).
+ *
+ * @example
+ * ```typescript
+ * addPath("/opt/my-tool/bin");
+ * ```
+ *
+ * @param dir - The directory to add
+ * @param options - Optional CI detection options
+ * @returns `true` if the path was written, `false` if `GITHUB_PATH` is not set
+ * @throws Error if the directory contains a line break
+ */
+export function addPath(dir: string, options?: CIDetectionOptions): boolean {
+  if (/[\r\n]/.test(dir)) {
+    throw new Error("Path entries must not contain line breaks");
+  }
+
+  const env = getEnv(options);
+  const current = env["PATH"];
+  env["PATH"] = current ? `${dir}${delimiter}${current}` : dir;
+
+  return issueFileCommand("GITHUB_PATH", dir, options);
+}
+
+/**
+ * Appends Markdown to the job summary shown on the workflow run page.
+ *
+ * @example
+ * ```typescript
+ * appendStepSummary("## Test Results\n\nAll tests passed");
+ * ```
+ *
+ * @param markdown - The Markdown to append
+ * @param options - Optional CI detection options
+ * @returns `true` if the summary was written, `false` if `GITHUB_STEP_SUMMARY` is not set
+ */
+export function appendStepSummary(
+  markdown: string,
+  options?: CIDetectionOptions,
+): boolean {
+  return issueFileCommand("GITHUB_STEP_SUMMARY", markdown, options);
+}
+
+/**
+ * Replaces everything written to the current step's summary so far.
+ *
+ * @example
+ * ```typescript
+ * overwriteStepSummary("## Deployment\n\nDeployed to production");
+ * ```
+ *
+ * @param markdown - The Markdown to write, an empty string clears the summary
+ * @param options - Optional CI detection options
+ * @returns `true` if the summary was written, `false` if `GITHUB_STEP_SUMMARY` is not set
+ */
+export function overwriteStepSummary(
+  markdown: string,
+  options?: CIDetectionOptions,
+): boolean {
+  const env = getEnv(options);
+  const filePath = env["GITHUB_STEP_SUMMARY"];
+
+  if (!filePath) {
+    return false;
+  }
+
+  writeFileSync(filePath, markdown ? `${markdown}${EOL}` : "", {
+    encoding: "utf8",
+  });
+  return true;
+}
+
+/**
+ * Removes everything written to the current step's summary so far.
+ *
+ * @param options - Optional CI detection options
+ * @returns `true` if the summary was cleared, `false` if `GITHUB_STEP_SUMMARY` is not set
+ */
+export function clearStepSummary(options?: CIDetectionOptions): boolean {
+  return overwriteStepSummary("", options);
+}
@@ -0,0 +1,323 @@
+/**
+ * Readers for action inputs passed through `INPUT_*` environment variables
+ * @see {https://docs.github.com/en/actions/reference/workflows-and-actions/metadata-syntax#inputs}
+ */
+
+import type { CIDetectionOptions } from "./ci.js";
+import { getEnv } from "./env.js";
+
+/**
+ * Options shared by every input reader.
+ */
+export type InputOptions<D = string> = CIDetectionOptions & {
+  /**
+   * Throw an InputError when the input is missing or empty
+   */
+  required?: boolean;
+
+  /**
+   * Trim leading and trailing whitespace from the value (default: true)
+   */
+  trimWhitespace?: boolean;
+
+  /**
+   * Value to use when the input is missing or empty
+   */
+  default?: D;
+};
+
+/**
+ * Options for {@link getNumberInput}.
+ */
+export type NumberInputOptions = InputOptions<number> & {
+  /**
+   * Reject values with a fractional part
+   */
+  integer?: boolean;
+
+  /**
+   * Smallest allowed value, inclusive
+   */
+  min?: number;
+
+  /**
+   * Largest allowed value, inclusive
+   */
+  max?: number;
+};
+
+/**
+ * Options for {@link getEnumInput}.
+ */
+export type EnumInputOptions<T extends string> = InputOptions<T> & {
+  /**
+   * Match the allowed values exactly instead of ignoring case (default: false)
+   */
+  caseSensitive?: boolean;
+};
+
+/**
+ * Thrown when an input is missing or cannot be parsed.
+ */
+export class InputError extends Error {
+  constructor(
+    message: string,
+    public readonly input: string,
+  ) {
+    super(message);
+    this.name = "InputError";
+  }
+}
+
+/**
+ * Values the YAML 1.2 core schema reads as booleans.
+ */
+const TRUE_VALUES = ["true", "True", "TRUE"];
+const FALSE_VALUES = ["false", "False", "FALSE"];
+
+/**
+ * Gets the environment variable the runner uses for an input: spaces become
+ * underscores and the name is upper-cased, e.g. `node version` is read from
+ * `INPUT_NODE_VERSION`. Hyphens are kept as they are.
+ *
+ * @example
+ * ```typescript
+ * getInputEnvName("github-token"); // "INPUT_GITHUB-TOKEN"
+ * ```
+ */
+export function getInputEnvName(name: string): string {
+  return `INPUT_${name.replace(/ /g, "_").toUpperCase()}`;
+}
+
+/**
+ * Reads the raw value of an input, or `undefined` if it is missing or empty.
+ */
+function readInput(
+  name: string,
+  options: InputOptions<unknown>,
+): string | undefined {
+  const { required = false, trimWhitespace = true } = options;
+  const envName = getInputEnvName(name);
+  const raw = getEnv(options)[envName] ?? "";
+  const value = trimWhitespace ? raw.trim() : raw;
+
+  if (value !== "") {
+    return value;
+  }
+
+  if (required && options.default === undefined) {
+    throw new InputError(
+      `Input required and not supplied: ${name} (expected ${envName} to be set)`,
+      name,
+    );
+  }
+
+  return undefined;
+}
+
+/**
+ * Gets the value of an action input.
+ *
+ * @example
+ * ```typescript
+ * const token = getInput("github-token", { required: true });
+ * const label = getInput("label", { default: "automated" });
+ * ```
+ *
+ * @param name - The input name as declared in `action.yml`
+ * @param options - Whether the input is required, trimming and a default
+ * @returns The value, the default, or an empty string if the input is not set
+ * @throws InputError if the input is required and not supplied
+ */
+export function getInput(name: string, options: InputOptions = {}): string {
+  return readInput(name, options) ?? options.default ?? "";
+}
+
+/**
+ * Gets a boolean input following the YAML 1.2 core schema: `true`, `True`,
+ * `TRUE`, `false`, `False` and `FALSE`. Anything else, such as `yes` or `1`,
+ * is rejected.
+ *
+ * @example
+ * ```typescript
+ * const dryRun = getBooleanInput("dry-run", { default: false });
+ * ```
+ *
+ * @param name - The input name as declared in `action.yml`
+ * @param options - Whether the input is required, trimming and a default
+ * @returns The parsed value, the default, or `undefined` if the input is not set
+ * @throws InputError if the input is required and missing, or not a YAML boolean
+ */
+export function getBooleanInput(
+  name: string,
+  options: InputOptions<boolean> = {},
+): boolean | undefined {
+  const value = readInput(name, options);
+  if (value === undefined) return options.default;
+
+  if (TRUE_VALUES.includes(value)) return true;
+  if (FALSE_VALUES.includes(value)) return false;
+
+  throw new InputError(
+    `Input does not meet YAML 1.2 "Core Schema" specification: ${name}\n` +
+      `Support boolean input list: \`true | True | TRUE | false | False | FALSE\``,
+    name,
+  );
+}
+
+/**
+ * Gets an input as a list of lines. Empty lines are dropped.
+ *
+ * @example
+ * ```typescript
+ * // with:
+ * //   files: |
+ * //     dist/index.js
+ * //     dist/index.d.ts
+ * const files = getMultilineInput("files"); // ["dist/index.js", "dist/index.d.ts"]
+ * ```
+ *
+ * @param name - The input name as declared in `action.yml`
+ * @param options - Whether the input is required, trimming of each line and a default
+ * @returns The lines, or an empty array if the input is not set
+ * @throws InputError if the input is required and not supplied
+ */
+export function getMultilineInput(
+  name: string,
+  options: InputOptions<string[]> = {},
+): string[] {
+  const { trimWhitespace = true } = options;
+  const value = readInput(name, options);
+  if (value === undefined) return options.default ?? [];
+
+  return value
+    .split(/\r?\n/)
+    .map((line) => (trimWhitespace ? line.trim() : line))
+    .filter((line) => line !== "");
+}
+
+/**
+ * Gets a numeric input. Accepts anything `Number()` does except blank
+ * strings, `NaN` and infinities.
+ *
+ * @example
+ * ```typescript
+ * const retries = getNumberInput("retries", { integer: true, min: 0, max: 10, default: 3 });
+ * ```
+ *
+ * @param name - The input name as declared in `action.yml`
+ * @param options - Range and integer checks plus the shared input options
+ * @returns The parsed number, the default, or `undefined` if the input is not set
+ * @throws InputError if the input is required and missing, not a number or out of range
+ */
+export function getNumberInput(
+  name: string,
+  options: NumberInputOptions = {},
+): number | undefined {
+  const { integer = false, min, max } = options;
+  const value = readInput(name, options);
+  if (value === undefined) return options.default;
+
+  const parsed = Number(value);
+  if (!Number.isFinite(parsed)) {
+    throw new InputError(
+      `Input ${name} must be a number but got "${value}"`,
+      name,
+    );
+  }
+
+  if (integer && !Number.isInteger(parsed)) {
+    throw new InputError(
+      `Input ${name} must be an integer but got "${value}"`,
+      name,
+    );
+  }
+
+  if (
+    (min !== undefined && parsed < min) ||
+    (max !== undefined && parsed > max)
+  ) {
+    throw new InputError(
+      `Input ${name} must be between ${min ?? "-Infinity"} and ${max ?? "Infinity"} but got ${parsed}`,
+      name,
+    );
+  }
+
+  return parsed;
+}
+
+/**
+ * Gets an input that must be one of a fixed set of values. Matching ignores
+ * case unless `caseSensitive` is set, and the value is returned as spelled in
+ * `values`.
+ *
+ * @example
+ * ```typescript
+ * const level = getEnumInput("log-level", ["debug", "info", "warn"] as const, {
+ *   default: "info",
+ * });
+ * // level: "debug" | "info" | "warn" | undefined
+ * ```
+ *
+ * @param name - The input name as declared in `action.yml`
+ * @param values - The allowed values
+ * @param options - Case sensitivity plus the shared input options
+ * @returns The matching value, the default, or `undefined` if the input is not set
+ * @throws InputError if the input is required and missing, or not an allowed value
+ */
+export function getEnumInput<const T extends string>(
+  name: string,
+  values: readonly T[],
+  options: EnumInputOptions<T> = {},
+): T | undefined {
+  const { caseSensitive = false } = options;
+  const value = readInput(name, options);
+  if (value === undefined) return options.default;
+
+  const match = values.find((candidate) =>
+    caseSensitive
+      ? candidate === value
+      : candidate.toLowerCase() === value.toLowerCase(),
+  );
+
+  if (match === undefined) {
+    throw new InputError(
+      `Input ${name} must be one of ${values.map((v) => `"${v}"`).join(", ")} but got "${value}"`,
+      name,
+    );
+  }
+
+  return match;
+}
+
+/**
+ * Gets an input holding a JSON document.
+ *
+ * The parsed value is not validated; narrow it before relying on its shape.
+ *
+ * @example
+ * ```typescript
+ * const matrix = getJsonInput<{ node: string[] }>("matrix", { required: true });
+ * ```
+ *
+ * @param name - The input name as declared in `action.yml`
+ * @param options - Whether the input is required, trimming and a default
+ * @returns The parsed value, the default, or `undefined` if the input is not set
+ * @throws InputError if the input is required and missing, or not valid JSON
+ */
+export function getJsonInput<T = unknown>(
+  name: string,
+  options: InputOptions<T> = {},
+): T | undefined {
+  const value = readInput(name, options);
+  if (value === undefined) return options.default;
+
+  try {
+    return JSON.parse(value) as T;
+  } catch (error) {
+    throw new InputError(
+      `Input ${name} is not valid JSON: ${error instanceof Error ? error.message : String(error)}`,
+      name,
+    );
+  }
+}
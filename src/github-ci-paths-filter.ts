@@ -0,0 +1,424 @@
+/**
+ * Changed files of the triggering event, matched against named glob filters
+ * @see {https://github.com/dorny/paths-filter}
+ */
+
+import type { CIDetectionOptions } from "./ci.js";
+import {
+  getChangedFiles,
+  type ChangedFile,
+  type ChangedFilesOptions,
+  type ChangedFileStatus,
+  type GitOptions,
+} from "./git.js";
+import { setOutput } from "./github-ci-file-commands.js";
+import { getGithubEventPayloadAuto } from "./github-ci-payloads.js";
+import {
+  getPullRequestContext,
+  type PullRequestContextOptions,
+} from "./github-ci-pull-request.js";
+import { getGithubEventName } from "./github-ci-variables.js";
+import { createGlobMatcher, type GlobOptions } from "./glob.js";
+import { parseYaml } from "./yaml.js";
+
+/**
+ * Options for {@link getChangedFilesRange} and {@link getEventChangedFiles}.
+ */
+export type EventChangedFilesOptions = PullRequestContextOptions &
+  GitOptions & {
+    /**
+     * Detect renames, see {@link ChangedFilesOptions} (default: true)
+     */
+    findRenames?: boolean | number;
+  };
+
+/**
+ * The commits to compare for the triggering event.
+ */
+export type ChangedFilesRange = {
+  base: string;
+  head: string;
+
+  /**
+   * Compare against the merge base, as a pull request diff does
+   */
+  mergeBase: boolean;
+};
+
+/**
+ * Named groups of glob patterns, e.g.
+ * `{ api: ["packages/api/**", "!**\/*.md"], web: "packages/web/**" }`.
+ */
+export type PathFilters = Record<string, string | readonly string[]>;
+
+/**
+ * How one filter matched the changed files.
+ */
+export type PathFilterMatch = {
+  matched: boolean;
+
+  /**
+   * The changed files the filter matched
+   */
+  files: ChangedFile[];
+};
+
+/**
+ * Options for {@link filterChangedFiles}.
+ */
+export type FilterChangedFilesOptions = EventChangedFilesOptions &
+  GlobOptions & {
+    /**
+     * Match these files instead of reading them from git
+     */
+    files?: readonly (string | ChangedFile)[];
+
+    /**
+     * Write the results with {@link setPathFilterOutputs} (default: true)
+     */
+    setOutputs?: boolean;
+  };
+
+/**
+ * The SHA `before` holds when a push created the branch.
+ */
+const NULL_SHA = /^0+$/;
+
+/**
+ * The parts of a push payload that are read here.
+ */
+type PushLike = {
+  before?: unknown;
+  after?: unknown;
+  commits?: unknown;
+};
+
+/**
+ * A commit entry of a push payload.
+ */
+type PushCommitLike = {
+  added?: unknown;
+  modified?: unknown;
+  removed?: unknown;
+};
+
+/**
+ * Narrows an unknown payload value to an object.
+ */
+function asObject<T>(value: unknown): T | undefined {
+  return value && typeof value === "object" ? (value as T) : undefined;
+}
+
+/**
+ * Reads the event payload from the options or `GITHUB_EVENT_PATH`.
+ */
+function readPayload(
+  options?: PullRequestContextOptions,
+): Record<string, unknown> | undefined {
+  return asObject(
+    options?.payload !== undefined
+      ? options.payload
+      : getGithubEventPayloadAuto(options),
+  );
+}
+
+/**
+ * Gets the commits whose difference is the change made by the triggering
+ * event:
+ * - pull request events compare the base and head SHAs from their merge base
+ * - `push` compares `before` with `after`
+ * - `merge_group` compares the group's base and head SHAs
+ *
+ * @param options - CI detection options and payload source
+ * @returns The range, or `undefined` for other events and for pushes that created a branch
+ */
+export function getChangedFilesRange(
+  options?: PullRequestContextOptions,
+): ChangedFilesRange | undefined {
+  const pr = getPullRequestContext(options);
+  if (pr) {
+    return pr.baseSha && pr.headSha
+      ? { base: pr.baseSha, head: pr.headSha, mergeBase: true }
+      : undefined;
+  }
+
+  const payload = readPayload(options);
+  const eventName = getGithubEventName(options);
+
+  if (eventName === "push") {
+    const { before, after } = (payload ?? {}) as PushLike;
+    return typeof before === "string" &&
+      typeof after === "string" &&
+      !NULL_SHA.test(before) &&
+      !NULL_SHA.test(after)
+      ? { base: before, head: after, mergeBase: false }
+      : undefined;
+  }
+
+  if (eventName === "merge_group") {
+    const group = asObject<{ base_sha?: unknown; head_sha?: unknown }>(
+      payload?.["merge_group"],
+    );
+    return typeof group?.base_sha === "string" &&
+      typeof group.head_sha === "string"
+      ? { base: group.base_sha, head: group.head_sha, mergeBase: false }
+      : undefined;
+  }
+
+  return undefined;
+}
+
+/**
+ * Collects the files listed in the commits of a push payload. GitHub lists at
+ * most 20 commits, so this is only used when there is no `before` to diff.
+ */
+function getPushPayloadFiles(payload: PushLike): ChangedFile[] | undefined {
+  if (!Array.isArray(payload.commits)) return undefined;
+
+  const files = new Map<string, ChangedFile>();
+  const record = (paths: unknown, status: ChangedFileStatus) => {
+    if (!Array.isArray(paths)) return;
+
+    for (const path of paths) {
+      if (typeof path !== "string") continue;
+      // A file added earlier in the push stays added when modified later
+      const previous = files.get(path)?.status;
+      files.set(path, {
+        path,
+        previousPath: undefined,
+        status:
+          previous === "added" && status === "modified" ? "added" : status,
+        similarity: undefined,
+      });
+    }
+  };
+
+  for (const commit of payload.commits) {
+    const entry = asObject<PushCommitLike>(commit);
+    record(entry?.added, "added");
+    record(entry?.modified, "modified");
+    record(entry?.removed, "deleted");
+  }
+
+  return [...files.values()];
+}
+
+/**
+ * Lists the files changed by the triggering pull request, push or merge
+ * group.
+ *
+ * The files come from git, so the checkout needs both commits of the range:
+ * use `fetch-depth: 0` (or fetch the base) with `actions/checkout`. A push
+ * that created a branch has nothing to diff against, so the files listed in
+ * its payload commits are used instead.
+ *
+ * @example
+ * ```typescript
+ * const files = await getEventChangedFiles();
+ * if (files.every((file) => file.path.endsWith(".md"))) {
+ *   notice("Only documentation changed, skipping tests");
+ * }
+ * ```
+ *
+ * @param options - Payload source, repository directory and rename detection
+ * @returns The changed files
+ * @throws Error if the event has no changes to compare
+ * @throws CommandError if git fails, e.g. because a commit was not fetched
+ */
+export async function getEventChangedFiles(
+  options: EventChangedFilesOptions = {},
+): Promise<ChangedFile[]> {
+  const range = getChangedFilesRange(options);
+  if (range) {
+    return getChangedFiles(range.base, range.head, {
+      ...options,
+      mergeBase: range.mergeBase,
+    });
+  }
+
+  const files =
+    getGithubEventName(options) === "push"
+      ? getPushPayloadFiles((readPayload(options) ?? {}) as PushLike)
+      : undefined;
+  if (files) return files;
+
+  throw new Error(
+    `Cannot determine changed files for the ${getGithubEventName(options) ?? "unknown"} event`,
+  );
+}
+
+/**
+ * Parses filters written as YAML, the format `dorny/paths-filter` takes in
+ * its `filters` input.
+ *
+ * @example
+ * ```typescript
+ * const filters = parsePathFilters(getInput("filters", { required: true }));
+ * ```
+ *
+ * @param yaml - A mapping of filter names to a pattern or a list of patterns
+ * @returns The filters
+ * @throws YamlParseError if the YAML is invalid
+ * @throws Error if the YAML is not a mapping of patterns
+ */
+export function parsePathFilters(yaml: string): PathFilters {
+  const parsed = parseYaml(yaml);
+  if (!parsed || typeof parsed !== "object" || Array.isArray(parsed)) {
+    throw new Error(
+      "Path filters must be a mapping of filter names to patterns",
+    );
+  }
+
+  const filters: PathFilters = {};
+  for (const [name, value] of Object.entries(parsed)) {
+    const patterns = Array.isArray(value) ? value : [value];
+    if (!patterns.every((pattern) => typeof pattern === "string")) {
+      throw new Error(
+        `Path filter "${name}" must be a pattern or a list of patterns`,
+      );
+    }
+    filters[name] = patterns as string[];
+  }
+
+  return filters;
+}
+
+/**
+ * Matches changed files against named glob filters.
+ *
+ * Each filter's patterns are applied like {@link createGlobMatcher}, so
+ * `!` patterns exclude files. A renamed file matches when either its new or
+ * its previous path does, since it left one place and arrived in another.
+ * Dot files match by default, so `.github/**` works as written.
+ *
+ * @example
+ * ```typescript
+ * const results = matchPathFilters(await getEventChangedFiles(), {
+ *   api: ["packages/api/**", "packages/shared/**", "!**\/*.md"],
+ *   web: "packages/web/**",
+ * });
+ * if (!results["api"]?.matched) {
+ *   notice("No API changes");
+ * }
+ * ```
+ *
+ * @param files - Changed paths or {@link ChangedFile} entries
+ * @param filters - Named groups of patterns
+ * @param options - Dot file and case sensitivity settings
+ * @returns The result for every filter, keyed by filter name
+ */
+export function matchPathFilters(
+  files: readonly (string | ChangedFile)[],
+  filters: PathFilters,
+  options: GlobOptions = {},
+): Record<string, PathFilterMatch> {
+  const globOptions: GlobOptions = { dot: true, ...options };
+  const changed = files.map((file): ChangedFile =>
+    typeof file === "string"
+      ? {
+          path: file,
+          previousPath: undefined,
+          status: "modified",
+          similarity: undefined,
+        }
+      : file,
+  );
+
+  const results: Record<string, PathFilterMatch> = {};
+  for (const [name, patterns] of Object.entries(filters)) {
+    const matches = createGlobMatcher(patterns, globOptions);
+    const matched = changed.filter(
+      (file) =>
+        matches(file.path) ||
+        (file.previousPath !== undefined && matches(file.previousPath)),
+    );
+    results[name] = { matched: matched.length > 0, files: matched };
+  }
+
+  return results;
+}
+
+/**
+ * Writes path filter results as step outputs, with the same names
+ * `dorny/paths-filter` uses:
+ * - `<name>`: `true` or `false`
+ * - `<name>_count`: the number of matched files
+ * - `<name>_files`: the matched paths as a JSON array
+ * - `changes`: the names of the matched filters as a JSON array
+ *
+ * @example
+ * ```yaml
+ * jobs:
+ *   changes:
+ *     outputs:
+ *       packages: ${{ steps.filter.outputs.changes }}
+ *   test:
+ *     needs: changes
+ *     strategy:
+ *       matrix:
+ *         package: ${{ fromJSON(needs.changes.outputs.packages) }}
+ * ```
+ *
+ * @param results - Results from {@link matchPathFilters}
+ * @param options - Optional CI detection options
+ */
+export function setPathFilterOutputs(
+  results: Record<string, PathFilterMatch>,
+  options?: CIDetectionOptions,
+): void {
+  const changes: string[] = [];
+
+  for (const [name, { matched, files }] of Object.entries(results)) {
+    setOutput(name, matched, options);
+    setOutput(`${name}_count`, files.length, options);
+    setOutput(
+      `${name}_files`,
+      files.map((file) => file.path),
+      options,
+    );
+    if (matched) changes.push(name);
+  }
+
+  setOutput("changes", changes, options);
+}
+
+/**
+ * Lists the files changed by the triggering event, matches them against the
+ * filters and writes the results as step outputs.
+ *
+ * @example
+ * ```typescript
+ * // Skip packages whose files did not change
+ * const results = await filterChangedFiles(getInput("filters", { required: true }));
+ * for (const [name, { matched }] of Object.entries(results)) {
+ *   if (matched) await execCommand("npm", ["test", "--workspace", name]);
+ * }
+ * ```
+ *
+ * @param filters - Named groups of patterns, or YAML for {@link parsePathFilters}
+ * @param options - Event, git, glob and output settings
+ * @returns The result for every filter, keyed by filter name
+ * @throws Error if the event has no changes to compare or the filters are invalid
+ * @throws CommandError if git fails
+ */
+export async function filterChangedFiles(
+  filters: PathFilters | string,
+  options: FilterChangedFilesOptions = {},
+): Promise<Record<string, PathFilterMatch>> {
+  const { files, setOutputs = true, dot, caseSensitive } = options;
+  const parsed =
+    typeof filters === "string" ? parsePathFilters(filters) : filters;
+
+  const globOptions: GlobOptions = {};
+  if (dot !== undefined) globOptions.dot = dot;
+  if (caseSensitive !== undefined) globOptions.caseSensitive = caseSensitive;
+
+  const results = matchPathFilters(
+    files ?? (await getEventChangedFiles(options)),
+    parsed,
+    globOptions,
+  );
+
+  if (setOutputs) setPathFilterOutputs(results, options);
+  return results;
+}
@@ -0,0 +1,961 @@
+/**
+ * Factories for realistic webhook payloads, for testing code that reads the
+ * event payload
+ */
+
+import type {
+  Commit,
+  IssueCommentCreatedEvent,
+  IssuesOpenedEvent,
+  MergeGroupChecksRequestedEvent,
+  PullRequestOpenedEvent,
+  PushEvent,
+  Reactions,
+  ReleasePublishedEvent,
+  Repository,
+  RepositoryLite,
+  User,
+  WorkflowDispatchEvent,
+  WorkflowRunCompletedEvent,
+} from "@octokit/webhooks-types";
+
+/**
+ * Makes every property optional, recursively. Arrays are replaced as a
+ * whole rather than merged.
+ */
+export type DeepPartial<T> = T extends readonly unknown[]
+  ? T
+  : T extends object
+    ? { [K in keyof T]?: DeepPartial<T[K]> }
+    : T;
+
+/**
+ * The payload of a `schedule` run, which has no webhook definition.
+ */
+export type SchedulePayload = {
+  /**
+   * The cron expression that triggered the run
+   */
+  schedule: string;
+
+  /**
+   * Path of the workflow file
+   */
+  workflow: string;
+
+  repository: Repository;
+  sender: User;
+};
+
+/**
+ * The payload each fixture event produces.
+ */
+export type PayloadFixtureMap = {
+  push: PushEvent;
+  pull_request: PullRequestOpenedEvent;
+  issues: IssuesOpenedEvent;
+  issue_comment: IssueCommentCreatedEvent;
+  release: ReleasePublishedEvent;
+  workflow_dispatch: WorkflowDispatchEvent;
+  schedule: SchedulePayload;
+  workflow_run: WorkflowRunCompletedEvent;
+  merge_group: MergeGroupChecksRequestedEvent;
+};
+
+/**
+ * Events with a payload factory.
+ */
+export type PayloadFixtureEventName = keyof PayloadFixtureMap;
+
+/**
+ * Values that appear in several places of a payload. Set them here rather
+ * than through overrides so every copy stays consistent.
+ */
+export type PayloadFixtureOptions = {
+  /**
+   * `owner/name` (default: `octo-org/octo-repo`)
+   */
+  repository?: string;
+
+  /**
+   * Login of the user that triggered the event (default: `octocat`)
+   */
+  sender?: string;
+
+  /**
+   * The head commit: `after` of a push, the pull request head, the merge
+   * group head
+   */
+  sha?: string;
+
+  /**
+   * The parent commit: `before` of a push, the pull request and merge group base
+   */
+  baseSha?: string;
+
+  /**
+   * The repository's default branch, also the push and pull request base (default: `main`)
+   */
+  defaultBranch?: string;
+
+  /**
+   * The pull request head branch (default: `feature`)
+   */
+  headRef?: string;
+
+  /**
+   * The pull request or issue number (default: 1)
+   */
+  number?: number;
+
+  /**
+   * The release tag (default: `v1.0.0`)
+   */
+  tag?: string;
+
+  /**
+   * Make the `issue_comment` issue a pull request (default: false)
+   */
+  pullRequest?: boolean;
+};
+
+/**
+ * A factory for one event's payload.
+ */
+type PayloadFactory<T> = (
+  overrides?: DeepPartial<T>,
+  options?: PayloadFixtureOptions,
+) => T;
+
+/**
+ * Resolved {@link PayloadFixtureOptions} plus derived values.
+ */
+type FixtureContext = Required<
+  Omit<PayloadFixtureOptions, "pullRequest" | "repository">
+> & {
+  owner: string;
+  name: string;
+  apiUrl: string;
+  htmlUrl: string;
+  user: User;
+  repository: Repository;
+};
+
+/**
+ * Timestamp used throughout, so fixtures are deterministic.
+ */
+const TIMESTAMP = "2024-01-02T03:04:05Z";
+
+/**
+ * Derives a stable numeric id from a name, so the same login or repository
+ * always gets the same id.
+ */
+function stableId(text: string): number {
+  let hash = 2166136261;
+  for (let i = 0; i < text.length; i++) {
+    hash = Math.imul(hash ^ text.charCodeAt(i), 16777619);
+  }
+  return (hash >>> 0) % 100_000_000;
+}
+
+/**
+ * Derives a stable 40 character SHA from a seed.
+ */
+function stableSha(seed: string): string {
+  let sha = "";
+  for (let i = 0; sha.length < 40; i++) {
+    sha += stableId(`${seed}:${i}`).toString(16).padStart(8, "0");
+  }
+  return sha.slice(0, 40);
+}
+
+/**
+ * Checks for a plain object, as opposed to arrays and class instances.
+ */
+function isPlainObject(value: unknown): value is Record<string, unknown> {
+  return (
+    typeof value === "object" &&
+    value !== null &&
+    Object.getPrototypeOf(value) === Object.prototype
+  );
+}
+
+/**
+ * Merges overrides into a payload: objects recursively, anything else
+ * (arrays included) replaced. `undefined` overrides are ignored.
+ */
+function mergeDeep<T>(base: T, overrides: DeepPartial<T> | undefined): T {
+  if (!isPlainObject(base) || !isPlainObject(overrides)) {
+    return overrides === undefined ? base : (overrides as T);
+  }
+
+  const merged: Record<string, unknown> = { ...base };
+  for (const [key, value] of Object.entries(overrides)) {
+    if (value === undefined) continue;
+    merged[key] = mergeDeep(merged[key], value);
+  }
+  return merged as T;
+}
+
+/**
+ * Builds a user.
+ */
+function createUser(login: string): User {
+  const url = `https://api.github.com/users/${login}`;
+  const id = stableId(`user:${login}`);
+  return {
+    login,
+    id,
+    node_id: `U_${id}`,
+    avatar_url: `https://avatars.githubusercontent.com/u/${id}?v=4`,
+    gravatar_id: "",
+    url,
+    html_url: `https://github.com/${login}`,
+    followers_url: `${url}/followers`,
+    following_url: `${url}/following{/other_user}`,
+    gists_url: `${url}/gists{/gist_id}`,
+    starred_url: `${url}/starred{/owner}{/repo}`,
+    subscriptions_url: `${url}/subscriptions`,
+    organizations_url: `${url}/orgs`,
+    repos_url: `${url}/repos`,
+    events_url: `${url}/events{/privacy}`,
+    received_events_url: `${url}/received_events`,
+    type: login.endsWith("[bot]") ? "Bot" : "User",
+    site_admin: false,
+  };
+}
+
+/**
+ * Builds the fields a full repository shares with a lite one.
+ */
+function createRepositoryLite(fullName: string, owner: User): RepositoryLite {
+  const [, name = fullName] = fullName.split("/");
+  const url = `https://api.github.com/repos/${fullName}`;
+  const id = stableId(`repo:${fullName}`);
+  return {
+    id,
+    node_id: `R_${id}`,
+    name,
+    full_name: fullName,
+    private: false,
+    owner,
+    html_url: `https://github.com/${fullName}`,
+    description: null,
+    fork: false,
+    url,
+    forks_url: `${url}/forks`,
+    keys_url: `${url}/keys{/key_id}`,
+    collaborators_url: `${url}/collaborators{/collaborator}`,
+    teams_url: `${url}/teams`,
+    hooks_url: `${url}/hooks`,
+    issue_events_url: `${url}/issues/events{/number}`,
+    events_url: `${url}/events`,
+    assignees_url: `${url}/assignees{/user}`,
+    branches_url: `${url}/branches{/branch}`,
+    tags_url: `${url}/tags`,
+    blobs_url: `${url}/git/blobs{/sha}`,
+    git_tags_url: `${url}/git/tags{/sha}`,
+    git_refs_url: `${url}/git/refs{/sha}`,
+    trees_url: `${url}/git/trees{/sha}`,
+    statuses_url: `${url}/statuses/{sha}`,
+    languages_url: `${url}/languages`,
+    stargazers_url: `${url}/stargazers`,
+    contributors_url: `${url}/contributors`,
+    subscribers_url: `${url}/subscribers`,
+    subscription_url: `${url}/subscription`,
+    commits_url: `${url}/commits{/sha}`,
+    git_commits_url: `${url}/git/commits{/sha}`,
+    comments_url: `${url}/comments{/number}`,
+    issue_comment_url: `${url}/issues/comments{/number}`,
+    contents_url: `${url}/contents/{+path}`,
+    compare_url: `${url}/compare/{base}...{head}`,
+    merges_url: `${url}/merges`,
+    archive_url: `${url}/{archive_format}{/ref}`,
+    downloads_url: `${url}/downloads`,
+    issues_url: `${url}/issues{/number}`,
+    pulls_url: `${url}/pulls{/number}`,
+    milestones_url: `${url}/milestones{/number}`,
+    notifications_url: `${url}/notifications{?since,all,participating}`,
+    labels_url: `${url}/labels{/name}`,
+    releases_url: `${url}/releases{/id}`,
+    deployments_url: `${url}/deployments`,
+  };
+}
+
+/**
+ * Builds a full repository.
+ */
+function createRepository(
+  fullName: string,
+  owner: User,
+  defaultBranch: string,
+): Repository {
+  return {
+    ...createRepositoryLite(fullName, owner),
+    created_at: TIMESTAMP,
+    updated_at: TIMESTAMP,
+    pushed_at: TIMESTAMP,
+    git_url: `git://github.com/${fullName}.git`,
+    ssh_url: `git@github.com:${fullName}.git`,
+    clone_url: `https://github.com/${fullName}.git`,
+    svn_url: `https://github.com/${fullName}`,
+    homepage: null,
+    size: 128,
+    stargazers_count: 0,
+    watchers_count: 0,
+    language: "TypeScript",
+    has_issues: true,
+    has_projects: true,
+    has_downloads: true,
+    has_wiki: true,
+    has_pages: false,
+    has_discussions: false,
+    forks_count: 0,
+    mirror_url: null,
+    archived: false,
+    disabled: false,
+    open_issues_count: 1,
+    license: null,
+    forks: 0,
+    open_issues: 1,
+    watchers: 0,
+    default_branch: defaultBranch,
+    is_template: false,
+    web_commit_signoff_required: false,
+    topics: [],
+    visibility: "public",
+    custom_properties: {},
+  };
+}
+
+/**
+ * Resolves the options into the values the factories share.
+ */
+function createContext(options: PayloadFixtureOptions = {}): FixtureContext {
+  const fullName = options.repository ?? "octo-org/octo-repo";
+  const [owner = fullName, name = fullName] = fullName.split("/");
+  const sender = options.sender ?? "octocat";
+  const defaultBranch = options.defaultBranch ?? "main";
+
+  return {
+    repository: createRepository(fullName, createUser(owner), defaultBranch),
+    sender,
+    sha: options.sha ?? stableSha(`head:${fullName}`),
+    baseSha: options.baseSha ?? stableSha(`base:${fullName}`),
+    defaultBranch,
+    headRef: options.headRef ?? "feature",
+    number: options.number ?? 1,
+    tag: options.tag ?? "v1.0.0",
+    owner,
+    name,
+    apiUrl: `https://api.github.com/repos/${fullName}`,
+    htmlUrl: `https://github.com/${fullName}`,
+    user: createUser(sender),
+  };
+}
+
+/**
+ * Builds empty reactions.
+ */
+function createReactions(url: string): Reactions {
+  return {
+    url: `${url}/reactions`,
+    total_count: 0,
+    "+1": 0,
+    "-1": 0,
+    laugh: 0,
+    hooray: 0,
+    confused: 0,
+    heart: 0,
+    rocket: 0,
+    eyes: 0,
+  };
+}
+
+/**
+ * Builds a pushed commit.
+ */
+function createCommit(context: FixtureContext, sha: string): Commit {
+  const person = {
+    name: context.sender,
+    email: `${context.user.id}+${context.sender}@users.noreply.github.com`,
+    username: context.sender,
+  };
+  return {
+    id: sha,
+    tree_id: stableSha(`tree:${sha}`),
+    distinct: true,
+    message: "Update README.md",
+    timestamp: TIMESTAMP,
+    url: `${context.htmlUrl}/commit/${sha}`,
+    author: person,
+    committer: person,
+    added: [],
+    modified: ["README.md"],
+    removed: [],
+  };
+}
+
+/**
+ * Creates a `push` payload for a single commit pushed to the default branch.
+ *
+ * @example
+ * ```typescript
+ * const payload = createPushPayload(
+ *   { commits: [] },
+ *   { sha: "a".repeat(40), defaultBranch: "trunk" },
+ * );
+ * payload.ref; // "refs/heads/trunk"
+ * ```
+ *
+ * @param overrides - Values to replace, merged deeply
+ * @param options - Repository, sender, SHAs and branch
+ * @returns The payload
+ */
+export function createPushPayload(
+  overrides?: DeepPartial<PushEvent>,
+  options?: PayloadFixtureOptions,
+): PushEvent {
+  const context = createContext(options);
+  const commit = createCommit(context, context.sha);
+
+  return mergeDeep<PushEvent>(
+    {
+      ref: `refs/heads/${context.defaultBranch}`,
+      before: context.baseSha,
+      after: context.sha,
+      created: false,
+      deleted: false,
+      forced: false,
+      base_ref: null,
+      compare: `${context.htmlUrl}/compare/${context.baseSha.slice(0, 12)}...${context.sha.slice(0, 12)}`,
+      commits: [commit],
+      head_commit: structuredClone(commit),
+      repository: context.repository,
+      pusher: { name: context.sender, email: commit.author.email },
+      sender: context.user,
+    },
+    overrides,
+  );
+}
+
+/**
+ * Creates an `opened` `pull_request` payload from `headRef` into the default
+ * branch of the same repository.
+ *
+ * @example
+ * ```typescript
+ * // A pull request from a fork
+ * const payload = createPullRequestPayload({
+ *   pull_request: { head: { repo: { full_name: "someone/octo-repo", fork: true } } },
+ * });
+ * ```
+ *
+ * @param overrides - Values to replace, merged deeply
+ * @param options - Repository, sender, SHAs, branches and number
+ * @returns The payload
+ */
+export function createPullRequestPayload(
+  overrides?: DeepPartial<PullRequestOpenedEvent>,
+  options?: PayloadFixtureOptions,
+): PullRequestOpenedEvent {
+  const context = createContext(options);
+  const { number, repository, user } = context;
+  const url = `${context.apiUrl}/pulls/${number}`;
+  const htmlUrl = `${context.htmlUrl}/pull/${number}`;
+  const issueUrl = `${context.apiUrl}/issues/${number}`;
+  const statusesUrl = `${context.apiUrl}/statuses/${context.sha}`;
+  const id = stableId(`pull:${repository.full_name}#${number}`);
+
+  return mergeDeep<PullRequestOpenedEvent>(
+    {
+      action: "opened",
+      number,
+      pull_request: {
+        url,
+        id,
+        node_id: `PR_${id}`,
+        html_url: htmlUrl,
+        diff_url: `${htmlUrl}.diff`,
+        patch_url: `${htmlUrl}.patch`,
+        issue_url: issueUrl,
+        number,
+        state: "open",
+        locked: false,
+        title: "Update README.md",
+        user,
+        body: null,
+        created_at: TIMESTAMP,
+        updated_at: TIMESTAMP,
+        closed_at: null,
+        merged_at: null,
+        merge_commit_sha: null,
+        assignee: null,
+        assignees: [],
+        requested_reviewers: [],
+        requested_teams: [],
+        labels: [],
+        milestone: null,
+        commits_url: `${url}/commits`,
+        review_comments_url: `${url}/comments`,
+        review_comment_url: `${context.apiUrl}/pulls/comments{/number}`,
+        comments_url: `${issueUrl}/comments`,
+        statuses_url: statusesUrl,
+        // Copies, so changing one side's repository leaves the others alone
+        head: {
+          label: `${context.owner}:${context.headRef}`,
+          ref: context.headRef,
+          sha: context.sha,
+          user: structuredClone(repository.owner),
+          repo: structuredClone(repository),
+        },
+        base: {
+          label: `${context.owner}:${context.defaultBranch}`,
+          ref: context.defaultBranch,
+          sha: context.baseSha,
+          user: structuredClone(repository.owner),
+          repo: structuredClone(repository),
+        },
+        _links: {
+          self: { href: url },
+          html: { href: htmlUrl },
+          issue: { href: issueUrl },
+          comments: { href: `${issueUrl}/comments` },
+          review_comments: { href: `${url}/comments` },
+          review_comment: {
+            href: `${context.apiUrl}/pulls/comments{/number}`,
+          },
+          commits: { href: `${url}/commits` },
+          statuses: { href: statusesUrl },
+        },
+        author_association: "CONTRIBUTOR",
+        auto_merge: null,
+        active_lock_reason: null,
+        draft: false,
+        merged: false,
+        mergeable: null,
+        rebaseable: null,
+        mergeable_state: "unknown",
+        merged_by: null,
+        comments: 0,
+        review_comments: 0,
+        maintainer_can_modify: false,
+        commits: 1,
+        additions: 1,
+        deletions: 0,
+        changed_files: 1,
+      },
+      repository,
+      sender: user,
+    },
+    overrides,
+  );
+}
+
+/**
+ * Builds an open issue, or the issue side of a pull request.
+ */
+function createIssue(context: FixtureContext, pullRequest: boolean) {
+  const { number } = context;
+  const url = `${context.apiUrl}/issues/${number}`;
+  const htmlUrl = `${context.htmlUrl}/${pullRequest ? "pull" : "issues"}/${number}`;
+  const id = stableId(`issue:${context.repository.full_name}#${number}`);
+
+  return {
+    url,
+    repository_url: context.apiUrl,
+    labels_url: `${url}/labels{/name}`,
+    comments_url: `${url}/comments`,
+    events_url: `${url}/events`,
+    html_url: htmlUrl,
+    id,
+    node_id: `I_${id}`,
+    number,
+    title: "Something is broken",
+    user: context.user,
+    labels: [],
+    state: "open" as const,
+    locked: false,
+    assignee: null,
+    assignees: [],
+    milestone: null,
+    comments: 0,
+    created_at: TIMESTAMP,
+    updated_at: TIMESTAMP,
+    closed_at: null,
+    author_association: "CONTRIBUTOR" as const,
+    active_lock_reason: null,
+    body: null,
+    reactions: createReactions(url),
+    timeline_url: `${url}/timeline`,
+    performed_via_github_app: null,
+    state_reason: null,
+    ...(pullRequest && {
+      draft: false,
+      pull_request: {
+        url: `${context.apiUrl}/pulls/${number}`,
+        html_url: htmlUrl,
+        diff_url: `${htmlUrl}.diff`,
+        patch_url: `${htmlUrl}.patch`,
+        merged_at: null,
+      },
+    }),
+  };
+}
+
+/**
+ * Creates an `opened` `issues` payload.
+ *
+ * @param overrides - Values to replace, merged deeply
+ * @param options - Repository, sender and number
+ * @returns The payload
+ */
+export function createIssuesPayload(
+  overrides?: DeepPartial<IssuesOpenedEvent>,
+  options?: PayloadFixtureOptions,
+): IssuesOpenedEvent {
+  const context = createContext(options);
+
+  return mergeDeep<IssuesOpenedEvent>(
+    {
+      action: "opened",
+      issue: createIssue(context, false),
+      repository: context.repository,
+      sender: context.user,
+    },
+    overrides,
+  );
+}
+
+/**
+ * Creates a `created` `issue_comment` payload, on a pull request when
+ * `options.pullRequest` is set.
+ *
+ * @example
+ * ```typescript
+ * const payload = createIssueCommentPayload(
+ *   { comment: { body: "/deploy staging" } },
+ *   { pullRequest: true, number: 42 },
+ * );
+ * ```
+ *
+ * @param overrides - Values to replace, merged deeply
+ * @param options - Repository, sender, number and whether the issue is a pull request
+ * @returns The payload
+ */
+export function createIssueCommentPayload(
+  overrides?: DeepPartial<IssueCommentCreatedEvent>,
+  options?: PayloadFixtureOptions,
+): IssueCommentCreatedEvent {
+  const context = createContext(options);
+  const issue = createIssue(context, options?.pullRequest ?? false);
+  const id = stableId(`comment:${issue.url}`);
+  const url = `${context.apiUrl}/issues/comments/${id}`;
+
+  return mergeDeep<IssueCommentCreatedEvent>(
+    {
+      action: "created",
+      issue,
+      comment: {
+        url,
+        html_url: `${issue.html_url}#issuecomment-${id}`,
+        issue_url: issue.url,
+        id,
+        node_id: `IC_${id}`,
+        user: context.user,
+        created_at: TIMESTAMP,
+        updated_at: TIMESTAMP,
+        author_association: "CONTRIBUTOR",
+        body: "Looks good to me",
+        reactions: createReactions(url),
+        performed_via_github_app: null,
+      },
+      repository: context.repository,
+      sender: context.user,
+    },
+    overrides,
+  );
+}
+
+/**
+ * Creates a `published` `release` payload for `options.tag`.
+ *
+ * @param overrides - Values to replace, merged deeply
+ * @param options - Repository, sender, tag and default branch
+ * @returns The payload
+ */
+export function createReleasePayload(
+  overrides?: DeepPartial<ReleasePublishedEvent>,
+  options?: PayloadFixtureOptions,
+): ReleasePublishedEvent {
+  const context = createContext(options);
+  const id = stableId(`release:${context.repository.full_name}@${context.tag}`);
+  const url = `${context.apiUrl}/releases/${id}`;
+
+  return mergeDeep<ReleasePublishedEvent>(
+    {
+      action: "published",
+      release: {
+        url,
+        assets_url: `${url}/assets`,
+        upload_url: `https://uploads.github.com/repos/${context.repository.full_name}/releases/${id}/assets{?name,label}`,
+        html_url: `${context.htmlUrl}/releases/tag/${context.tag}`,
+        id,
+        node_id: `RE_${id}`,
+        tag_name: context.tag,
+        target_commitish: context.defaultBranch,
+        name: context.tag,
+        draft: false,
+        author: context.user,
+        prerelease: false,
+        created_at: TIMESTAMP,
+        published_at: TIMESTAMP,
+        assets: [],
+        tarball_url: `${context.apiUrl}/tarball/${context.tag}`,
+        zipball_url: `${context.apiUrl}/zipball/${context.tag}`,
+        body: "",
+      },
+      repository: context.repository,
+      sender: context.user,
+    },
+    overrides,
+  );
+}
+
+/**
+ * Creates a `workflow_dispatch` payload on the default branch.
+ *
+ * @example
+ * ```typescript
+ * const payload = createWorkflowDispatchPayload({ inputs: { environment: "staging" } });
+ * ```
+ *
+ * @param overrides - Values to replace, merged deeply
+ * @param options - Repository, sender and default branch
+ * @returns The payload
+ */
+export function createWorkflowDispatchPayload(
+  overrides?: DeepPartial<WorkflowDispatchEvent>,
+  options?: PayloadFixtureOptions,
+): WorkflowDispatchEvent {
+  const context = createContext(options);
+
+  return mergeDeep<WorkflowDispatchEvent>(
+    {
+      inputs: {},
+      ref: `refs/heads/${context.defaultBranch}`,
+      repository: context.repository,
+      sender: context.user,
+      workflow: ".github/workflows/ci.yml",
+    },
+    overrides,
+  );
+}
+
+/**
+ * Creates a `schedule` payload for a daily cron.
+ *
+ * @param overrides - Values to replace, merged deeply
+ * @param options - Repository and sender
+ * @returns The payload
+ */
+export function createSchedulePayload(
+  overrides?: DeepPartial<SchedulePayload>,
+  options?: PayloadFixtureOptions,
+): SchedulePayload {
+  const context = createContext(options);
+
+  return mergeDeep<SchedulePayload>(
+    {
+      schedule: "0 0 * * *",
+      workflow: ".github/workflows/ci.yml",
+      repository: context.repository,
+      sender: context.user,
+    },
+    overrides,
+  );
+}
+
+/**
+ * Creates a `completed` `workflow_run` payload for a successful `push` run
+ * of the `CI` workflow on the default branch.
+ *
+ * @example
+ * ```typescript
+ * const payload = createWorkflowRunPayload({ workflow_run: { conclusion: "failure" } });
+ * ```
+ *
+ * @param overrides - Values to replace, merged deeply
+ * @param options - Repository, sender, head SHA and default branch
+ * @returns The payload
+ */
+export function createWorkflowRunPayload(
+  overrides?: DeepPartial<WorkflowRunCompletedEvent>,
+  options?: PayloadFixtureOptions,
+): WorkflowRunCompletedEvent {
+  const context = createContext(options);
+  const { repository, user } = context;
+  const workflowId = stableId(`workflow:${repository.full_name}`);
+  const runId = stableId(`run:${repository.full_name}:${context.sha}`);
+  const checkSuiteId = stableId(`check-suite:${runId}`);
+  const url = `${context.apiUrl}/actions/runs/${runId}`;
+  const workflowUrl = `${context.apiUrl}/actions/workflows/${workflowId}`;
+  const path = ".github/workflows/ci.yml";
+  const commit = createCommit(context, context.sha);
+  const lite = createRepositoryLite(repository.full_name, repository.owner);
+
+  return mergeDeep<WorkflowRunCompletedEvent>(
+    {
+      action: "completed",
+      repository,
+      sender: user,
+      workflow: {
+        badge_url: `${context.htmlUrl}/workflows/CI/badge.svg`,
+        created_at: TIMESTAMP,
+        html_url: `${context.htmlUrl}/blob/${context.defaultBranch}/${path}`,
+        id: workflowId,
+        name: "CI",
+        node_id: `W_${workflowId}`,
+        path,
+        state: "active",
+        updated_at: TIMESTAMP,
+        url: workflowUrl,
+      },
+      workflow_run: {
+        artifacts_url: `${url}/artifacts`,
+        cancel_url: `${url}/cancel`,
+        check_suite_url: `${context.apiUrl}/check-suites/${checkSuiteId}`,
+        check_suite_id: checkSuiteId,
+        check_suite_node_id: `CS_${checkSuiteId}`,
+        conclusion: "success",
+        created_at: TIMESTAMP,
+        event: "push",
+        head_branch: context.defaultBranch,
+        head_commit: {
+          id: commit.id,
+          tree_id: commit.tree_id,
+          message: commit.message,
+          timestamp: commit.timestamp,
+          author: commit.author,
+          committer: commit.committer,
+        },
+        head_repository: lite,
+        head_sha: context.sha,
+        path,
+        display_title: commit.message,
+        html_url: `${context.htmlUrl}/actions/runs/${runId}`,
+        id: runId,
+        jobs_url: `${url}/jobs`,
+        logs_url: `${url}/logs`,
+        node_id: `WFR_${runId}`,
+        name: "CI",
+        pull_requests: [],
+        repository: structuredClone(lite),
+        rerun_url: `${url}/rerun`,
+        run_number: 1,
+        status: "completed",
+        updated_at: TIMESTAMP,
+        url,
+        workflow_id: workflowId,
+        workflow_url: workflowUrl,
+        run_attempt: 1,
+        run_started_at: TIMESTAMP,
+        previous_attempt_url: null,
+        actor: user,
+        triggering_actor: user,
+      },
+    },
+    overrides,
+  );
+}
+
+/**
+ * Creates a `checks_requested` `merge_group` payload for pull request
+ * `options.number` queued into the default branch.
+ *
+ * @param overrides - Values to replace, merged deeply
+ * @param options - Repository, sender, SHAs, default branch and number
+ * @returns The payload
+ */
+export function createMergeGroupPayload(
+  overrides?: DeepPartial<MergeGroupChecksRequestedEvent>,
+  options?: PayloadFixtureOptions,
+): MergeGroupChecksRequestedEvent {
+  const context = createContext(options);
+  const commit = createCommit(context, context.sha);
+
+  return mergeDeep<MergeGroupChecksRequestedEvent>(
+    {
+      action: "checks_requested",
+      merge_group: {
+        head_sha: context.sha,
+        head_ref: `refs/heads/gh-readonly-queue/${context.defaultBranch}/pr-${context.number}-${context.baseSha}`,
+        base_ref: `refs/heads/${context.defaultBranch}`,
+        base_sha: context.baseSha,
+        head_commit: {
+          id: commit.id,
+          tree_id: commit.tree_id,
+          message: `Merge pull request #${context.number}`,
+          timestamp: commit.timestamp,
+          author: { name: context.sender, email: commit.author.email ?? "" },
+          committer: { name: "GitHub", email: "noreply@github.com" },
+        },
+      },
+      repository: context.repository,
+      sender: context.user,
+    },
+    overrides,
+  );
+}
+
+/**
+ * Factories by event name.
+ */
+const PAYLOAD_FACTORIES: {
+  [E in PayloadFixtureEventName]: PayloadFactory<PayloadFixtureMap[E]>;
+} = {
+  push: createPushPayload,
+  pull_request: createPullRequestPayload,
+  issues: createIssuesPayload,
+  issue_comment: createIssueCommentPayload,
+  release: createReleasePayload,
+  workflow_dispatch: createWorkflowDispatchPayload,
+  schedule: createSchedulePayload,
+  workflow_run: createWorkflowRunPayload,
+  merge_group: createMergeGroupPayload,
+};
+
+/**
+ * Creates a payload for any event with a factory. Pair it with the `env`
+ * and `source` options to test payload readers without a file on disk.
+ *
+ * @example
+ * ```typescript
+ * const payload = createEventPayload("pull_request", { pull_request: { draft: true } });
+ * const pr = getPullRequestContext({ env: { GITHUB_EVENT_NAME: "pull_request" }, payload });
+ * assert.equal(pr?.draft, true);
+ * ```
+ *
+ * @example
+ * ```typescript
+ * const sandbox = createGithubActionsSandbox({
+ *   event: "push",
+ *   payload: createEventPayload("push", {}, { sha: "a".repeat(40) }),
+ * });
+ * ```
+ *
+ * @param event - The event name
+ * @param overrides - Values to replace, merged deeply
+ * @param options - Values shared across the payload
+ * @returns The payload
+ */
+export function createEventPayload<E extends PayloadFixtureEventName>(
+  event: E,
+  overrides?: DeepPartial<PayloadFixtureMap[E]>,
+  options?: PayloadFixtureOptions,
+): PayloadFixtureMap[E] {
+  const factory = PAYLOAD_FACTORIES[event] as PayloadFactory<
+    PayloadFixtureMap[E]
+  >;
+  return factory(overrides, options);
+}
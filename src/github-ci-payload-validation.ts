@@ -0,0 +1,283 @@
+/**
+ * Runtime structural checks for GitHub event payloads
+ * @see {https://docs.github.com/en/webhooks/webhook-events-and-payloads}
+ */
+
+import type { GithubEventName } from "./github-ci-payloads.js";
+
+/**
+ * A single problem found while validating a payload.
+ */
+export type PayloadValidationIssue = {
+  /**
+   * Dotted path of the offending field, e.g. `pull_request.head.sha`
+   */
+  path: string;
+
+  /**
+   * The type that was expected at the path
+   */
+  expected: PayloadFieldType;
+
+  /**
+   * The type that was found, `"undefined"` when the field is missing
+   */
+  received: string;
+
+  /**
+   * Human readable description of the problem
+   */
+  message: string;
+};
+
+/**
+ * Field types that can be required of a payload.
+ */
+export type PayloadFieldType =
+  | "string"
+  | "number"
+  | "boolean"
+  | "object"
+  | "array";
+
+/**
+ * A required field and its type. Nullable fields may also be `null`.
+ */
+type FieldRule = [path: string, type: PayloadFieldType, nullable?: boolean];
+
+/**
+ * Fields shared by events that carry a repository and sender.
+ */
+const REPOSITORY_FIELDS: FieldRule[] = [
+  ["repository", "object"],
+  ["repository.full_name", "string"],
+  ["sender", "object"],
+];
+
+/**
+ * Fields every pull request object must have to be useful.
+ */
+const PULL_REQUEST_FIELDS: FieldRule[] = [
+  ["pull_request", "object"],
+  ["pull_request.number", "number"],
+  ["pull_request.head", "object"],
+  ["pull_request.head.sha", "string"],
+  ["pull_request.head.ref", "string"],
+  ["pull_request.base", "object"],
+  ["pull_request.base.sha", "string"],
+  ["pull_request.base.ref", "string"],
+];
+
+/**
+ * Required fields per event. Events that are not listed only need to be an object.
+ */
+const EVENT_RULES: Partial<Record<GithubEventName, FieldRule[]>> = {
+  push: [
+    ["ref", "string"],
+    ["before", "string"],
+    ["after", "string"],
+    ["commits", "array"],
+    ["pusher", "object"],
+    ...REPOSITORY_FIELDS,
+  ],
+  pull_request: [
+    ["action", "string"],
+    ["number", "number"],
+    ...PULL_REQUEST_FIELDS,
+    ...REPOSITORY_FIELDS,
+  ],
+  pull_request_review: [
+    ["action", "string"],
+    ["review", "object"],
+    ...PULL_REQUEST_FIELDS,
+    ...REPOSITORY_FIELDS,
+  ],
+  pull_request_review_comment: [
+    ["action", "string"],
+    ["comment", "object"],
+    ...PULL_REQUEST_FIELDS,
+    ...REPOSITORY_FIELDS,
+  ],
+  pull_request_review_thread: [
+    ["action", "string"],
+    ["thread", "object"],
+    ...PULL_REQUEST_FIELDS,
+    ...REPOSITORY_FIELDS,
+  ],
+  issues: [
+    ["action", "string"],
+    ["issue", "object"],
+    ["issue.number", "number"],
+    ...REPOSITORY_FIELDS,
+  ],
+  issue_comment: [
+    ["action", "string"],
+    ["issue", "object"],
+    ["issue.number", "number"],
+    ["comment", "object"],
+    ["comment.id", "number"],
+    ...REPOSITORY_FIELDS,
+  ],
+  release: [
+    ["action", "string"],
+    ["release", "object"],
+    ["release.tag_name", "string"],
+    ...REPOSITORY_FIELDS,
+  ],
+  create: [
+    ["ref", "string"],
+    ["ref_type", "string"],
+    ...REPOSITORY_FIELDS,
+  ],
+  delete: [
+    ["ref", "string"],
+    ["ref_type", "string"],
+    ...REPOSITORY_FIELDS,
+  ],
+  workflow_dispatch: [
+    ["ref", "string"],
+    ["workflow", "string"],
+    ["inputs", "object", true],
+    ...REPOSITORY_FIELDS,
+  ],
+  workflow_run: [
+    ["action", "string"],
+    ["workflow_run", "object"],
+    ["workflow_run.id", "number"],
+    ["workflow_run.head_sha", "string"],
+    ...REPOSITORY_FIELDS,
+  ],
+  workflow_job: [
+    ["action", "string"],
+    ["workflow_job", "object"],
+    ["workflow_job.id", "number"],
+    ...REPOSITORY_FIELDS,
+  ],
+  merge_group: [
+    ["action", "string"],
+    ["merge_group", "object"],
+    ["merge_group.head_sha", "string"],
+    ["merge_group.base_sha", "string"],
+    ["merge_group.head_ref", "string"],
+    ...REPOSITORY_FIELDS,
+  ],
+  check_run: [
+    ["action", "string"],
+    ["check_run", "object"],
+    ["check_run.id", "number"],
+    ...REPOSITORY_FIELDS,
+  ],
+  check_suite: [
+    ["action", "string"],
+    ["check_suite", "object"],
+    ["check_suite.id", "number"],
+    ...REPOSITORY_FIELDS,
+  ],
+  deployment: [
+    ["action", "string"],
+    ["deployment", "object"],
+    ["deployment.id", "number"],
+    ...REPOSITORY_FIELDS,
+  ],
+  deployment_status: [
+    ["action", "string"],
+    ["deployment_status", "object"],
+    ["deployment_status.state", "string"],
+    ...REPOSITORY_FIELDS,
+  ],
+  discussion: [
+    ["action", "string"],
+    ["discussion", "object"],
+    ...REPOSITORY_FIELDS,
+  ],
+  discussion_comment: [
+    ["action", "string"],
+    ["discussion", "object"],
+    ["comment", "object"],
+    ...REPOSITORY_FIELDS,
+  ],
+  repository_dispatch: [
+    ["action", "string"],
+    ["client_payload", "object", true],
+    ...REPOSITORY_FIELDS,
+  ],
+};
+
+/**
+ * Describes the runtime type of a value the same way {@link PayloadFieldType} does.
+ */
+function describeType(value: unknown): string {
+  if (value === null) return "null";
+  if (Array.isArray(value)) return "array";
+  return typeof value;
+}
+
+/**
+ * Reads a dotted path from an unknown value.
+ */
+function readPath(value: unknown, path: string): unknown {
+  let current = value;
+
+  for (const key of path.split(".")) {
+    if (!current || typeof current !== "object") return undefined;
+    current = (current as Record<string, unknown>)[key];
+  }
+
+  return current;
+}
+
+/**
+ * Checks that a payload has the fields the given event requires.
+ *
+ * Only the fields scripts commonly rely on are checked, so a payload that
+ * passes is not guaranteed to match the full webhook schema.
+ *
+ * @example
+ * ```typescript
+ * const issues = validateEventPayload("pull_request", pushPayload);
+ * // [{ path: "action", expected: "string", received: "undefined", ... }, ...]
+ * ```
+ *
+ * @param eventName - The event the payload should belong to
+ * @param payload - The parsed payload
+ * @returns Every problem found, or an empty array if the payload is valid
+ */
+export function validateEventPayload(
+  eventName: GithubEventName,
+  payload: unknown,
+): PayloadValidationIssue[] {
+  const rootType = describeType(payload);
+  if (rootType !== "object") {
+    return [
+      {
+        path: "",
+        expected: "object",
+        received: rootType,
+        message: `Expected the ${eventName} payload to be an object but got ${rootType}`,
+      },
+    ];
+  }
+
+  const issues: PayloadValidationIssue[] = [];
+
+  for (const [path, expected, nullable] of EVENT_RULES[eventName] ?? []) {
+    const value = readPath(payload, path);
+    const received = describeType(value);
+
+    if (received === expected || (nullable && value === null)) {
+      continue;
+    }
+
+    issues.push({
+      path,
+      expected,
+      received,
+      message:
+        value === undefined
+          ? `Missing required field "${path}" for ${eventName} event`
+          : `Expected "${path}" to be ${expected} but got ${received}`,
+    });
+  }
+
+  return issues;
+}
@@ -1,5 +1,12 @@
 import { readFileSync } from "fs";
+import { readFile } from "fs/promises";
+import { resolve } from "path";
 import type { EventPayloadMap } from "@octokit/webhooks-types";
+import type { CIDetectionOptions } from "./ci.js";
+import {
+  validateEventPayload,
+  type PayloadValidationIssue,
+} from "./github-ci-payload-validation.js";
 import {
   getGithubEventName,
   getGithubEventPath,
@@ -10,6 +17,265 @@ import {
  */
 export type GithubEventName = keyof EventPayloadMap;
 
+/**
+ * Reads the raw payload text for a given path.
+ */
+export type PayloadReader = (path: string) => string;
+
+/**
+ * Reads the raw payload text for a given path, possibly asynchronously.
+ */
+export type AsyncPayloadReader = (path: string) => string | Promise<string>;
+
+/**
+ * Where to load the event payload from:
+ * - a file path, used instead of `GITHUB_EVENT_PATH`
+ * - a reader function, called with `GITHUB_EVENT_PATH` instead of `readFileSync`
+ * - an already parsed payload object
+ */
+export type PayloadSource<R = PayloadReader> = string | R | object;
+
+/**
+ * Options for the synchronous payload readers.
+ */
+export type PayloadOptions = CIDetectionOptions & {
+  /**
+   * Load the payload from somewhere other than `GITHUB_EVENT_PATH` on disk
+   */
+  source?: PayloadSource;
+
+  /**
+   * Reuse payloads already parsed from the same file path (default: `true`)
+   */
+  cache?: boolean;
+
+  /**
+   * Check that the payload belongs to the requested event and has the fields
+   * that event requires (default: `false`)
+   */
+  validate?: boolean;
+};
+
+/**
+ * Options for the asynchronous payload readers.
+ */
+export type AsyncPayloadOptions = CIDetectionOptions & {
+  /**
+   * Load the payload from somewhere other than `GITHUB_EVENT_PATH` on disk
+   */
+  source?: PayloadSource<AsyncPayloadReader>;
+
+  /**
+   * Reuse payloads already parsed from the same file path (default: `true`)
+   */
+  cache?: boolean;
+
+  /**
+   * Check that the payload belongs to the requested event and has the fields
+   * that event requires (default: `false`)
+   */
+  validate?: boolean;
+};
+
+/**
+ * Why a payload could not be returned.
+ */
+export type PayloadErrorCode =
+  | "event-path-not-set"
+  | "event-name-not-set"
+  | "read-failed"
+  | "event-mismatch"
+  | "invalid-payload";
+
+/**
+ * Failure half of {@link PayloadResult}.
+ */
+export type PayloadFailure = {
+  success: false;
+
+  /**
+   * Human readable summary of the failure
+   */
+  error: string;
+
+  /**
+   * Machine readable failure reason
+   */
+  code: PayloadErrorCode;
+
+  /**
+   * Field level problems when `code` is `invalid-payload`, otherwise empty
+   */
+  issues: PayloadValidationIssue[];
+};
+
+/**
+ * Result of loading a payload, following the Result pattern.
+ */
+export type PayloadResult<T> = { success: true; data: T } | PayloadFailure;
+
+/**
+ * Parsed payloads keyed by absolute file path. Callers get clones, so one
+ * caller changing its payload does not change what the next one reads.
+ */
+const payloadCache = new Map<string, unknown>();
+
+/**
+ * Forgets every memoised payload so the next read goes back to disk.
+ *
+ * @example
+ * ```typescript
+ * writeFileSync(eventPath, JSON.stringify(nextPayload));
+ * clearGithubEventPayloadCache();
+ * const payload = getGithubEventPayload<"push">();
+ * ```
+ */
+export function clearGithubEventPayloadCache(): void {
+  payloadCache.clear();
+}
+
+/**
+ * Resolves which file path should be read, or returns an error result.
+ */
+function resolvePayloadPath(
+  source: unknown,
+  options?: CIDetectionOptions,
+): PayloadResult<string> {
+  const path = typeof source === "string" ? source : getGithubEventPath(options);
+  if (!path) {
+    return payloadFailure("event-path-not-set", "GITHUB_EVENT_PATH not set");
+  }
+
+  return { success: true, data: path };
+}
+
+/**
+ * Builds a failed result.
+ */
+function payloadFailure(
+  code: PayloadErrorCode,
+  error: string,
+  issues: PayloadValidationIssue[] = [],
+): PayloadFailure {
+  return { success: false, error, code, issues };
+}
+
+/**
+ * Wraps an unknown thrown value into an error result.
+ */
+function toPayloadError(error: unknown): PayloadFailure {
+  return payloadFailure(
+    "read-failed",
+    error instanceof Error ? error.message : "Unknown error reading payload",
+  );
+}
+
+/**
+ * Applies the optional validation step to a loaded payload.
+ */
+function checkPayload<T extends GithubEventName>(
+  eventName: T,
+  result: PayloadResult<unknown>,
+  options?: PayloadOptions | AsyncPayloadOptions,
+): PayloadResult<EventPayloadMap[T]> {
+  if (!result.success || !options?.validate) {
+    return result as PayloadResult<EventPayloadMap[T]>;
+  }
+
+  const actualEventName = getGithubEventName(options);
+  if (actualEventName && actualEventName !== eventName) {
+    return payloadFailure(
+      "event-mismatch",
+      `Expected a ${eventName} event but the workflow was triggered by ${actualEventName}`,
+    );
+  }
+
+  const issues = validateEventPayload(eventName, result.data);
+  if (issues.length > 0) {
+    return payloadFailure(
+      "invalid-payload",
+      `Invalid ${eventName} payload: ${issues.map((issue) => issue.message).join("; ")}`,
+      issues,
+    );
+  }
+
+  return result as PayloadResult<EventPayloadMap[T]>;
+}
+
+/**
+ * Loads and parses the payload synchronously.
+ */
+function loadPayload(options?: PayloadOptions): PayloadResult<unknown> {
+  const source = options?.source;
+
+  if (source !== undefined && typeof source === "object") {
+    return { success: true, data: source };
+  }
+
+  const path = resolvePayloadPath(source, options);
+  if (!path.success) return path;
+
+  if (typeof source === "function") {
+    try {
+      return { success: true, data: JSON.parse(source(path.data)) };
+    } catch (error) {
+      return toPayloadError(error);
+    }
+  }
+
+  const useCache = options?.cache ?? true;
+  const key = resolve(path.data);
+  if (useCache && payloadCache.has(key)) {
+    return { success: true, data: structuredClone(payloadCache.get(key)) };
+  }
+
+  try {
+    const payload: unknown = JSON.parse(readFileSync(key, "utf-8"));
+    if (useCache) payloadCache.set(key, structuredClone(payload));
+    return { success: true, data: payload };
+  } catch (error) {
+    return toPayloadError(error);
+  }
+}
+
+/**
+ * Loads and parses the payload asynchronously.
+ */
+async function loadPayloadAsync(
+  options?: AsyncPayloadOptions,
+): Promise<PayloadResult<unknown>> {
+  const source = options?.source;
+
+  if (source !== undefined && typeof source === "object") {
+    return { success: true, data: source };
+  }
+
+  const path = resolvePayloadPath(source, options);
+  if (!path.success) return path;
+
+  if (typeof source === "function") {
+    try {
+      return { success: true, data: JSON.parse(await source(path.data)) };
+    } catch (error) {
+      return toPayloadError(error);
+    }
+  }
+
+  const useCache = options?.cache ?? true;
+  const key = resolve(path.data);
+  if (useCache && payloadCache.has(key)) {
+    return { success: true, data: structuredClone(payloadCache.get(key)) };
+  }
+
+  try {
+    const payload: unknown = JSON.parse(await readFile(key, "utf-8"));
+    if (useCache) payloadCache.set(key, structuredClone(payload));
+    return { success: true, data: payload };
+  } catch (error) {
+    return toPayloadError(error);
+  }
+}
+
 /**
  * Type guard to check if the event name matches a specific event type.
  *
@@ -81,32 +347,51 @@ export function isEventType<T extends GithubEventName>(
  * }
  * ```
  *
+ * @example
+ * ```typescript
+ * // Read from a fake environment or an in-memory payload in tests
+ * const payload = getGithubEventPayload("push", {
+ *   env: { GITHUB_EVENT_NAME: "push", GITHUB_EVENT_PATH: "/tmp/event.json" },
+ * });
+ * const fromObject = getGithubEventPayload("push", { source: { ref: "refs/heads/main" } });
+ * ```
+ *
+ * Payloads read from disk are memoised per path, so repeated calls do not
+ * re-read the file. Each call gets its own copy; pass `cache: false` or call
+ * {@link clearGithubEventPayloadCache} to re-read.
+ *
  * @param eventName - Optional event name override (defaults to GITHUB_EVENT_NAME env var)
+ * @param options - Optional CI detection options and payload source
  * @returns The typed event payload, or undefined if not in GitHub Actions, file not found, or parse error
  */
 export function getGithubEventPayload<T extends GithubEventName>(
   eventName?: T,
+  options?: PayloadOptions,
 ): EventPayloadMap[T] | undefined {
-  const path = getGithubEventPath();
-
-  if (!path) {
-    return undefined;
-  }
-
-  // If no event name provided, try to get from env
-  const actualEventName = eventName ?? getGithubEventName();
-  if (!actualEventName) {
-    return undefined;
-  }
+  const result = getGithubEventPayloadSafe(eventName, options);
+  return result.success ? result.data : undefined;
+}
 
-  try {
-    const content = readFileSync(path, "utf-8");
-    const payload = JSON.parse(content) as EventPayloadMap[T];
-    return payload;
-  } catch (error) {
-    // File not found or invalid JSON
-    return undefined;
-  }
+/**
+ * Async version of {@link getGithubEventPayload}.
+ *
+ * @example
+ * ```typescript
+ * const payload = await getGithubEventPayloadAsync("push", {
+ *   source: (path) => fs.promises.readFile(path, "utf-8"),
+ * });
+ * ```
+ *
+ * @param eventName - Optional event name override (defaults to GITHUB_EVENT_NAME env var)
+ * @param options - Optional CI detection options and payload source
+ * @returns The typed event payload, or undefined if not in GitHub Actions, file not found, or parse error
+ */
+export async function getGithubEventPayloadAsync<T extends GithubEventName>(
+  eventName?: T,
+  options?: AsyncPayloadOptions,
+): Promise<EventPayloadMap[T] | undefined> {
+  const result = await getGithubEventPayloadSafeAsync(eventName, options);
+  return result.success ? result.data : undefined;
 }
 
 /**
@@ -127,13 +412,25 @@ export function getGithubEventPayload<T extends GithubEventName>(
  * }
  * ```
  */
-export function getGithubEventPayloadAuto():
-  | EventPayloadMap[GithubEventName]
-  | undefined {
-  const eventName = getGithubEventName();
+export function getGithubEventPayloadAuto(
+  options?: PayloadOptions,
+): EventPayloadMap[GithubEventName] | undefined {
+  const eventName = getGithubEventName(options);
   if (!eventName) return undefined;
 
-  return getGithubEventPayload(eventName);
+  return getGithubEventPayload(eventName, options);
+}
+
+/**
+ * Async version of {@link getGithubEventPayloadAuto}.
+ */
+export async function getGithubEventPayloadAutoAsync(
+  options?: AsyncPayloadOptions,
+): Promise<EventPayloadMap[GithubEventName] | undefined> {
+  const eventName = getGithubEventName(options);
+  if (!eventName) return undefined;
+
+  return getGithubEventPayloadAsync(eventName, options);
 }
 
 /**
@@ -150,39 +447,71 @@ export function getGithubEventPayloadAuto():
  *   console.error("Failed to load payload:", result.error);
  * }
  * ```
+ *
+ * @example
+ * ```typescript
+ * // Reject payloads from a different event or with missing fields
+ * const result = getGithubEventPayloadSafe("pull_request", { validate: true });
+ * if (!result.success && result.code === "event-mismatch") {
+ *   console.log("Not a pull request run, skipping");
+ * } else if (!result.success) {
+ *   for (const issue of result.issues) {
+ *     console.error(`${issue.path}: ${issue.message}`);
+ *   }
+ * }
+ * ```
  */
 export function getGithubEventPayloadSafe<T extends GithubEventName>(
   eventName?: T,
-):
-  | { success: true; data: EventPayloadMap[T] }
-  | { success: false; error: string } {
-  const path = getGithubEventPath();
-  const actualEventName = eventName ?? getGithubEventName();
+  options?: PayloadOptions,
+): PayloadResult<EventPayloadMap[T]> {
+  const actualEventName = eventName ?? getGithubEventName(options);
 
-  if (!path) {
-    return { success: false, error: "GITHUB_EVENT_PATH not set" };
+  if (!actualEventName) {
+    return payloadFailure(
+      "event-name-not-set",
+      "GITHUB_EVENT_NAME not set and no eventName provided",
+    );
   }
 
+  return checkPayload(
+    actualEventName,
+    loadPayload(options),
+    options,
+  ) as PayloadResult<EventPayloadMap[T]>;
+}
+
+/**
+ * Async version of {@link getGithubEventPayloadSafe}.
+ *
+ * @example
+ * ```typescript
+ * const result = await getGithubEventPayloadSafeAsync<"pull_request">();
+ * if (!result.success) {
+ *   console.error("Failed to load payload:", result.error);
+ * }
+ * ```
+ */
+export async function getGithubEventPayloadSafeAsync<
+  T extends GithubEventName,
+>(
+  eventName?: T,
+  options?: AsyncPayloadOptions,
+): Promise<PayloadResult<EventPayloadMap[T]>> {
+  const actualEventName = eventName ?? getGithubEventName(options);
+
   if (!actualEventName) {
-    return {
-      success: false,
-      error: "GITHUB_EVENT_NAME not set and no eventName provided",
-    };
+    return payloadFailure(
+      "event-name-not-set",
+      "GITHUB_EVENT_NAME not set and no eventName provided",
+    );
   }
 
-  try {
-    const content = readFileSync(path, "utf-8");
-    const payload = JSON.parse(content) as EventPayloadMap[T];
-    return { success: true, data: payload };
-  } catch (error) {
-    return {
-      success: false,
-      error:
-        error instanceof Error
-          ? error.message
-          : "Unknown error reading payload",
-    };
-  }
+  return checkPayload(
+    actualEventName,
+    await loadPayloadAsync(options),
+    options,
+  ) as PayloadResult<EventPayloadMap[T]>;
 }
 
 /**
@@ -197,8 +526,11 @@ export function getGithubEventPayloadSafe<T extends GithubEventName>(
  * // payload is PullRequestEvent | undefined
  * ```
  */
-export function createPayloadGetter<T extends GithubEventName>(eventName: T) {
+export function createPayloadGetter<T extends GithubEventName>(
+  eventName: T,
+  options?: PayloadOptions,
+) {
   return function (): EventPayloadMap[T] | undefined {
-    return getGithubEventPayload(eventName);
+    return getGithubEventPayload(eventName, options);
   };
 }
@@ -0,0 +1,363 @@
+/**
+ * Pull request details for workflows triggered by pull request events
+ * @see {https://docs.github.com/en/actions/reference/workflows-and-actions/events-that-trigger-workflows#pull_request}
+ */
+
+import {
+  getGithubEventPayloadAuto,
+  type PayloadOptions,
+} from "./github-ci-payloads.js";
+import {
+  getGithubActor,
+  getGithubBaseRef,
+  getGithubEventName,
+  getGithubHeadRef,
+} from "./github-ci-variables.js";
+import {
+  GithubRestClient,
+  type GithubRestClientOptions,
+} from "./github-rest.js";
+
+/**
+ * Events {@link getPullRequestContext} understands.
+ */
+export type PullRequestEventName =
+  | "pull_request"
+  | "pull_request_target"
+  | "pull_request_review"
+  | "pull_request_review_comment"
+  | "issue_comment";
+
+/**
+ * The base or head repository of a pull request.
+ */
+export type PullRequestRepo = {
+  readonly owner: string;
+  readonly name: string;
+
+  /**
+   * `owner/name`
+   */
+  readonly fullName: string;
+
+  readonly cloneUrl: string | undefined;
+};
+
+/**
+ * Details of the pull request that triggered the workflow.
+ *
+ * Comment events (`issue_comment`) only carry part of the pull request, so
+ * refs, SHAs, repositories and fork state are `undefined` there. Use
+ * {@link fetchPullRequestContext} to fill them in from the API.
+ */
+export type PullRequestContext = {
+  readonly eventName: PullRequestEventName;
+  readonly action: string | undefined;
+  readonly number: number;
+  readonly title: string | undefined;
+  readonly url: string | undefined;
+  readonly author: string | undefined;
+
+  /**
+   * The author's relationship to the repository, e.g. `OWNER`, `MEMBER`,
+   * `CONTRIBUTOR` or `FIRST_TIME_CONTRIBUTOR`
+   */
+  readonly authorAssociation: string | undefined;
+
+  readonly draft: boolean | undefined;
+  readonly labels: readonly string[];
+  readonly baseRef: string | undefined;
+  readonly headRef: string | undefined;
+  readonly baseSha: string | undefined;
+  readonly headSha: string | undefined;
+  readonly baseRepo: PullRequestRepo | undefined;
+
+  /**
+   * `undefined` when the head repository was deleted
+   */
+  readonly headRepo: PullRequestRepo | undefined;
+
+  /**
+   * Whether the head branch lives in a different repository than the base.
+   * A deleted head repository counts as a fork.
+   */
+  readonly isFork: boolean | undefined;
+
+  /**
+   * Whether repository secrets are passed to this run. They are withheld
+   * from pull request and review runs for forks and for Dependabot, but
+   * `pull_request_target` and `issue_comment` run in the base repository.
+   */
+  readonly secretsAvailable: boolean | undefined;
+
+  /**
+   * The test merge commit ref, `refs/pull/<number>/merge`
+   */
+  readonly mergeRef: string;
+
+  /**
+   * The head ref GitHub keeps in the base repository, `refs/pull/<number>/head`
+   */
+  readonly headPullRef: string;
+};
+
+/**
+ * Options for {@link getPullRequestContext}.
+ */
+export type PullRequestContextOptions = PayloadOptions & {
+  /**
+   * Use this payload instead of reading `GITHUB_EVENT_PATH`
+   */
+  payload?: unknown;
+};
+
+/**
+ * The parts of a webhook pull request object that are read here.
+ */
+type PullRequestLike = {
+  number?: unknown;
+  title?: unknown;
+  html_url?: unknown;
+  draft?: unknown;
+  user?: { login?: unknown } | null;
+  author_association?: unknown;
+  labels?: unknown;
+  base?: BranchLike;
+  head?: BranchLike;
+};
+
+/**
+ * The `base` or `head` of a webhook pull request.
+ */
+type BranchLike = {
+  ref?: unknown;
+  sha?: unknown;
+  repo?: RepoLike | null;
+};
+
+/**
+ * The parts of a webhook repository object that are read here.
+ */
+type RepoLike = {
+  name?: unknown;
+  full_name?: unknown;
+  clone_url?: unknown;
+  owner?: { login?: unknown } | null;
+};
+
+/**
+ * Runtime list of {@link PullRequestEventName}.
+ */
+const PULL_REQUEST_EVENTS: readonly string[] = [
+  "pull_request",
+  "pull_request_target",
+  "pull_request_review",
+  "pull_request_review_comment",
+  "issue_comment",
+];
+
+/**
+ * Narrows an unknown payload value to a string.
+ */
+function asString(value: unknown): string | undefined {
+  return typeof value === "string" ? value : undefined;
+}
+
+/**
+ * Narrows an unknown payload value to an object.
+ */
+function asObject<T>(value: unknown): T | undefined {
+  return value && typeof value === "object" ? (value as T) : undefined;
+}
+
+/**
+ * Converts a webhook repository object.
+ */
+function toRepo(
+  repo: RepoLike | null | undefined,
+): PullRequestRepo | undefined {
+  const fullName = asString(repo?.full_name);
+  if (!fullName) return undefined;
+
+  const [owner = "", name = ""] = fullName.split("/");
+  return {
+    owner: asString(repo?.owner?.login) ?? owner,
+    name: asString(repo?.name) ?? name,
+    fullName,
+    cloneUrl: asString(repo?.clone_url),
+  };
+}
+
+/**
+ * Reads label names from a webhook label array.
+ */
+function toLabels(labels: unknown): string[] {
+  if (!Array.isArray(labels)) return [];
+
+  return labels.flatMap((label: unknown) => {
+    const name = asString(asObject<{ name?: unknown }>(label)?.name);
+    return name ? [name] : [];
+  });
+}
+
+/**
+ * Builds the context from a full pull request object.
+ */
+function fromPullRequest(
+  eventName: PullRequestEventName,
+  action: string | undefined,
+  pr: PullRequestLike,
+  number: number,
+  options?: PullRequestContextOptions,
+): PullRequestContext {
+  const baseRepo = toRepo(pr.base?.repo);
+  const headRepo = toRepo(pr.head?.repo);
+  const isFork = baseRepo
+    ? !headRepo || headRepo.fullName !== baseRepo.fullName
+    : undefined;
+
+  return {
+    eventName,
+    action,
+    number,
+    title: asString(pr.title),
+    url: asString(pr.html_url),
+    author: asString(pr.user?.login),
+    authorAssociation: asString(pr.author_association),
+    draft: typeof pr.draft === "boolean" ? pr.draft : undefined,
+    labels: toLabels(pr.labels),
+    baseRef: asString(pr.base?.ref) ?? getGithubBaseRef(options),
+    headRef: asString(pr.head?.ref) ?? getGithubHeadRef(options),
+    baseSha: asString(pr.base?.sha),
+    headSha: asString(pr.head?.sha),
+    baseRepo,
+    headRepo,
+    isFork,
+    secretsAvailable:
+      eventName === "pull_request_target" || eventName === "issue_comment"
+        ? true
+        : isFork === undefined
+          ? undefined
+          : !isFork && getGithubActor(options) !== "dependabot[bot]",
+    mergeRef: `refs/pull/${number}/merge`,
+    headPullRef: `refs/pull/${number}/head`,
+  };
+}
+
+/**
+ * Gets details of the pull request that triggered the workflow.
+ *
+ * Works for `pull_request`, `pull_request_target`, `pull_request_review`,
+ * `pull_request_review_comment` and `issue_comment` events on pull requests.
+ *
+ * @example
+ * ```typescript
+ * const pr = getPullRequestContext();
+ * if (pr?.isFork) {
+ *   notice(`PR #${pr.number} comes from ${pr.headRepo?.fullName ?? "a deleted fork"}, skipping deploy preview`);
+ * }
+ * ```
+ *
+ * @example
+ * ```typescript
+ * // Check out the test merge commit
+ * const pr = getPullRequestContext();
+ * if (pr) {
+ *   await execCommand("git", ["fetch", "origin", `+${pr.mergeRef}:pr-merge`]);
+ * }
+ * ```
+ *
+ * @param options - Optional CI detection options and payload source
+ * @returns The pull request details, or `undefined` if the event is not about a pull request
+ */
+export function getPullRequestContext(
+  options?: PullRequestContextOptions,
+): PullRequestContext | undefined {
+  const eventName: string | undefined = getGithubEventName(options);
+  if (!eventName || !PULL_REQUEST_EVENTS.includes(eventName)) {
+    return undefined;
+  }
+
+  const payload = asObject<Record<string, unknown>>(
+    options?.payload !== undefined
+      ? options.payload
+      : getGithubEventPayloadAuto(options),
+  );
+  if (!payload) return undefined;
+
+  const name = eventName as PullRequestEventName;
+  const action = asString(payload["action"]);
+
+  if (name === "issue_comment") {
+    const issue = asObject<PullRequestLike & { pull_request?: unknown }>(
+      payload["issue"],
+    );
+    if (!issue?.pull_request || typeof issue.number !== "number") {
+      return undefined;
+    }
+
+    // The issue only has the conversation side of the pull request
+    const context = fromPullRequest(name, action, issue, issue.number, options);
+    return {
+      ...context,
+      baseRef: undefined,
+      headRef: undefined,
+      secretsAvailable: true,
+    };
+  }
+
+  const pr = asObject<PullRequestLike>(payload["pull_request"]);
+  const number =
+    typeof pr?.number === "number"
+      ? pr.number
+      : typeof payload["number"] === "number"
+        ? payload["number"]
+        : undefined;
+  if (!pr || number === undefined) return undefined;
+
+  return fromPullRequest(name, action, pr, number, options);
+}
+
+/**
+ * Like {@link getPullRequestContext}, but fetches the pull request from the
+ * REST API when the payload lacks refs and SHAs, as with `issue_comment`.
+ *
+ * @example
+ * ```typescript
+ * // on: issue_comment
+ * const pr = await fetchPullRequestContext();
+ * if (pr && pr.isFork === false) {
+ *   await execCommand("git", ["checkout", pr.headSha!]);
+ * }
+ * ```
+ *
+ * @param options - Payload source plus REST client options
+ * @returns The pull request details, or `undefined` if the event is not about a pull request
+ * @throws GithubApiError if the pull request cannot be fetched
+ */
+export async function fetchPullRequestContext(
+  options?: PullRequestContextOptions & GithubRestClientOptions,
+): Promise<PullRequestContext | undefined> {
+  const context = getPullRequestContext(options);
+  if (!context || context.headSha !== undefined) return context;
+
+  const client = new GithubRestClient(options);
+  const { data } = await client.request<PullRequestLike>(
+    "GET /repos/{owner}/{repo}/pulls/{pull_number}",
+    { params: { pull_number: context.number } },
+  );
+
+  const fetched = fromPullRequest(
+    context.eventName,
+    context.action,
+    data,
+    context.number,
+    options,
+  );
+
+  return {
+    ...fetched,
+    authorAssociation: context.authorAssociation ?? fetched.authorAssociation,
+    secretsAvailable: context.secretsAvailable,
+  };
+}
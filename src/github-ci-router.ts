@@ -0,0 +1,212 @@
+/**
+ * Event dispatch router for scripts that serve several workflow triggers
+ */
+
+import type { EventPayloadMap } from "@octokit/webhooks-types";
+import {
+  getGithubEventPayloadSafe,
+  type GithubEventName,
+  type PayloadOptions,
+} from "./github-ci-payloads.js";
+import { getGithubEventName } from "./github-ci-variables.js";
+import { safeRun, type SafeRunOptions } from "./safe-run.js";
+
+/**
+ * The `action` values an event can carry, or `never` for events without one.
+ */
+export type GithubEventAction<E extends GithubEventName> =
+  EventPayloadMap[E] extends infer P
+    ? P extends { action: infer A extends string }
+      ? A
+      : never
+    : never;
+
+/**
+ * An event name, optionally filtered by action, e.g. `pull_request.opened`.
+ */
+export type EventPattern = {
+  [E in GithubEventName]: E | `${E}.${GithubEventAction<E>}`;
+}[GithubEventName];
+
+/**
+ * The payload type a handler registered for a pattern receives.
+ */
+export type EventPatternPayload<P extends EventPattern> =
+  P extends GithubEventName
+    ? EventPayloadMap[P]
+    : P extends `${infer E extends GithubEventName}.${infer A}`
+      ? Extract<EventPayloadMap[E], { action: A }>
+      : never;
+
+/**
+ * Information about the event being dispatched.
+ */
+export type EventRouterContext = {
+  /**
+   * The event that triggered the workflow
+   */
+  eventName: GithubEventName;
+
+  /**
+   * The payload's `action`, if it has one
+   */
+  action: string | undefined;
+
+  /**
+   * Aborts when the surrounding run times out or is cancelled
+   */
+  signal: AbortSignal | undefined;
+};
+
+/**
+ * Handler for a registered event pattern.
+ */
+export type EventHandler<P extends EventPattern> = (
+  payload: EventPatternPayload<P>,
+  context: EventRouterContext,
+) => void | Promise<void>;
+
+/**
+ * Handler that runs when no registered pattern matches.
+ */
+export type FallbackEventHandler = (
+  payload: unknown,
+  context: EventRouterContext,
+) => void | Promise<void>;
+
+/**
+ * Options for {@link EventRouter.run}.
+ */
+export type EventRouterRunOptions = SafeRunOptions & PayloadOptions;
+
+/**
+ * A registered route.
+ */
+type Route = {
+  eventName: string;
+  action: string | undefined;
+  handler: (payload: unknown, context: EventRouterContext) => void | Promise<void>;
+};
+
+/**
+ * Routes the current workflow event to the handlers registered for it.
+ *
+ * Handlers run one after another in registration order. Every handler whose
+ * pattern matches is run; the fallback only runs when none match.
+ *
+ * @example
+ * ```typescript
+ * await createEventRouter()
+ *   .on("pull_request.opened", async (payload) => {
+ *     console.log(`New PR #${payload.pull_request.number}`);
+ *   })
+ *   .on(["push", "workflow_dispatch"], (payload, { eventName }) => {
+ *     console.log(`Building for ${eventName}`);
+ *   })
+ *   .fallback((_, { eventName }) => {
+ *     console.log(`Nothing to do for ${eventName}`);
+ *   })
+ *   .run({ exitOnFailed: true });
+ * ```
+ */
+export class EventRouter {
+  private readonly routes: Route[] = [];
+  private fallbackHandler: FallbackEventHandler | undefined;
+
+  /**
+   * Registers a handler for one or more event patterns.
+   *
+   * @param patterns - An event name such as `push`, or an event and action such as `issues.closed`
+   * @param handler - Called with the typed payload when the pattern matches
+   */
+  on<P extends EventPattern>(patterns: P | P[], handler: EventHandler<P>): this {
+    for (const pattern of Array.isArray(patterns) ? patterns : [patterns]) {
+      const [eventName = pattern, action] = pattern.split(".");
+      this.routes.push({
+        eventName,
+        action,
+        handler: handler as Route["handler"],
+      });
+    }
+
+    return this;
+  }
+
+  /**
+   * Registers the handler to run when no pattern matches the event.
+   */
+  fallback(handler: FallbackEventHandler): this {
+    this.fallbackHandler = handler;
+    return this;
+  }
+
+  /**
+   * Loads the current event and runs the matching handlers.
+   *
+   * @param options - Optional CI detection options and payload source
+   * @param signal - Optional signal passed on to handlers through their context
+   * @returns The number of handlers that ran, including the fallback
+   * @throws Error if the event name is not set or the payload cannot be loaded
+   */
+  async dispatch(
+    options?: PayloadOptions,
+    signal?: AbortSignal,
+  ): Promise<number> {
+    const eventName = getGithubEventName(options);
+    if (!eventName) {
+      throw new Error("Cannot dispatch event: GITHUB_EVENT_NAME not set");
+    }
+
+    const result = getGithubEventPayloadSafe(eventName, options);
+    if (!result.success) {
+      throw new Error(`Cannot dispatch ${eventName} event: ${result.error}`);
+    }
+
+    const payload: unknown = result.data;
+    const rawAction =
+      payload && typeof payload === "object"
+        ? (payload as Record<string, unknown>)["action"]
+        : undefined;
+    const context: EventRouterContext = {
+      eventName,
+      action: typeof rawAction === "string" ? rawAction : undefined,
+      signal,
+    };
+
+    const matches = this.routes.filter(
+      (route) =>
+        route.eventName === eventName &&
+        (route.action === undefined || route.action === context.action),
+    );
+
+    for (const route of matches) {
+      await route.handler(payload, context);
+    }
+
+    if (matches.length === 0 && this.fallbackHandler) {
+      await this.fallbackHandler(payload, context);
+      return 1;
+    }
+
+    return matches.length;
+  }
+
+  /**
+   * Dispatches the current event inside {@link safeRun}, so lifecycle hooks,
+   * timeouts and exit handling apply to the handlers.
+   *
+   * @param options - safeRun options plus CI detection options and payload source
+   */
+  async run(options: EventRouterRunOptions = {}): Promise<void> {
+    await safeRun(async (signal) => {
+      await this.dispatch(options, signal);
+    }, options);
+  }
+}
+
+/**
+ * Creates an empty {@link EventRouter}.
+ */
+export function createEventRouter(): EventRouter {
+  return new EventRouter();
+}
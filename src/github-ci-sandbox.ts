@@ -0,0 +1,560 @@
+/**
+ * Emulates the environment of a GitHub Actions step so action scripts can be
+ * tested locally
+ */
+
+import {
+  existsSync,
+  mkdirSync,
+  mkdtempSync,
+  readFileSync,
+  rmSync,
+  writeFileSync,
+} from "node:fs";
+import { tmpdir } from "node:os";
+import { dirname, isAbsolute, join, relative, resolve, sep } from "node:path";
+import type { CIDetectionOptions } from "./ci.js";
+import { execCommand, type ExecOptions, type ExecResult } from "./command.js";
+import {
+  parseWorkflowCommands,
+  type AnnotationLevel,
+  type AnnotationProperties,
+  type WorkflowCommand,
+} from "./github-ci-commands.js";
+import { parseKeyValueFileCommands } from "./github-ci-file-commands.js";
+import { getInputEnvName } from "./github-ci-inputs.js";
+import type { GithubEventName } from "./github-ci-payloads.js";
+
+/**
+ * Options for {@link createGithubActionsSandbox}.
+ */
+export type GithubActionsSandboxOptions = {
+  /**
+   * The triggering event (default: `push`)
+   */
+  event?: GithubEventName | (string & {});
+
+  /**
+   * The webhook payload written to `GITHUB_EVENT_PATH` (default: `{}`).
+   * Repository, ref, SHA and actor variables are derived from it when present.
+   */
+  payload?: object;
+
+  /**
+   * Action inputs, set as `INPUT_<NAME>` variables
+   */
+  inputs?: Record<string, string | number | boolean>;
+
+  /**
+   * Extra variables, applied last. `undefined` removes a variable.
+   */
+  env?: Record<string, string | undefined>;
+
+  /**
+   * `owner/name` (default: the payload repository, then `octo-org/octo-repo`)
+   */
+  repository?: string;
+
+  /**
+   * `GITHUB_REF` (default: derived from the payload, then `refs/heads/main`)
+   */
+  ref?: string;
+
+  /**
+   * `GITHUB_SHA` (default: derived from the payload)
+   */
+  sha?: string;
+
+  /**
+   * `GITHUB_ACTOR` (default: the payload sender, then `octocat`)
+   */
+  actor?: string;
+
+  /**
+   * Files to create in the workspace, keyed by relative path
+   */
+  files?: Record<string, string>;
+
+  /**
+   * Also pass captured stdout through to the real stdout (default: false)
+   */
+  echo?: boolean;
+};
+
+/**
+ * An annotation written with `error`, `warning` or `notice`.
+ */
+export type SandboxAnnotation = AnnotationProperties & {
+  level: AnnotationLevel;
+  message: string;
+};
+
+/**
+ * Everything a step wrote back to the runner.
+ */
+export type GithubActionsSandboxResult = {
+  /**
+   * Entries written to `GITHUB_OUTPUT`
+   */
+  outputs: Record<string, string>;
+
+  /**
+   * Entries written to `GITHUB_ENV`
+   */
+  env: Record<string, string>;
+
+  /**
+   * Directories written to `GITHUB_PATH`, in order
+   */
+  path: string[];
+
+  /**
+   * Entries written to `GITHUB_STATE`
+   */
+  state: Record<string, string>;
+
+  /**
+   * Contents of `GITHUB_STEP_SUMMARY`
+   */
+  summary: string;
+
+  annotations: SandboxAnnotation[];
+
+  /**
+   * Values registered with `add-mask`
+   */
+  secrets: string[];
+
+  /**
+   * Every workflow command found in the captured stdout
+   */
+  commands: WorkflowCommand[];
+
+  /**
+   * Captured stdout of every {@link GithubActionsSandbox.run} and
+   * {@link GithubActionsSandbox.exec} so far
+   */
+  stdout: string;
+
+  /**
+   * `process.exitCode` left by the last `run`, or the exit code of the last
+   * `exec`
+   */
+  exitCode: number | undefined;
+};
+
+/**
+ * Default SHA when neither the options nor the payload provide one.
+ */
+const DEFAULT_SHA = "0123456789abcdef0123456789abcdef01234567";
+
+/**
+ * `RUNNER_OS` values by `process.platform`.
+ */
+const RUNNER_OS: Partial<Record<NodeJS.Platform, string>> = {
+  linux: "Linux",
+  darwin: "macOS",
+  win32: "Windows",
+};
+
+/**
+ * `RUNNER_ARCH` values by `process.arch`.
+ */
+const RUNNER_ARCH: Partial<Record<NodeJS.Architecture, string>> = {
+  ia32: "X86",
+  x64: "X64",
+  arm: "ARM",
+  arm64: "ARM64",
+};
+
+/**
+ * Reads a nested string from an unknown payload.
+ */
+function readString(value: unknown, ...keys: string[]): string | undefined {
+  let current = value;
+  for (const key of keys) {
+    if (!current || typeof current !== "object") return undefined;
+    current = (current as Record<string, unknown>)[key];
+  }
+  return typeof current === "string" ? current : undefined;
+}
+
+/**
+ * Works out the ref the runner would check out for an event.
+ */
+function deriveRef(event: string, payload: object): string | undefined {
+  const number = (payload as { pull_request?: { number?: unknown } })
+    .pull_request?.number;
+  if (event.startsWith("pull_request") && typeof number === "number") {
+    return `refs/pull/${number}/merge`;
+  }
+
+  if (event === "release") {
+    const tag = readString(payload, "release", "tag_name");
+    return tag && `refs/tags/${tag}`;
+  }
+
+  if (event === "merge_group") {
+    return readString(payload, "merge_group", "head_ref");
+  }
+
+  return readString(payload, "ref");
+}
+
+/**
+ * A temporary runner environment: a workspace, `RUNNER_TEMP`, the event
+ * file, empty command files and a consistent set of variables pointing at
+ * them. Create one with {@link createGithubActionsSandbox}.
+ */
+export class GithubActionsSandbox {
+  /**
+   * Temporary directory holding everything else
+   */
+  readonly root: string;
+
+  /**
+   * `GITHUB_WORKSPACE`
+   */
+  readonly workspace: string;
+
+  /**
+   * `RUNNER_TEMP`
+   */
+  readonly runnerTemp: string;
+
+  /**
+   * `GITHUB_EVENT_PATH`
+   */
+  readonly eventPath: string;
+
+  /**
+   * The step's variables. Pass `{ env: sandbox.env }` to helpers, or use
+   * {@link GithubActionsSandbox.run} to make it `process.env`.
+   */
+  readonly env: Record<string, string>;
+
+  private readonly echo: boolean;
+  private stdout = "";
+  private exitCode: number | undefined;
+
+  constructor(options: GithubActionsSandboxOptions = {}) {
+    const event = options.event ?? "push";
+    const payload = options.payload ?? {};
+
+    this.echo = options.echo ?? false;
+    this.root = mkdtempSync(join(tmpdir(), "gha-sandbox-"));
+    this.workspace = join(this.root, "workspace");
+    this.runnerTemp = join(this.root, "temp");
+    this.eventPath = join(this.root, "event.json");
+
+    const toolCache = join(this.root, "tool-cache");
+    const fileCommands = join(this.runnerTemp, "_runner_file_commands");
+    for (const dir of [this.workspace, toolCache, fileCommands]) {
+      mkdirSync(dir, { recursive: true });
+    }
+
+    writeFileSync(this.eventPath, JSON.stringify(payload, null, 2));
+
+    const commandFile = (name: string) => {
+      const file = join(fileCommands, name);
+      writeFileSync(file, "");
+      return file;
+    };
+
+    const repository =
+      options.repository ??
+      readString(payload, "repository", "full_name") ??
+      "octo-org/octo-repo";
+    const ref = options.ref ?? deriveRef(event, payload) ?? "refs/heads/main";
+    const refType = ref.startsWith("refs/tags/") ? "tag" : "branch";
+    const actor =
+      options.actor ?? readString(payload, "sender", "login") ?? "octocat";
+    const isPullRequest = event.startsWith("pull_request");
+
+    const env: Record<string, string | undefined> = {
+      PATH: process.env["PATH"],
+      CI: "true",
+      GITHUB_ACTIONS: "true",
+      GITHUB_ACTION: "__run",
+      GITHUB_ACTOR: actor,
+      GITHUB_TRIGGERING_ACTOR: actor,
+      GITHUB_API_URL: "https://api.github.com",
+      GITHUB_GRAPHQL_URL: "https://api.github.com/graphql",
+      GITHUB_SERVER_URL: "https://github.com",
+      GITHUB_BASE_REF: isPullRequest
+        ? (readString(payload, "pull_request", "base", "ref") ?? "")
+        : "",
+      GITHUB_HEAD_REF: isPullRequest
+        ? (readString(payload, "pull_request", "head", "ref") ?? "")
+        : "",
+      GITHUB_ENV: commandFile("set_env"),
+      GITHUB_EVENT_NAME: event,
+      GITHUB_EVENT_PATH: this.eventPath,
+      GITHUB_JOB: "test",
+      GITHUB_OUTPUT: commandFile("set_output"),
+      GITHUB_PATH: commandFile("add_path"),
+      GITHUB_REF: ref,
+      GITHUB_REF_NAME: ref.replace(/^refs\/(?:heads|tags)\//, ""),
+      GITHUB_REF_TYPE: refType,
+      GITHUB_REPOSITORY: repository,
+      GITHUB_REPOSITORY_OWNER: repository.split("/")[0],
+      GITHUB_RUN_ATTEMPT: "1",
+      GITHUB_RUN_ID: "1",
+      GITHUB_RUN_NUMBER: "1",
+      GITHUB_SHA:
+        options.sha ??
+        readString(payload, "after") ??
+        readString(payload, "pull_request", "head", "sha") ??
+        readString(payload, "merge_group", "head_sha") ??
+        readString(payload, "workflow_run", "head_sha") ??
+        DEFAULT_SHA,
+      GITHUB_STATE: commandFile("save_state"),
+      GITHUB_STEP_SUMMARY: commandFile("step_summary"),
+      GITHUB_WORKFLOW: "CI",
+      GITHUB_WORKSPACE: this.workspace,
+      RUNNER_ARCH: RUNNER_ARCH[process.arch] ?? process.arch,
+      RUNNER_ENVIRONMENT: "github-hosted",
+      RUNNER_NAME: "GitHub Actions Sandbox",
+      RUNNER_OS: RUNNER_OS[process.platform] ?? process.platform,
+      RUNNER_TEMP: this.runnerTemp,
+      RUNNER_TOOL_CACHE: toolCache,
+    };
+
+    for (const [name, value] of Object.entries(options.inputs ?? {})) {
+      env[getInputEnvName(name)] = String(value);
+    }
+
+    Object.assign(env, options.env);
+
+    this.env = Object.fromEntries(
+      Object.entries(env).filter(
+        (entry): entry is [string, string] => entry[1] !== undefined,
+      ),
+    );
+
+    try {
+      for (const [path, content] of Object.entries(options.files ?? {})) {
+        this.writeFile(path, content);
+      }
+    } catch (error) {
+      // Nobody gets a sandbox to clean up, so remove the temp dir here
+      this.cleanup();
+      throw error;
+    }
+  }
+
+  /**
+   * Options to pass to helpers so they read the sandbox variables.
+   */
+  get options(): CIDetectionOptions {
+    return { env: this.env };
+  }
+
+  /**
+   * Sets an action input, like `with:` in a workflow.
+   */
+  setInput(name: string, value: string | number | boolean): void {
+    this.env[getInputEnvName(name)] = String(value);
+  }
+
+  /**
+   * Writes a file in the workspace, creating parent directories.
+   *
+   * @param path - Path relative to the workspace
+   * @param content - File contents
+   * @returns The absolute path of the file
+   * @throws Error if the path resolves outside the workspace
+   */
+  writeFile(path: string, content: string): string {
+    const file = resolve(this.workspace, path);
+    const inside = relative(this.workspace, file);
+    if (
+      !inside ||
+      inside === ".." ||
+      inside.startsWith(`..${sep}`) ||
+      isAbsolute(inside)
+    ) {
+      throw new Error(`Cannot write "${path}" outside the sandbox workspace`);
+    }
+
+    mkdirSync(dirname(file), { recursive: true });
+    writeFileSync(file, content);
+    return file;
+  }
+
+  /**
+   * Runs a callback in this process as if it were the step: `process.env`
+   * is replaced by the sandbox variables, the working directory is the
+   * workspace and stdout is captured. Everything is restored afterwards, so
+   * runs must not overlap.
+   *
+   * @example
+   * ```typescript
+   * const sandbox = createGithubActionsSandbox({ inputs: { name: "world" } });
+   * try {
+   *   await sandbox.run(() => {
+   *     setOutput("greeting", `Hello ${getInput("name")}`);
+   *     warning("Greeting is hardcoded");
+   *   });
+   *   const { outputs, annotations } = sandbox.getResult();
+   *   assert.equal(outputs["greeting"], "Hello world");
+   *   assert.equal(annotations[0]?.level, "warning");
+   * } finally {
+   *   sandbox.cleanup();
+   * }
+   * ```
+   *
+   * @param callback - The step to run
+   * @returns The callback's result
+   * @throws Whatever the callback throws, after restoring the process state
+   */
+  async run<T>(callback: () => T | Promise<T>): Promise<T> {
+    const savedEnv = process.env;
+    const savedCwd = process.cwd();
+    const savedExitCode = process.exitCode;
+    const write = process.stdout.write;
+
+    process.env = { ...this.env };
+    process.chdir(this.workspace);
+    process.exitCode = undefined;
+    process.stdout.write = ((
+      chunk: string | Uint8Array,
+      ...rest: unknown[]
+    ) => {
+      this.stdout +=
+        typeof chunk === "string" ? chunk : Buffer.from(chunk).toString("utf8");
+      if (this.echo) {
+        return (write as (...args: unknown[]) => boolean).call(
+          process.stdout,
+          chunk,
+          ...rest,
+        );
+      }
+      const done = rest.find((arg) => typeof arg === "function");
+      if (done) process.nextTick(done as () => void);
+      return true;
+    }) as typeof process.stdout.write;
+
+    try {
+      return await callback();
+    } finally {
+      process.stdout.write = write;
+      const exitCode = process.exitCode;
+      this.exitCode =
+        exitCode === undefined || exitCode === null
+          ? undefined
+          : Number(exitCode);
+      process.exitCode = savedExitCode;
+      process.chdir(savedCwd);
+      process.env = savedEnv;
+    }
+  }
+
+  /**
+   * Runs a command as the step, e.g. a bundled action with `node dist/index.js`,
+   * in the workspace with the sandbox variables. A non-zero exit code does
+   * not reject; it is reported by {@link GithubActionsSandbox.getResult}.
+   *
+   * @param command - The command to run
+   * @param args - Arguments to pass to the command
+   * @param options - Overrides for {@link execCommand}
+   * @returns The command's result
+   */
+  async exec(
+    command: string,
+    args: string[] = [],
+    options: ExecOptions = {},
+  ): Promise<ExecResult> {
+    const result = await execCommand(command, args, {
+      cwd: this.workspace,
+      ignoreReturnCode: true,
+      ...options,
+      env: { ...this.env, ...options.env },
+      stdout: this.echo ? "tee" : "capture",
+    });
+
+    this.stdout += result.stdout;
+    this.exitCode = result.exitCode ?? undefined;
+    return result;
+  }
+
+  /**
+   * Reads back what the step wrote: outputs, exported variables, paths,
+   * state, the step summary and the workflow commands in its stdout.
+   *
+   * @returns The collected results
+   * @throws Error if a command file contains a malformed entry
+   */
+  getResult(): GithubActionsSandboxResult {
+    const read = (variable: string) => {
+      const file = this.env[variable];
+      return file && existsSync(file) ? readFileSync(file, "utf8") : "";
+    };
+
+    const commands = parseWorkflowCommands(this.stdout);
+    const annotations = commands.flatMap((command): SandboxAnnotation[] => {
+      const level = command.command;
+      if (level !== "error" && level !== "warning" && level !== "notice") {
+        return [];
+      }
+
+      const { title, file, line, endLine, col, endColumn } = command.properties;
+      const annotation: SandboxAnnotation = { level, message: command.message };
+      if (title !== undefined) annotation.title = title;
+      if (file !== undefined) annotation.file = file;
+      if (line !== undefined) annotation.line = Number(line);
+      if (endLine !== undefined) annotation.endLine = Number(endLine);
+      if (col !== undefined) annotation.col = Number(col);
+      if (endColumn !== undefined) annotation.endColumn = Number(endColumn);
+      return [annotation];
+    });
+
+    return {
+      outputs: parseKeyValueFileCommands(read("GITHUB_OUTPUT")),
+      env: parseKeyValueFileCommands(read("GITHUB_ENV")),
+      path: read("GITHUB_PATH").split(/\r?\n/).filter(Boolean),
+      state: parseKeyValueFileCommands(read("GITHUB_STATE")),
+      summary: read("GITHUB_STEP_SUMMARY"),
+      annotations,
+      secrets: commands
+        .filter((command) => command.command === "add-mask")
+        .map((command) => command.message),
+      commands,
+      stdout: this.stdout,
+      exitCode: this.exitCode,
+    };
+  }
+
+  /**
+   * Deletes the sandbox directory.
+   */
+  cleanup(): void {
+    rmSync(this.root, { recursive: true, force: true });
+  }
+}
+
+/**
+ * Creates a temporary runner environment for testing an action script
+ * without pushing to GitHub.
+ *
+ * @example
+ * ```typescript
+ * const sandbox = createGithubActionsSandbox({
+ *   event: "pull_request",
+ *   payload: { number: 7, pull_request: { number: 7, base: { ref: "main" }, head: { ref: "feature" } } },
+ *   inputs: { "dry-run": true },
+ * });
+ *
+ * await sandbox.exec("node", [resolve("dist/index.js")]);
+ * const { outputs, summary, exitCode } = sandbox.getResult();
+ * sandbox.cleanup();
+ * ```
+ *
+ * @param options - Event, payload, inputs and variable overrides
+ * @returns The sandbox, remember to call `cleanup()`
+ */
+export function createGithubActionsSandbox(
+  options?: GithubActionsSandboxOptions,
+): GithubActionsSandbox {
+  return new GithubActionsSandbox(options);
+}
@@ -0,0 +1,366 @@
+/**
+ * GitHub Actions Job Summary Builder
+ * @see {https://docs.github.com/en/actions/reference/workflows-and-actions/workflow-commands#adding-a-job-summary}
+ */
+
+import { existsSync, statSync } from "node:fs";
+import { EOL } from "node:os";
+import type { CIDetectionOptions } from "./ci.js";
+import { getEnv } from "./env.js";
+import {
+  appendStepSummary,
+  clearStepSummary,
+  overwriteStepSummary,
+} from "./github-ci-file-commands.js";
+
+/**
+ * Maximum size of a single step's summary accepted by GitHub (1 MiB).
+ */
+export const STEP_SUMMARY_SIZE_LIMIT = 1024 * 1024;
+
+/**
+ * A single table cell. Plain strings are rendered as data cells.
+ */
+export type SummaryTableCell =
+  | string
+  | {
+      /**
+       * Cell content, may contain HTML
+       */
+      data: string;
+
+      /**
+       * Render the cell as a header (`th`) instead of data (`td`)
+       */
+      header?: boolean;
+
+      /**
+       * Number of columns the cell spans
+       */
+      colspan?: number;
+
+      /**
+       * Number of rows the cell spans
+       */
+      rowspan?: number;
+    };
+
+/**
+ * A table row made of cells.
+ */
+export type SummaryTableRow = SummaryTableCell[];
+
+/**
+ * Options for {@link StepSummary.addImage}.
+ */
+export type SummaryImageOptions = {
+  width?: number | string;
+  height?: number | string;
+};
+
+/**
+ * Options for {@link StepSummary.write}.
+ */
+export type SummaryWriteOptions = {
+  /**
+   * Replace the existing summary instead of appending to it
+   */
+  overwrite?: boolean;
+};
+
+/**
+ * Thrown when writing would push the step summary over {@link STEP_SUMMARY_SIZE_LIMIT}.
+ */
+export class StepSummaryLimitError extends Error {
+  constructor(
+    message: string,
+    public readonly size: number,
+    public readonly limit: number,
+  ) {
+    super(message);
+    this.name = "StepSummaryLimitError";
+  }
+}
+
+/**
+ * Escapes a value for use inside an HTML attribute.
+ */
+function escapeAttribute(value: string): string {
+  return value
+    .replace(/&/g, "&amp;")
+    .replace(/"/g, "&quot;")
+    .replace(/</g, "&lt;")
+    .replace(/>/g, "&gt;");
+}
+
+/**
+ * Escapes text for use inside an HTML element.
+ */
+function escapeHtml(value: string): string {
+  return value
+    .replace(/&/g, "&amp;")
+    .replace(/</g, "&lt;")
+    .replace(/>/g, "&gt;");
+}
+
+/**
+ * Wraps content in an HTML tag with the given attributes.
+ */
+function wrap(
+  tag: string,
+  content: string | null,
+  attrs: Record<string, string | number | undefined> = {},
+): string {
+  const htmlAttrs = Object.entries(attrs)
+    .filter(([, value]) => value !== undefined)
+    .map(([key, value]) => ` ${key}="${escapeAttribute(String(value))}"`)
+    .join("");
+
+  if (content === null) {
+    return `<${tag}${htmlAttrs}>`;
+  }
+
+  return `<${tag}${htmlAttrs}>${content}</${tag}>`;
+}
+
+/**
+ * Chainable builder for the Markdown/HTML job summary of the current step.
+ *
+ * Content is buffered in memory until {@link StepSummary.write} is called.
+ *
+ * @example
+ * ```typescript
+ * createStepSummary()
+ *   .addHeading("Test Results")
+ *   .addTable([
+ *     [{ data: "Suite", header: true }, { data: "Result", header: true }],
+ *     ["unit", "✅"],
+ *     ["e2e", "❌"],
+ *   ])
+ *   .addDetails("Logs", "<pre>...</pre>")
+ *   .addLink("View coverage", "https://example.com/coverage")
+ *   .write();
+ * ```
+ */
+export class StepSummary {
+  private buffer = "";
+
+  constructor(private readonly options?: CIDetectionOptions) {}
+
+  /**
+   * Gets the current buffer as a string.
+   */
+  stringify(): string {
+    return this.buffer;
+  }
+
+  /**
+   * Whether nothing has been added to the buffer.
+   */
+  isEmptyBuffer(): boolean {
+    return this.buffer.length === 0;
+  }
+
+  /**
+   * Discards the buffer without writing it.
+   */
+  emptyBuffer(): this {
+    this.buffer = "";
+    return this;
+  }
+
+  /**
+   * Adds raw text or HTML to the buffer.
+   *
+   * @param text - The content to add
+   * @param addEOL - Append a line break after the content
+   */
+  addRaw(text: string, addEOL = false): this {
+    this.buffer += text;
+    return addEOL ? this.addEOL() : this;
+  }
+
+  /**
+   * Adds the platform line break to the buffer.
+   */
+  addEOL(): this {
+    return this.addRaw(EOL);
+  }
+
+  /**
+   * Adds a heading.
+   *
+   * @param text - Heading text
+   * @param level - Heading level from 1 to 6, defaults to 1
+   */
+  addHeading(text: string, level: 1 | 2 | 3 | 4 | 5 | 6 = 1): this {
+    return this.addRaw(wrap(`h${level}`, text), true);
+  }
+
+  /**
+   * Adds a table. Use `{ header: true }` cells for the header row.
+   */
+  addTable(rows: SummaryTableRow[]): this {
+    const body = rows
+      .map((row) => {
+        const cells = row
+          .map((cell) => {
+            if (typeof cell === "string") {
+              return wrap("td", cell);
+            }
+
+            return wrap(cell.header ? "th" : "td", cell.data, {
+              colspan: cell.colspan,
+              rowspan: cell.rowspan,
+            });
+          })
+          .join("");
+
+        return wrap("tr", cells);
+      })
+      .join("");
+
+    return this.addRaw(wrap("table", body), true);
+  }
+
+  /**
+   * Adds a code block. The code is HTML escaped.
+   *
+   * @param code - The code to show
+   * @param lang - Optional language used for syntax highlighting
+   */
+  addCodeBlock(code: string, lang?: string): this {
+    return this.addRaw(
+      wrap("pre", wrap("code", escapeHtml(code)), { lang }),
+      true,
+    );
+  }
+
+  /**
+   * Adds a collapsible `details` section.
+   *
+   * @param label - Text shown in the `summary` element
+   * @param content - Content shown when the section is expanded
+   */
+  addDetails(label: string, content: string): this {
+    return this.addRaw(
+      wrap("details", `${wrap("summary", label)}${content}`),
+      true,
+    );
+  }
+
+  /**
+   * Adds a list.
+   *
+   * @param items - List items
+   * @param ordered - Render a numbered list instead of bullets
+   */
+  addList(items: string[], ordered = false): this {
+    const listItems = items.map((item) => wrap("li", item)).join("");
+    return this.addRaw(wrap(ordered ? "ol" : "ul", listItems), true);
+  }
+
+  /**
+   * Adds a link.
+   */
+  addLink(text: string, href: string): this {
+    return this.addRaw(wrap("a", text, { href }), true);
+  }
+
+  /**
+   * Adds an image.
+   *
+   * @param src - Image URL
+   * @param alt - Alternative text
+   * @param options - Optional width and height
+   */
+  addImage(src: string, alt: string, options: SummaryImageOptions = {}): this {
+    return this.addRaw(
+      wrap("img", null, {
+        src,
+        alt,
+        width: options.width,
+        height: options.height,
+      }),
+      true,
+    );
+  }
+
+  /**
+   * Adds a block quote.
+   *
+   * @param text - Quote text
+   * @param cite - Optional citation URL
+   */
+  addQuote(text: string, cite?: string): this {
+    return this.addRaw(wrap("blockquote", text, { cite }), true);
+  }
+
+  /**
+   * Adds a horizontal rule.
+   */
+  addSeparator(): this {
+    return this.addRaw(wrap("hr", null), true);
+  }
+
+  /**
+   * Adds a line break.
+   */
+  addBreak(): this {
+    return this.addRaw(wrap("br", null), true);
+  }
+
+  /**
+   * Writes the buffer to the step summary file and empties it.
+   *
+   * @param options - Pass `{ overwrite: true }` to replace the existing summary
+   * @returns `true` if the summary was written, `false` if `GITHUB_STEP_SUMMARY` is not set
+   * @throws StepSummaryLimitError if the summary would exceed {@link STEP_SUMMARY_SIZE_LIMIT}
+   */
+  write(options: SummaryWriteOptions = {}): boolean {
+    const filePath = getEnv(this.options)["GITHUB_STEP_SUMMARY"];
+
+    if (!filePath) {
+      return false;
+    }
+
+    const existing =
+      !options.overwrite && existsSync(filePath) ? statSync(filePath).size : 0;
+    const size =
+      existing + Buffer.byteLength(this.buffer, "utf8") + Buffer.byteLength(EOL);
+
+    if (size > STEP_SUMMARY_SIZE_LIMIT) {
+      throw new StepSummaryLimitError(
+        `Step summary would be ${size} bytes, which exceeds the ${STEP_SUMMARY_SIZE_LIMIT} byte limit`,
+        size,
+        STEP_SUMMARY_SIZE_LIMIT,
+      );
+    }
+
+    const written = options.overwrite
+      ? overwriteStepSummary(this.buffer, this.options)
+      : appendStepSummary(this.buffer, this.options);
+
+    this.emptyBuffer();
+    return written;
+  }
+
+  /**
+   * Empties the buffer and the step summary file.
+   *
+   * @returns `true` if the summary file was cleared, `false` if `GITHUB_STEP_SUMMARY` is not set
+   */
+  clear(): boolean {
+    this.emptyBuffer();
+    return clearStepSummary(this.options);
+  }
+}
+
+/**
+ * Creates a new job summary builder.
+ *
+ * @param options - Optional CI detection options
+ */
+export function createStepSummary(options?: CIDetectionOptions): StepSummary {
+  return new StepSummary(options);
+}
@@ -5,12 +5,17 @@
 
 import type { EventPayloadMap } from "@octokit/webhooks-types";
 import type { CIDetectionOptions } from "./ci.js";
+import { diagnoseCIProvider } from "./ci-providers.js";
 import { getEnv } from "./env.js";
 
 /**
  * Detects if running inside GitHub Actions
  *
- * GitHub Actions sets the `GITHUB_ACTIONS` environment variable to "true"
+ * GitHub Actions sets the `GITHUB_ACTIONS` environment variable to "true".
+ * In strict mode the runner is confirmed with additional signals: `RUNNER_OS`,
+ * a numeric `GITHUB_RUN_ID`, `GITHUB_WORKSPACE` existing on disk and a
+ * readable `GITHUB_EVENT_PATH`. Use `diagnoseCIProvider("github-actions")` to
+ * see which signals failed.
  *
  * @example
  * ```typescript
@@ -19,8 +24,20 @@ import { getEnv } from "./env.js";
  *   const token = getGithubToken(); // Safe to call
  * }
  * ```
+ *
+ * @example
+ * ```typescript
+ * // Ignore a locally exported GITHUB_ACTIONS=true
+ * if (isInsideGithubAction({ strict: true })) {
+ *   await uploadArtifacts();
+ * }
+ * ```
  */
 export function isInsideGithubAction(options?: CIDetectionOptions): boolean {
+  if (options?.strict) {
+    return diagnoseCIProvider("github-actions", options).detected;
+  }
+
   const env = getEnv(options);
   return env["GITHUB_ACTIONS"] === "true";
 }
@@ -0,0 +1,335 @@
+/**
+ * GitHub GraphQL API helpers
+ * @see {https://docs.github.com/en/graphql}
+ */
+
+import { getGithubGraphqlUrl } from "./github-ci-variables.js";
+import {
+  GithubApiError,
+  GithubRestClient,
+  type GithubRestClientOptions,
+} from "./github-rest.js";
+
+/**
+ * Variables sent along with a query.
+ */
+export type GraphqlVariables = Record<string, unknown>;
+
+/**
+ * Options for {@link graphql} and the pagination helpers.
+ */
+export type GraphqlOptions = GithubRestClientOptions & {
+  /**
+   * GraphQL endpoint (default: `GITHUB_GRAPHQL_URL`, then
+   * `https://api.github.com/graphql`)
+   */
+  url?: string;
+
+  /**
+   * Extra request headers
+   */
+  headers?: Record<string, string>;
+
+  /**
+   * Cancels the request
+   */
+  signal?: AbortSignal;
+};
+
+/**
+ * One entry of a GraphQL `errors` array.
+ */
+export type GraphqlErrorDetail = {
+  message: string;
+  type?: string;
+  path?: (string | number)[];
+  locations?: { line: number; column: number }[];
+  extensions?: Record<string, unknown>;
+};
+
+/**
+ * Thrown when a GraphQL response carries an `errors` array.
+ */
+export class GraphqlError extends Error {
+  constructor(
+    message: string,
+    public readonly errors: GraphqlErrorDetail[],
+    public readonly data: unknown,
+    public readonly query: string,
+  ) {
+    super(message);
+    this.name = "GraphqlError";
+  }
+
+  /**
+   * The `type` of every error, e.g. `NOT_FOUND` or `RATE_LIMITED`
+   */
+  get types(): string[] {
+    return this.errors.flatMap((error) => (error.type ? [error.type] : []));
+  }
+}
+
+/**
+ * The `pageInfo` selection cursor pagination needs.
+ */
+export type GraphqlPageInfo = {
+  hasNextPage: boolean;
+  endCursor: string | null;
+};
+
+/**
+ * A connection with `pageInfo` and either `nodes` or `edges { node }`.
+ */
+export type GraphqlConnection<TNode> = {
+  pageInfo: GraphqlPageInfo;
+  nodes?: (TNode | null)[] | null;
+  edges?: ({ node: TNode | null } | null)[] | null;
+};
+
+/**
+ * Options for {@link iterateGraphql} and {@link paginateGraphql}.
+ */
+export type GraphqlPaginationOptions<T> = GraphqlOptions & {
+  /**
+   * Name of the cursor variable in the query (default: `cursor`)
+   */
+  cursorVariable?: string;
+
+  /**
+   * Picks the paginated connection out of a page. By default the one object
+   * in the result that has a `pageInfo` field is used.
+   */
+  connection?: (data: T) => GraphqlConnection<unknown> | null | undefined;
+};
+
+/**
+ * Builds the error message from a GraphQL `errors` array.
+ */
+function describeErrors(errors: GraphqlErrorDetail[]): string {
+  const messages = errors.map((error) =>
+    error.path?.length
+      ? `${error.message} (at ${error.path.join(".")})`
+      : error.message,
+  );
+  return `GraphQL request failed: ${messages.join("; ")}`;
+}
+
+/**
+ * Runs a GraphQL query or mutation against the GitHub API.
+ *
+ * Authenticates with `GITHUB_TOKEN` and retries on rate limits the same way
+ * the REST client does.
+ *
+ * @example
+ * ```typescript
+ * type Result = {
+ *   repository: { a: { oid: string } | null; b: { oid: string } | null };
+ * };
+ *
+ * // Look up two tags in one request
+ * const { repository } = await graphql<Result>(
+ *   `query ($owner: String!, $name: String!) {
+ *     repository(owner: $owner, name: $name) {
+ *       a: object(expression: "v1.0.0") { oid }
+ *       b: object(expression: "v1.1.0") { oid }
+ *     }
+ *   }`,
+ *   { owner: "octo", name: "repo" },
+ * );
+ * ```
+ *
+ * @param query - The GraphQL document
+ * @param variables - Values for the query variables
+ * @param options - Token, endpoint and request overrides
+ * @returns The `data` of the response
+ * @throws GraphqlError if the response has an `errors` array
+ * @throws GithubApiError if the endpoint answers with an error status and no GraphQL errors
+ */
+export async function graphql<
+  T = unknown,
+  V extends GraphqlVariables = GraphqlVariables,
+>(query: string, variables?: V, options: GraphqlOptions = {}): Promise<T> {
+  const url =
+    options.url ??
+    getGithubGraphqlUrl(options) ??
+    "https://api.github.com/graphql";
+
+  let body: { data?: T | null; errors?: GraphqlErrorDetail[] } | undefined;
+  try {
+    const response = await new GithubRestClient({
+      ...options,
+      etagCache: false,
+    }).request<typeof body>(`POST ${url}`, {
+      body: { query, ...(variables && { variables }) },
+      ...(options.headers && { headers: options.headers }),
+      ...(options.signal && { signal: options.signal }),
+    });
+    body = response.data;
+  } catch (error) {
+    const data = error instanceof GithubApiError ? error.data : undefined;
+    const errors = (data as typeof body)?.errors;
+    if (!Array.isArray(errors) || errors.length === 0) throw error;
+
+    throw new GraphqlError(
+      describeErrors(errors),
+      errors,
+      (data as typeof body)?.data,
+      query,
+    );
+  }
+
+  if (body?.errors?.length) {
+    throw new GraphqlError(
+      describeErrors(body.errors),
+      body.errors,
+      body.data,
+      query,
+    );
+  }
+
+  if (body?.data === undefined || body.data === null) {
+    throw new GraphqlError(
+      "GraphQL response did not contain any data",
+      [],
+      undefined,
+      query,
+    );
+  }
+
+  return body.data;
+}
+
+/**
+ * Finds the single object with a `pageInfo` field in a result.
+ */
+function findConnection(data: unknown): GraphqlConnection<unknown> {
+  const found: GraphqlConnection<unknown>[] = [];
+  const visit = (value: unknown) => {
+    if (!value || typeof value !== "object") return;
+    if (Array.isArray(value)) {
+      value.forEach(visit);
+      return;
+    }
+    if ("pageInfo" in value) {
+      found.push(value as GraphqlConnection<unknown>);
+      return;
+    }
+    Object.values(value).forEach(visit);
+  };
+
+  visit(data);
+
+  if (found.length !== 1) {
+    throw new Error(
+      found.length === 0
+        ? "No connection with pageInfo found in the GraphQL result"
+        : "Several connections with pageInfo found, pass a connection option to pick one",
+    );
+  }
+
+  return found[0] as GraphqlConnection<unknown>;
+}
+
+/**
+ * Runs a paginated query once per page, following `pageInfo.endCursor`.
+ *
+ * The query must take a cursor variable (`$cursor: String` by default) and
+ * pass it as `after` on the connection, which must select
+ * `pageInfo { hasNextPage endCursor }`.
+ *
+ * @example
+ * ```typescript
+ * for await (const page of iterateGraphql<Result>(
+ *   `query ($owner: String!, $name: String!, $cursor: String) {
+ *     repository(owner: $owner, name: $name) {
+ *       releases(first: 100, after: $cursor) {
+ *         nodes { tagName }
+ *         pageInfo { hasNextPage endCursor }
+ *       }
+ *     }
+ *   }`,
+ *   { owner: "octo", name: "repo" },
+ * )) {
+ *   console.log(page.repository.releases.nodes.length);
+ * }
+ * ```
+ *
+ * @param query - The GraphQL document
+ * @param variables - Values for the query variables, apart from the cursor
+ * @param options - Cursor variable, connection selector and request overrides
+ * @returns Each page's `data`
+ * @throws GraphqlError if a page fails
+ */
+export async function* iterateGraphql<
+  T = unknown,
+  V extends GraphqlVariables = GraphqlVariables,
+>(
+  query: string,
+  variables?: V,
+  options: GraphqlPaginationOptions<T> = {},
+): AsyncGenerator<T> {
+  const { cursorVariable = "cursor", connection, ...requestOptions } = options;
+  let cursor: string | null = null;
+
+  for (;;) {
+    const data: T = await graphql<T>(
+      query,
+      { ...variables, [cursorVariable]: cursor },
+      requestOptions,
+    );
+    yield data;
+
+    const page = connection ? connection(data) : findConnection(data);
+    if (!page?.pageInfo.hasNextPage || !page.pageInfo.endCursor) return;
+    cursor = page.pageInfo.endCursor;
+  }
+}
+
+/**
+ * Runs a paginated query until the last page and returns every node of the
+ * connection, from `nodes` or `edges { node }`.
+ *
+ * @example
+ * ```typescript
+ * const repositories = await paginateGraphql<{ nameWithOwner: string }>(
+ *   `query ($cursor: String) {
+ *     viewer {
+ *       repositories(first: 100, after: $cursor) {
+ *         nodes { nameWithOwner }
+ *         pageInfo { hasNextPage endCursor }
+ *       }
+ *     }
+ *   }`,
+ * );
+ * ```
+ *
+ * @param query - The GraphQL document, see {@link iterateGraphql}
+ * @param variables - Values for the query variables, apart from the cursor
+ * @param options - Cursor variable, connection selector and request overrides
+ * @returns The nodes of every page, with `null` entries dropped
+ * @throws GraphqlError if a page fails
+ */
+export async function paginateGraphql<
+  TNode = unknown,
+  V extends GraphqlVariables = GraphqlVariables,
+>(
+  query: string,
+  variables?: V,
+  options: GraphqlPaginationOptions<unknown> = {},
+): Promise<TNode[]> {
+  const nodes: TNode[] = [];
+
+  for await (const data of iterateGraphql(query, variables, options)) {
+    const page = options.connection
+      ? options.connection(data)
+      : findConnection(data);
+    const items =
+      page?.nodes ?? page?.edges?.map((edge) => edge?.node ?? null) ?? [];
+
+    for (const node of items) {
+      if (node !== null && node !== undefined) nodes.push(node as TNode);
+    }
+  }
+
+  return nodes;
+}
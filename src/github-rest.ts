@@ -0,0 +1,636 @@
+/**
+ * Small GitHub REST API client built on `fetch`
+ * @see {https://docs.github.com/en/rest}
+ */
+
+import type { CIDetectionOptions } from "./ci.js";
+import { getGithubToken } from "./github-ci-security.js";
+import { getGithubApiUrl, getGithubRepository } from "./github-ci-variables.js";
+
+/**
+ * Options for {@link createGithubRestClient}.
+ */
+export type GithubRestClientOptions = CIDetectionOptions & {
+  /**
+   * Token sent as a bearer token (default: `GITHUB_TOKEN`)
+   */
+  token?: string;
+
+  /**
+   * API root (default: `GITHUB_API_URL`, then `https://api.github.com`)
+   */
+  baseUrl?: string;
+
+  /**
+   * Value for `{owner}` in routes (default: owner from `GITHUB_REPOSITORY`)
+   */
+  owner?: string;
+
+  /**
+   * Value for `{repo}` in routes (default: name from `GITHUB_REPOSITORY`)
+   */
+  repo?: string;
+
+  /**
+   * User agent header (default: `node-github-actions`)
+   */
+  userAgent?: string;
+
+  /**
+   * Reuse responses for repeated GET requests through `If-None-Match`,
+   * kept per URL, `Accept` header and token. A 304 response does not count
+   * against the rate limit (default: true)
+   */
+  etagCache?: boolean;
+
+  /**
+   * Longest single wait for a rate limit to reset before giving up with a
+   * GithubRateLimitError (default: 60000)
+   */
+  maxRateLimitWaitMs?: number;
+
+  /**
+   * How many times a rate limited request is retried (default: 3)
+   */
+  maxRateLimitRetries?: number;
+
+  /**
+   * Called before waiting for a rate limit to reset
+   */
+  onRateLimit?: (info: {
+    method: string;
+    url: string;
+    waitMs: number;
+    secondary: boolean;
+    attempt: number;
+  }) => void;
+};
+
+/**
+ * Options for a single request.
+ */
+export type GithubRequestOptions = {
+  /**
+   * Values for `{placeholders}` in the route, on top of `owner` and `repo`
+   */
+  params?: Record<string, string | number>;
+
+  /**
+   * Query string parameters. Arrays are joined with commas and `undefined`
+   * values are skipped.
+   */
+  query?: Record<
+    string,
+    string | number | boolean | readonly (string | number)[] | undefined
+  >;
+
+  /**
+   * JSON request body
+   */
+  body?: unknown;
+
+  /**
+   * Extra request headers
+   */
+  headers?: Record<string, string>;
+
+  /**
+   * Cancels the request and any rate limit wait
+   */
+  signal?: AbortSignal;
+};
+
+/**
+ * The rate limit state reported with a response.
+ */
+export type GithubRateLimit = {
+  limit: number;
+  remaining: number;
+  used: number;
+  resetAt: Date;
+  resource: string | undefined;
+};
+
+/**
+ * A parsed API response.
+ */
+export type GithubResponse<T> = {
+  status: number;
+  url: string;
+  headers: Headers;
+  data: T;
+  rateLimit: GithubRateLimit | undefined;
+
+  /**
+   * Whether the data came from the ETag cache after a 304 response
+   */
+  fromCache: boolean;
+};
+
+/**
+ * Thrown when the API answers with an error status.
+ */
+export class GithubApiError extends Error {
+  constructor(
+    message: string,
+    public readonly status: number,
+    public readonly method: string,
+    public readonly url: string,
+    public readonly data: unknown,
+    public readonly headers: Headers,
+  ) {
+    super(message);
+    this.name = "GithubApiError";
+  }
+
+  /**
+   * The `documentation_url` GitHub sends with most errors
+   */
+  get documentationUrl(): string | undefined {
+    const data = this.data as { documentation_url?: unknown } | undefined;
+    return typeof data?.documentation_url === "string"
+      ? data.documentation_url
+      : undefined;
+  }
+}
+
+/**
+ * Thrown when a request is rate limited and waiting is not allowed or did
+ * not help.
+ */
+export class GithubRateLimitError extends GithubApiError {
+  constructor(
+    message: string,
+    status: number,
+    method: string,
+    url: string,
+    data: unknown,
+    headers: Headers,
+    public readonly retryAfterMs: number,
+    public readonly secondary: boolean,
+  ) {
+    super(message, status, method, url, data, headers);
+    this.name = "GithubRateLimitError";
+  }
+}
+
+/**
+ * A GET response kept for conditional requests.
+ */
+type CachedResponse = {
+  etag: string;
+  data: unknown;
+};
+
+/**
+ * How long to wait on a secondary rate limit without a usable `retry-after`.
+ * GitHub asks for at least a minute.
+ */
+const SECONDARY_RATE_LIMIT_WAIT_MS = 60_000;
+
+/**
+ * Waits for the given time, rejecting early if the signal aborts.
+ */
+function wait(ms: number, signal?: AbortSignal): Promise<void> {
+  return new Promise((resolve, reject) => {
+    if (signal?.aborted) {
+      reject(signal.reason);
+      return;
+    }
+
+    const onAbort = () => {
+      clearTimeout(timeoutId);
+      reject(signal?.reason);
+    };
+
+    const timeoutId = setTimeout(() => {
+      signal?.removeEventListener("abort", onAbort);
+      resolve();
+    }, ms);
+
+    signal?.addEventListener("abort", onAbort, { once: true });
+  });
+}
+
+/**
+ * Parses a `Link` header into URLs by relation, e.g. `{ next: "https://..." }`.
+ *
+ * @example
+ * ```typescript
+ * parseLinkHeader('<https://api.github.com/x?page=2>; rel="next"');
+ * // { next: "https://api.github.com/x?page=2" }
+ * ```
+ */
+export function parseLinkHeader(
+  header: string | null | undefined,
+): Record<string, string> {
+  const links: Record<string, string> = {};
+
+  for (const part of header?.split(",") ?? []) {
+    const match = /<([^>]+)>\s*;\s*rel="([^"]+)"/.exec(part);
+    if (match?.[1] && match[2]) {
+      for (const rel of match[2].split(/\s+/)) {
+        links[rel] = match[1];
+      }
+    }
+  }
+
+  return links;
+}
+
+/**
+ * Reads the `x-ratelimit-*` headers.
+ */
+function readRateLimit(headers: Headers): GithubRateLimit | undefined {
+  const limit = headers.get("x-ratelimit-limit");
+  const remaining = headers.get("x-ratelimit-remaining");
+  const reset = headers.get("x-ratelimit-reset");
+
+  if (limit === null || remaining === null || reset === null) {
+    return undefined;
+  }
+
+  return {
+    limit: Number(limit),
+    remaining: Number(remaining),
+    used: Number(
+      headers.get("x-ratelimit-used") ?? Number(limit) - Number(remaining),
+    ),
+    resetAt: new Date(Number(reset) * 1000),
+    resource: headers.get("x-ratelimit-resource") ?? undefined,
+  };
+}
+
+/**
+ * Reads a `retry-after` header, given in seconds or as an HTTP date, as the
+ * milliseconds to wait. Returns `undefined` if it is neither.
+ */
+function parseRetryAfter(value: string): number | undefined {
+  if (/^\s*\d+\s*$/.test(value)) return Number(value) * 1000;
+
+  const date = Date.parse(value);
+  return Number.isNaN(date) ? undefined : Math.max(0, date - Date.now());
+}
+
+/**
+ * Builds the ETag cache key for a request. The same URL answers differently
+ * for another media type or another token, so both are part of the key.
+ */
+function cacheKey(url: string, headers: Record<string, string>): string {
+  return JSON.stringify([url, headers["accept"], headers["authorization"]]);
+}
+
+/**
+ * Reads a response body as JSON when it is JSON, otherwise as text.
+ */
+async function readBody(response: Response): Promise<unknown> {
+  if (response.status === 204 || response.status === 304) {
+    return undefined;
+  }
+
+  const text = await response.text();
+  if (!text) return undefined;
+
+  if (/[/+]json\b/.test(response.headers.get("content-type") ?? "")) {
+    try {
+      return JSON.parse(text);
+    } catch {
+      return text;
+    }
+  }
+
+  return text;
+}
+
+/**
+ * Finds the items of a page: the body itself for list endpoints, or the one
+ * array property for endpoints such as search that wrap their results.
+ */
+function pageItems<T>(data: unknown): T[] {
+  if (Array.isArray(data)) return data as T[];
+
+  if (data && typeof data === "object") {
+    const arrays = Object.values(data).filter(Array.isArray);
+    if (arrays.length === 1) return arrays[0] as T[];
+  }
+
+  return [];
+}
+
+/**
+ * GitHub REST API client bound to the workflow's token, API URL and
+ * repository.
+ *
+ * Routes are written as `METHOD /path` with `{placeholders}`, the way the
+ * REST docs show them. `{owner}` and `{repo}` default to the current
+ * repository.
+ *
+ * @example
+ * ```typescript
+ * const github = createGithubRestClient();
+ *
+ * const { data: pr } = await github.request<{ title: string }>(
+ *   "GET /repos/{owner}/{repo}/pulls/{pull_number}",
+ *   { params: { pull_number: 42 } },
+ * );
+ *
+ * const labels = await github.paginate<{ name: string }>(
+ *   "GET /repos/{owner}/{repo}/labels",
+ * );
+ *
+ * await github.request("POST /repos/{owner}/{repo}/issues/{issue_number}/comments", {
+ *   params: { issue_number: 42 },
+ *   body: { body: `Found ${labels.length} labels on "${pr.title}"` },
+ * });
+ * ```
+ */
+export class GithubRestClient {
+  readonly baseUrl: string;
+  readonly owner: string | undefined;
+  readonly repo: string | undefined;
+
+  private readonly token: string | undefined;
+  private readonly userAgent: string;
+  private readonly cache: Map<string, CachedResponse> | undefined;
+  private readonly maxRateLimitWaitMs: number;
+  private readonly maxRateLimitRetries: number;
+  private readonly onRateLimit: GithubRestClientOptions["onRateLimit"];
+
+  constructor(options: GithubRestClientOptions = {}) {
+    const repository = getGithubRepository(options);
+
+    this.baseUrl = (
+      options.baseUrl ??
+      getGithubApiUrl(options) ??
+      "https://api.github.com"
+    ).replace(/\/+$/, "");
+    this.owner = options.owner ?? repository?.owner;
+    this.repo = options.repo ?? repository?.name;
+    this.token = options.token ?? getGithubToken(options);
+    this.userAgent = options.userAgent ?? "node-github-actions";
+    this.cache = options.etagCache === false ? undefined : new Map();
+    this.maxRateLimitWaitMs = options.maxRateLimitWaitMs ?? 60_000;
+    this.maxRateLimitRetries = options.maxRateLimitRetries ?? 3;
+    this.onRateLimit = options.onRateLimit;
+  }
+
+  /**
+   * Builds the absolute URL for a route path.
+   */
+  private buildUrl(path: string, options: GithubRequestOptions): string {
+    const params: Record<string, string | number | undefined> = {
+      owner: this.owner,
+      repo: this.repo,
+      ...options.params,
+    };
+
+    const expanded = path.replace(/\{(\w+)\}/g, (_, name: string) => {
+      const value = params[name];
+      if (value === undefined) {
+        throw new Error(
+          `Missing value for "{${name}}" in ${path}` +
+            (name === "owner" || name === "repo"
+              ? " (set GITHUB_REPOSITORY or pass owner/repo)"
+              : ""),
+        );
+      }
+      return encodeURIComponent(String(value));
+    });
+
+    const url = new URL(
+      /^https?:\/\//.test(expanded) ? expanded : `${this.baseUrl}${expanded}`,
+    );
+
+    for (const [key, value] of Object.entries(options.query ?? {})) {
+      if (value === undefined) continue;
+      url.searchParams.set(
+        key,
+        Array.isArray(value) ? value.join(",") : String(value),
+      );
+    }
+
+    return url.toString();
+  }
+
+  /**
+   * Works out how long to wait before retrying a rate limited response, or
+   * `undefined` if the response is not rate limited.
+   */
+  private rateLimitDelay(
+    response: Response,
+    data: unknown,
+  ): { waitMs: number; secondary: boolean } | undefined {
+    if (response.status !== 403 && response.status !== 429) {
+      return undefined;
+    }
+
+    const retryAfter = response.headers.get("retry-after");
+    if (retryAfter !== null) {
+      return {
+        waitMs: parseRetryAfter(retryAfter) ?? SECONDARY_RATE_LIMIT_WAIT_MS,
+        secondary: true,
+      };
+    }
+
+    const rateLimit = readRateLimit(response.headers);
+    if (rateLimit?.remaining === 0) {
+      return {
+        waitMs: Math.max(0, rateLimit.resetAt.getTime() - Date.now()) + 1000,
+        secondary: false,
+      };
+    }
+
+    const message = (data as { message?: unknown } | undefined)?.message;
+    if (typeof message === "string" && /secondary rate limit/i.test(message)) {
+      return { waitMs: SECONDARY_RATE_LIMIT_WAIT_MS, secondary: true };
+    }
+
+    return undefined;
+  }
+
+  /**
+   * Sends a request.
+   *
+   * @param route - `METHOD /path`, a path (GET), or an absolute URL such as a `next` link
+   * @param options - Path parameters, query, body, headers and abort signal
+   * @returns The parsed response
+   * @throws GithubRateLimitError if the request stays rate limited
+   * @throws GithubApiError if the API answers with an error status
+   */
+  async request<T = unknown>(
+    route: string,
+    options: GithubRequestOptions = {},
+  ): Promise<GithubResponse<T>> {
+    const match = /^([A-Z]+)\s+(.+)$/.exec(route.trim());
+    const method = match?.[1] ?? "GET";
+    const url = this.buildUrl(match?.[2] ?? route.trim(), options);
+
+    const headers: Record<string, string> = {
+      accept: "application/vnd.github+json",
+      "x-github-api-version": "2022-11-28",
+      "user-agent": this.userAgent,
+      ...(this.token && { authorization: `Bearer ${this.token}` }),
+      ...(options.body !== undefined && {
+        "content-type": "application/json; charset=utf-8",
+      }),
+    };
+
+    // Header names are case-insensitive, so `Accept` replaces the default
+    for (const [name, value] of Object.entries(options.headers ?? {})) {
+      headers[name.toLowerCase()] = value;
+    }
+
+    const key = cacheKey(url, headers);
+    const cached = method === "GET" ? this.cache?.get(key) : undefined;
+    if (cached) {
+      headers["if-none-match"] = cached.etag;
+    }
+
+    for (let attempt = 1; ; attempt++) {
+      const response = await fetch(url, {
+        method,
+        headers,
+        ...(options.body !== undefined && {
+          body: JSON.stringify(options.body),
+        }),
+        ...(options.signal && { signal: options.signal }),
+      });
+
+      const rateLimit = readRateLimit(response.headers);
+
+      if (response.status === 304 && cached) {
+        return {
+          status: 304,
+          url,
+          headers: response.headers,
+          data: cached.data as T,
+          rateLimit,
+          fromCache: true,
+        };
+      }
+
+      const data = await readBody(response);
+
+      if (response.ok) {
+        const etag = response.headers.get("etag");
+        if (method === "GET" && etag && this.cache) {
+          this.cache.set(key, { etag, data });
+        }
+
+        return {
+          status: response.status,
+          url,
+          headers: response.headers,
+          data: data as T,
+          rateLimit,
+          fromCache: false,
+        };
+      }
+
+      const apiMessage =
+        (data as { message?: unknown } | undefined)?.message ?? data;
+      const message = `${method} ${url} failed with ${response.status}${
+        typeof apiMessage === "string" && apiMessage ? `: ${apiMessage}` : ""
+      }`;
+
+      const delay = this.rateLimitDelay(response, data);
+      if (!delay) {
+        throw new GithubApiError(
+          message,
+          response.status,
+          method,
+          url,
+          data,
+          response.headers,
+        );
+      }
+
+      if (
+        attempt > this.maxRateLimitRetries ||
+        delay.waitMs > this.maxRateLimitWaitMs
+      ) {
+        throw new GithubRateLimitError(
+          message,
+          response.status,
+          method,
+          url,
+          data,
+          response.headers,
+          delay.waitMs,
+          delay.secondary,
+        );
+      }
+
+      this.onRateLimit?.({ method, url, attempt, ...delay });
+      await wait(delay.waitMs, options.signal);
+    }
+  }
+
+  /**
+   * Follows `Link: rel="next"` headers, yielding each page of results.
+   *
+   * @example
+   * ```typescript
+   * for await (const page of github.iterate<{ id: number }>(
+   *   "GET /repos/{owner}/{repo}/actions/runs",
+   * )) {
+   *   console.log(`${page.data.length} runs, ${page.rateLimit?.remaining} calls left`);
+   * }
+   * ```
+   *
+   * @param route - A GET route, see {@link GithubRestClient.request}
+   * @param options - Request options, `per_page` defaults to 100
+   * @returns Each page, with `data` narrowed to the page's items
+   */
+  async *iterate<T = unknown>(
+    route: string,
+    options: GithubRequestOptions = {},
+  ): AsyncGenerator<GithubResponse<T[]>> {
+    let next: string | undefined = route;
+    let pageOptions: GithubRequestOptions = {
+      ...options,
+      query: { per_page: 100, ...options.query },
+    };
+
+    while (next) {
+      const response: GithubResponse<unknown> = await this.request(
+        next,
+        pageOptions,
+      );
+      yield { ...response, data: pageItems<T>(response.data) };
+
+      next = parseLinkHeader(response.headers.get("link"))["next"];
+      // The next link already carries the query string
+      pageOptions = { ...pageOptions, query: {} };
+    }
+  }
+
+  /**
+   * Fetches every page of a list endpoint and returns all items.
+   *
+   * @param route - A GET route, see {@link GithubRestClient.request}
+   * @param options - Request options, `per_page` defaults to 100
+   * @returns The items of every page
+   */
+  async paginate<T = unknown>(
+    route: string,
+    options: GithubRequestOptions = {},
+  ): Promise<T[]> {
+    const items: T[] = [];
+    for await (const page of this.iterate<T>(route, options)) {
+      items.push(...page.data);
+    }
+    return items;
+  }
+}
+
+/**
+ * Creates a {@link GithubRestClient} from the workflow environment.
+ *
+ * @param options - Token, API URL, repository and rate limit overrides
+ */
+export function createGithubRestClient(
+  options?: GithubRestClientOptions,
+): GithubRestClient {
+  return new GithubRestClient(options);
+}
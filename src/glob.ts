@@ -0,0 +1,315 @@
+/**
+ * Glob pattern matching for `/` separated paths
+ */
+
+/**
+ * Options for the glob matchers.
+ */
+export type GlobOptions = {
+  /**
+   * Let wildcards match names starting with a dot, like `.github` or
+   * `.eslintrc` (default: false)
+   */
+  dot?: boolean;
+
+  /**
+   * Match letters case-sensitively (default: true)
+   */
+  caseSensitive?: boolean;
+};
+
+/**
+ * Tests a path against compiled patterns.
+ */
+export type GlobMatcher = (path: string) => boolean;
+
+/**
+ * Characters with a special meaning in regular expressions.
+ */
+const REGEXP_SPECIAL = /[$()*+.?[\\\]^{|}]/g;
+
+/**
+ * Escapes a literal for use in a regular expression.
+ */
+function escapeRegExp(text: string): string {
+  return text.replace(REGEXP_SPECIAL, "\\$&");
+}
+
+/**
+ * Finds the `}` closing the brace at `start`, or -1 if it is not closed.
+ */
+function findClosingBrace(pattern: string, start: number): number {
+  let depth = 0;
+  for (let i = start; i < pattern.length; i++) {
+    const char = pattern[i];
+    if (char === "\\") i++;
+    else if (char === "{") depth++;
+    else if (char === "}" && --depth === 0) return i;
+  }
+  return -1;
+}
+
+/**
+ * Splits the inside of a brace group on its top-level commas.
+ */
+function splitAlternatives(body: string): string[] {
+  const parts: string[] = [];
+  let depth = 0;
+  let current = "";
+
+  for (let i = 0; i < body.length; i++) {
+    const char = body.charAt(i);
+    if (char === "\\") {
+      current += char + body.charAt(++i);
+      continue;
+    }
+    if (char === "{") depth++;
+    if (char === "}") depth--;
+    if (char === "," && depth === 0) {
+      parts.push(current);
+      current = "";
+      continue;
+    }
+    current += char;
+  }
+
+  parts.push(current);
+  return parts;
+}
+
+/**
+ * Expands `{a,b}` groups into separate patterns. Groups without a comma,
+ * like `{a}`, are kept as literal text.
+ */
+function expandBraces(pattern: string): string[] {
+  for (let i = 0; i < pattern.length; i++) {
+    const char = pattern[i];
+    if (char === "\\") {
+      i++;
+      continue;
+    }
+    if (char !== "{") continue;
+
+    const end = findClosingBrace(pattern, i);
+    if (end === -1) return [pattern];
+
+    const alternatives = splitAlternatives(pattern.slice(i + 1, end));
+    if (alternatives.length < 2) continue;
+
+    const prefix = pattern.slice(0, i);
+    const suffixes = expandBraces(pattern.slice(end + 1));
+    return alternatives.flatMap((alternative) =>
+      expandBraces(prefix + alternative).flatMap((head) =>
+        suffixes.map((suffix) => head + suffix),
+      ),
+    );
+  }
+
+  return [pattern];
+}
+
+/**
+ * Converts a `[...]` class starting at `start` into a regular expression
+ * class, or returns `undefined` if the bracket is not closed.
+ */
+function compileClass(
+  segment: string,
+  start: number,
+): { source: string; end: number } | undefined {
+  let i = start + 1;
+  const negated = segment[i] === "!" || segment[i] === "^";
+  if (negated) i++;
+
+  let body = "";
+  // A `]` right after the opening bracket is a literal member
+  for (let first = true; i < segment.length; i++, first = false) {
+    const char = segment.charAt(i);
+    if (char === "]" && !first) {
+      return { source: negated ? `[^/${body}]` : `[${body}]`, end: i };
+    }
+    if (char === "\\" && i + 1 < segment.length) {
+      body += `\\${segment.charAt(++i)}`;
+    } else {
+      body += char === "^" || char === "]" || char === "[" ? `\\${char}` : char;
+    }
+  }
+
+  return undefined;
+}
+
+/**
+ * Compiles one path segment that is not a globstar.
+ */
+function compileSegment(segment: string, dot: boolean): string {
+  let source = "";
+
+  for (let i = 0; i < segment.length; i++) {
+    const char = segment.charAt(i);
+
+    if (char === "\\") {
+      source += escapeRegExp(segment.charAt(++i));
+    } else if (char === "*") {
+      while (segment[i + 1] === "*") i++;
+      source += "[^/]*";
+    } else if (char === "?") {
+      source += "[^/]";
+    } else if (char === "[") {
+      const compiled = compileClass(segment, i);
+      if (compiled) {
+        source += compiled.source;
+        i = compiled.end;
+      } else {
+        source += "\\[";
+      }
+    } else {
+      source += escapeRegExp(char);
+    }
+  }
+
+  // Wildcards at the start of a segment do not match a leading dot
+  if (!dot && /^[*?[]/.test(segment)) {
+    source = `(?!\\.)${source}`;
+  }
+
+  return source;
+}
+
+/**
+ * Compiles a brace-free pattern into a regular expression source.
+ */
+function compilePattern(pattern: string, dot: boolean): string {
+  const anySegment = dot ? "[^/]+" : "(?!\\.)[^/]+";
+  const segments = pattern.split("/");
+  let source = "";
+
+  segments.forEach((segment, index) => {
+    const last = index === segments.length - 1;
+
+    if (segment !== "**") {
+      source += compileSegment(segment, dot) + (last ? "" : "/");
+    } else if (!last) {
+      source += `(?:${anySegment}/)*`;
+    } else if (source.endsWith("/")) {
+      // `dir/**` also matches `dir` itself
+      source = `${source.slice(0, -1)}(?:/${anySegment})*`;
+    } else {
+      source += `${anySegment}(?:/${anySegment})*`;
+    }
+  });
+
+  return source;
+}
+
+/**
+ * Removes a leading `./` and trailing slashes from a path.
+ */
+function normalizePath(path: string): string {
+  return path.replace(/^(?:\.\/)+/, "").replace(/\/+$/, "");
+}
+
+/**
+ * Compiles a glob pattern into a regular expression matching whole paths.
+ *
+ * Supports `*` and `?` within a path segment, `**` across segments,
+ * `{a,b}` alternatives (nested too), `[abc]`, `[a-z]` and `[!a]` classes and
+ * `\` escapes. A trailing `/` matches everything below a directory. A leading
+ * `!` is not special here; {@link createGlobMatcher} handles negation.
+ *
+ * @example
+ * ```typescript
+ * const re = globToRegExp("src/**\/*.{ts,tsx}");
+ * re.test("src/components/button.tsx"); // true
+ * re.test("src/.cache/tmp.ts"); // false, dot directories need { dot: true }
+ * ```
+ *
+ * @param pattern - The glob pattern
+ * @param options - Dot file and case sensitivity settings
+ * @returns A regular expression anchored at both ends
+ */
+export function globToRegExp(
+  pattern: string,
+  options: GlobOptions = {},
+): RegExp {
+  const { dot = false, caseSensitive = true } = options;
+
+  let normalized = pattern.replace(/^(?:\.\/)+/, "");
+  if (normalized.endsWith("/")) normalized += "**";
+
+  const sources = expandBraces(normalized).map((expanded) =>
+    compilePattern(expanded, dot),
+  );
+
+  return new RegExp(`^(?:${sources.join("|")})$`, caseSensitive ? "" : "i");
+}
+
+/**
+ * Compiles a list of patterns into a reusable matcher.
+ *
+ * Patterns starting with `!` exclude paths. The patterns are applied in
+ * order and the last one matching a path decides, so a later pattern can
+ * re-include what an earlier negation excluded. When the first pattern is a
+ * negation, paths start out included.
+ *
+ * @example
+ * ```typescript
+ * const isApiSource = createGlobMatcher(["packages/api/**", "!**\/*.md"]);
+ * isApiSource("packages/api/src/index.ts"); // true
+ * isApiSource("packages/api/README.md"); // false
+ * ```
+ *
+ * @param patterns - One or more glob patterns
+ * @param options - Dot file and case sensitivity settings
+ * @returns A function testing a path against the patterns
+ */
+export function createGlobMatcher(
+  patterns: string | readonly string[],
+  options?: GlobOptions,
+): GlobMatcher {
+  const list = typeof patterns === "string" ? [patterns] : patterns;
+  const compiled = list
+    .filter((pattern) => pattern !== "" && pattern !== "!")
+    .map((pattern) => {
+      const negated = pattern.startsWith("!");
+      return {
+        negated,
+        regexp: globToRegExp(negated ? pattern.slice(1) : pattern, options),
+      };
+    });
+
+  const initial = compiled[0]?.negated ?? false;
+
+  return (path) => {
+    const normalized = normalizePath(path);
+    let matched = initial;
+
+    for (const { negated, regexp } of compiled) {
+      if (matched === !negated) continue;
+      if (regexp.test(normalized)) matched = !negated;
+    }
+
+    return matched;
+  };
+}
+
+/**
+ * Tests a path against one or more glob patterns, see
+ * {@link createGlobMatcher} for how negated patterns are applied.
+ *
+ * @example
+ * ```typescript
+ * matchGlob(".github/workflows/ci.yml", ".github/**", { dot: true }); // true
+ * matchGlob("docs/guide.md", ["**", "!docs/**"]); // false
+ * ```
+ *
+ * @param path - A `/` separated path, relative to the same root as the patterns
+ * @param patterns - One or more glob patterns
+ * @param options - Dot file and case sensitivity settings
+ * @returns Whether the path matches
+ */
+export function matchGlob(
+  path: string,
+  patterns: string | readonly string[],
+  options?: GlobOptions,
+): boolean {
+  return createGlobMatcher(patterns, options)(path);
+}
@@ -1,7 +1,27 @@
 export * from "./ci.js";
+export * from "./ci-providers.js";
 export * from "./command.js";
 export * from "./env.js";
+export * from "./git.js";
+export * from "./github-ci-action-metadata.js";
+export * from "./github-ci-commands.js";
+export * from "./github-ci-context.js";
+export * from "./github-ci-file-commands.js";
+export * from "./github-ci-inputs.js";
+export * from "./github-ci-paths-filter.js";
+export * from "./github-ci-payload-fixtures.js";
+export * from "./github-ci-payload-validation.js";
 export * from "./github-ci-payloads.js"
+export * from "./github-ci-pull-request.js";
+export * from "./github-ci-router.js";
+export * from "./github-ci-sandbox.js";
 export * from "./github-ci-security.js";
+export * from "./github-ci-summary.js";
 export * from "./github-ci-variables.js";
-export * from "./safe-run.js";
\ No newline at end of file
+export * from "./github-graphql.js";
+export * from "./github-rest.js";
+export * from "./glob.js";
+export * from "./safe-run.js";
+export * from "./shutdown.js";
+export * from "./which.js";
+export * from "./yaml.js";
\ No newline at end of file
@@ -1,17 +1,77 @@
+import {
+  installShutdownHandlers,
+  isShuttingDown,
+  onShutdown,
+} from "./shutdown.js";
+
 /**
  * Callback that can return nothing or a promise to await
  */
 export type PromisableCallback = () => void | Promise<void>;
 
+/**
+ * Main safeRun callback. Receives a signal that aborts when the run times
+ * out, is cancelled from outside or the process receives SIGINT/SIGTERM.
+ */
+export type SafeRunCallback<T = void> = (signal: AbortSignal) => T | Promise<T>;
+
 /**
  * Error-aware callback that receives the error that caused the failure
  */
 export type ErrorCallback = (error: Error) => void | Promise<void>;
 
+/**
+ * Timing details about a safeRun, passed to `onAfter` and `onFinally`
+ */
+export type SafeRunMeta = {
+  /**
+   * When the main callback started, in milliseconds since the epoch
+   */
+  startedAt: number;
+
+  /**
+   * Time spent in the main callback, including retries and their delays
+   */
+  durationMs: number;
+
+  /**
+   * How many times the main callback was called, 0 if it never ran
+   */
+  attempts: number;
+};
+
+/**
+ * Callback run after the main callback succeeds, with its return value
+ */
+export type AfterCallback<T> = (
+  result: T,
+  meta: SafeRunMeta,
+) => void | Promise<void>;
+
+/**
+ * Callback that always runs last. Receives the error the run failed with,
+ * or `undefined` if it succeeded.
+ */
+export type FinallyCallback = (
+  error: Error | undefined,
+  meta: SafeRunMeta,
+) => void | Promise<void>;
+
+/**
+ * What to do when a lifecycle hook throws:
+ * - `fail` - the hook error fails the run, unless the run already failed, in
+ *   which case the original error is kept and the hook error is written to
+ *   stderr
+ * - `aggregate` - keep going, then throw an AggregateError holding the run's
+ *   error (if any) followed by every hook error
+ * - `ignore` - discard hook errors
+ */
+export type HookErrorPolicy = "fail" | "aggregate" | "ignore";
+
 /**
  * Additional options to change the behaviour of safe run
  */
-export type SafeRunOptions = {
+export type SafeRunOptions<T = void> = {
   /**
    * Run custom logic when the main callback operation fails (i.e., throws an error).
    * Receives the error that caused the failure.
@@ -25,8 +85,22 @@ export type SafeRunOptions = {
 
   /**
    * Run custom logic after the main callback operation has run without throwing an error.
+   * Receives the callback's return value and timing details.
+   */
+  onAfter?: AfterCallback<T>;
+
+  /**
+   * Run custom logic once the run is over, whether it succeeded or failed.
+   * Runs after `onAfter`/`onFail` and before the process exits.
    */
-  onAfter?: PromisableCallback;
+  onFinally?: FinallyCallback;
+
+  /**
+   * How errors thrown by `onBefore`, `onAfter`, `onFail` and `onFinally`
+   * are handled (default: `fail`). An error from the main callback is never
+   * replaced by a hook error.
+   */
+  hookErrors?: HookErrorPolicy;
 
   /**
    * Whether to end the process if the main callback throws an error.
@@ -41,10 +115,119 @@ export type SafeRunOptions = {
   /**
    * Timeout in milliseconds for the main callback execution.
    * If the callback exceeds this time, it will be aborted with a TimeoutError.
+   * When retrying, this is the deadline for all attempts together.
    */
   timeoutMs?: number;
+
+  /**
+   * Retry the main callback when it throws.
+   */
+  retry?: RetryOptions;
+
+  /**
+   * Cancel the run from outside. The callback's signal aborts and the run
+   * fails with a CancelledError.
+   */
+  signal?: AbortSignal;
+
+  /**
+   * Cancel the run when the process receives one of these signals
+   * (default: `["SIGINT", "SIGTERM"]`). Pass `false` to leave process signals
+   * alone. The signal goes through the shutdown manager: child commands get
+   * the signal, `onFail` and `onFinally` run with a CancelledError, the
+   * other shutdown handlers run and the process exits with 128 + the signal
+   * number. A second signal exits straight away.
+   */
+  cancelOnSignals?: NodeJS.Signals[] | false;
+
+  /**
+   * After a timeout or cancellation, wait up to this many milliseconds for
+   * the callback to settle before the failure hooks run (default: 0).
+   */
+  settleGraceMs?: number;
+};
+
+/**
+ * Error used when a run is cancelled from outside or by a process signal
+ */
+export class CancelledError extends Error {
+  constructor(
+    message: string,
+    public readonly signal?: NodeJS.Signals,
+  ) {
+    super(message);
+    this.name = "CancelledError";
+  }
+}
+
+/**
+ * How the delay between retry attempts grows:
+ * - `fixed` - always wait `initialDelayMs`
+ * - `exponential` - wait `initialDelayMs * factor^(n - 1)` after the nth failure
+ * - `decorrelated-jitter` - wait a random time between `initialDelayMs` and
+ *   three times the previous delay, which spreads out concurrent retries
+ */
+export type BackoffStrategy = "fixed" | "exponential" | "decorrelated-jitter";
+
+/**
+ * Options controlling how an operation is retried.
+ */
+export type RetryOptions = {
+  /**
+   * Total number of attempts, including the first one (default: 3)
+   */
+  maxAttempts?: number;
+
+  /**
+   * How the delay between attempts grows (default: `exponential`)
+   */
+  backoff?: BackoffStrategy;
+
+  /**
+   * Delay before the first retry in milliseconds (default: 1000)
+   */
+  initialDelayMs?: number;
+
+  /**
+   * Upper bound for any single delay in milliseconds (default: 30000)
+   */
+  maxDelayMs?: number;
+
+  /**
+   * Growth factor for `exponential` backoff (default: 2)
+   */
+  factor?: number;
+
+  /**
+   * Timeout in milliseconds for each individual attempt. An attempt that runs
+   * longer fails with a TimeoutError and may be retried.
+   */
+  attemptTimeoutMs?: number;
+
+  /**
+   * Decide whether an error is worth retrying. All errors are retried by default.
+   */
+  retryIf?: (error: Error, attempt: number) => boolean | Promise<boolean>;
+
+  /**
+   * Called before waiting for the next attempt.
+   */
+  onRetry?: (
+    error: Error,
+    attempt: number,
+    delayMs: number,
+  ) => void | Promise<void>;
 };
 
+/**
+ * Callback run once per attempt. Receives the 1-based attempt number and a
+ * signal that aborts when the attempt times out or the retry is cancelled.
+ */
+export type RetryCallback<T> = (
+  attempt: number,
+  signal: AbortSignal,
+) => T | Promise<T>;
+
 /**
  * Custom error class for timeout scenarios
  */
@@ -84,19 +267,272 @@ function createTimeoutPromise(ms: number): {
   return { timeoutPromise, clear };
 }
 
+/**
+ * Normalises an unknown thrown value into an Error.
+ */
+function toError(error: unknown): Error {
+  return error instanceof Error ? error : new Error(String(error));
+}
+
+/**
+ * Works out how long to wait before the next attempt.
+ *
+ * @example
+ * ```typescript
+ * getRetryDelay("exponential", 3, 2000, { initialDelayMs: 500 }); // 2000
+ * ```
+ *
+ * @param strategy - The backoff strategy
+ * @param failedAttempts - How many attempts have failed so far (1 or more)
+ * @param previousDelayMs - The delay used before the previous attempt, or 0
+ * @param options - Delay settings from {@link RetryOptions}
+ * @returns The delay in milliseconds
+ */
+export function getRetryDelay(
+  strategy: BackoffStrategy,
+  failedAttempts: number,
+  previousDelayMs: number,
+  options: Pick<RetryOptions, "initialDelayMs" | "maxDelayMs" | "factor"> = {},
+): number {
+  const { initialDelayMs = 1000, maxDelayMs = 30000, factor = 2 } = options;
+
+  let delay: number;
+  switch (strategy) {
+    case "fixed":
+      delay = initialDelayMs;
+      break;
+    case "exponential":
+      delay = initialDelayMs * Math.pow(factor, failedAttempts - 1);
+      break;
+    case "decorrelated-jitter": {
+      const upper = Math.max(initialDelayMs, previousDelayMs * 3);
+      delay = initialDelayMs + Math.random() * (upper - initialDelayMs);
+      break;
+    }
+  }
+
+  return Math.round(Math.min(maxDelayMs, delay));
+}
+
+/**
+ * Waits for the given time, rejecting early if the signal aborts.
+ */
+function sleep(ms: number, signal?: AbortSignal): Promise<void> {
+  return new Promise((resolve, reject) => {
+    if (signal?.aborted) {
+      reject(toError(signal.reason));
+      return;
+    }
+
+    const onAbort = () => {
+      clearTimeout(timeoutId);
+      reject(toError(signal?.reason));
+    };
+
+    const timeoutId = setTimeout(() => {
+      signal?.removeEventListener("abort", onAbort);
+      resolve();
+    }, ms);
+
+    signal?.addEventListener("abort", onAbort, { once: true });
+  });
+}
+
+/**
+ * Runs a single attempt, failing it with a TimeoutError after `timeoutMs`.
+ */
+async function runAttempt<T>(
+  callback: RetryCallback<T>,
+  attempt: number,
+  timeoutMs: number | undefined,
+  signal?: AbortSignal,
+): Promise<T> {
+  const controller = new AbortController();
+  const onAbort = () => controller.abort(signal?.reason);
+  signal?.addEventListener("abort", onAbort, { once: true });
+
+  try {
+    if (!timeoutMs || timeoutMs <= 0) {
+      return await callback(attempt, controller.signal);
+    }
+
+    const { timeoutPromise, clear } = createTimeoutPromise(timeoutMs);
+    try {
+      return await Promise.race([
+        callback(attempt, controller.signal),
+        timeoutPromise.catch((error: unknown) => {
+          controller.abort(error);
+          throw error;
+        }),
+      ]);
+    } finally {
+      clear();
+    }
+  } finally {
+    signal?.removeEventListener("abort", onAbort);
+  }
+}
+
+/**
+ * Runs a callback, retrying it with backoff when it throws.
+ *
+ * @example
+ * ```typescript
+ * const data = await retry(
+ *   async (attempt, signal) => {
+ *     const response = await fetch(url, { signal });
+ *     if (!response.ok) throw new Error(`HTTP ${response.status}`);
+ *     return response.json();
+ *   },
+ *   {
+ *     maxAttempts: 5,
+ *     backoff: "decorrelated-jitter",
+ *     attemptTimeoutMs: 10_000,
+ *     onRetry: (err, attempt, delay) =>
+ *       console.log(`Attempt ${attempt} failed (${err.message}), retrying in ${delay}ms`),
+ *   },
+ * );
+ * ```
+ *
+ * @param callback - The operation to run
+ * @param options - Retry settings
+ * @param signal - Optional signal that stops further attempts when aborted
+ * @returns The value of the first successful attempt
+ * @throws The error of the last attempt once no more attempts are allowed
+ */
+export async function retry<T>(
+  callback: RetryCallback<T>,
+  options: RetryOptions = {},
+  signal?: AbortSignal,
+): Promise<T> {
+  const {
+    maxAttempts = 3,
+    backoff = "exponential",
+    attemptTimeoutMs,
+    retryIf,
+    onRetry,
+  } = options;
+
+  let previousDelay = 0;
+
+  for (let attempt = 1; ; attempt++) {
+    try {
+      return await runAttempt(callback, attempt, attemptTimeoutMs, signal);
+    } catch (error) {
+      const err = toError(error);
+
+      if (
+        attempt >= maxAttempts ||
+        signal?.aborted ||
+        (retryIf && !(await retryIf(err, attempt)))
+      ) {
+        throw err;
+      }
+
+      const delay = getRetryDelay(backoff, attempt, previousDelay, options);
+      previousDelay = delay;
+
+      if (onRetry) {
+        await onRetry(err, attempt, delay);
+      }
+
+      await sleep(delay, signal);
+    }
+  }
+}
+
+/**
+ * Runs the main callback with timeout, retry and cancellation applied.
+ * Aborting `cancelSignal` fails the run with the signal's reason.
+ */
+async function runMain<T>(
+  callback: SafeRunCallback<T>,
+  options: SafeRunOptions<T>,
+  cancelSignal: AbortSignal,
+  onAttempt: (attempt: number) => void,
+): Promise<T> {
+  const { timeoutMs, retry: retryOptions, settleGraceMs = 0 } = options;
+
+  const controller = new AbortController();
+  let timeoutId: ReturnType<typeof setTimeout> | undefined;
+
+  const onCancel = () => controller.abort(cancelSignal.reason);
+
+  if (cancelSignal.aborted) {
+    onCancel();
+  } else {
+    cancelSignal.addEventListener("abort", onCancel, { once: true });
+  }
+
+  if (timeoutMs && timeoutMs > 0) {
+    timeoutId = setTimeout(() => {
+      controller.abort(
+        new TimeoutError(`Operation timed out after ${timeoutMs}ms`, timeoutMs),
+      );
+    }, timeoutMs);
+  }
+
+  const main = retryOptions
+    ? retry(
+        (attempt, attemptSignal) => {
+          onAttempt(attempt);
+          return callback(attemptSignal);
+        },
+        retryOptions,
+        controller.signal,
+      )
+    : Promise.resolve().then(() => {
+        onAttempt(1);
+        return callback(controller.signal);
+      });
+
+  const aborted = new Promise<never>((_, reject) => {
+    const rejectWithReason = () => reject(toError(controller.signal.reason));
+    if (controller.signal.aborted) {
+      rejectWithReason();
+    } else {
+      controller.signal.addEventListener("abort", rejectWithReason, {
+        once: true,
+      });
+    }
+  });
+
+  try {
+    return await Promise.race([main, aborted]);
+  } catch (error) {
+    if (controller.signal.aborted && settleGraceMs > 0) {
+      // Give the callback a chance to observe the abort and clean up
+      await Promise.race([main.catch(() => {}), sleep(settleGraceMs)]);
+    }
+
+    throw error;
+  } finally {
+    clearTimeout(timeoutId);
+    cancelSignal.removeEventListener("abort", onCancel);
+  }
+}
+
 /**
  * Safely executes an asynchronous callback with lifecycle hooks and error handling.
  *
  * Provides a structured way to run async operations with optional hooks for
- * setup (onBefore), success (onAfter), failure (onFail), and cleanup (onLast).
+ * setup (onBefore), success (onAfter), failure (onFail), and cleanup (onFinally).
  * Supports optional process exit on failure with configurable exit codes.
- * Includes timeout support and robust error handling for all hooks.
+ * Includes timeout support, and `hookErrors` decides how errors thrown by the
+ * hooks are handled so they never hide the callback's own error.
+ * With `retry` set, the callback is retried with backoff before `onFail` runs.
+ *
+ * The callback receives an AbortSignal that fires on timeout, on external
+ * cancellation and on SIGINT/SIGTERM. Pass it on to `fetch`, `execCommand`
+ * and similar APIs so work actually stops instead of running in the background.
  *
  * @param callback - The main async function to execute safely
  * @param options - Configuration options for lifecycle hooks and error handling
- * @returns A promise that resolves when execution completes, or rejects if the callback fails
+ * @returns A promise that resolves with the callback's return value, or rejects if the run fails
  * @throws Re-throws the original error if `exitOnFailed` is false and the callback fails
  * @throws TimeoutError if the operation exceeds the configured timeout
+ * @throws CancelledError if the run is cancelled through `signal` or a process signal
+ * @throws AggregateError if `hookErrors` is `aggregate` and a hook threw
  *
  * @example
  * ```typescript
@@ -108,63 +544,188 @@ function createTimeoutPromise(ms: number): {
  *     onBefore: () => console.log('Starting...'),
  *     onAfter: () => console.log('Success!'),
  *     onFail: (err) => console.log('Failed:', err.message),
+ *     onFinally: () => console.log('Done'),
  *     exitOnFailed: true,
  *     exitFailCode: 1,
  *     timeoutMs: 5000
  *   }
  * );
  * ```
+ *
+ * @example
+ * ```typescript
+ * // Use the callback's result and timing
+ * const version = await safeRun(() => readVersion(), {
+ *   onAfter: (version, { durationMs, attempts }) =>
+ *     console.log(`Read ${version} in ${durationMs}ms after ${attempts} attempt(s)`),
+ *   hookErrors: "aggregate",
+ * });
+ * ```
+ *
+ * @example
+ * ```typescript
+ * // Retry a flaky install up to 4 times, 2 minutes per attempt, 10 minutes overall
+ * await safeRun(() => runCommand("npm", ["ci"], {}, 600), {
+ *   timeoutMs: 10 * 60 * 1000,
+ *   retry: {
+ *     maxAttempts: 4,
+ *     backoff: "exponential",
+ *     attemptTimeoutMs: 2 * 60 * 1000,
+ *     onRetry: (err, attempt) => console.log(`Attempt ${attempt} failed: ${err.message}`),
+ *   },
+ * });
+ * ```
+ *
+ * @example
+ * ```typescript
+ * // Stop the child process when the run times out or the job is cancelled
+ * await safeRun(
+ *   (signal) => execCommand("npm", ["run", "e2e"], { signal, stdout: "inherit" }),
+ *   { timeoutMs: 30 * 60 * 1000, settleGraceMs: 10_000 },
+ * );
+ * ```
  */
-export async function safeRun(
-  callback: PromisableCallback,
-  options: SafeRunOptions = {},
-): Promise<void> {
+export async function safeRun<T = void>(
+  callback: SafeRunCallback<T>,
+  options: SafeRunOptions<T> = {},
+): Promise<T> {
   const {
     onBefore,
     onAfter,
     onFail,
+    onFinally,
+    hookErrors = "fail",
     exitOnFailed = false,
     exitFailCode = 1,
-    timeoutMs,
+    signal: externalSignal,
+    cancelOnSignals = ["SIGINT", "SIGTERM"],
   } = options;
 
-  let mainError: Error | null = null;
+  const hookFailures: Error[] = [];
+  const meta: SafeRunMeta = { startedAt: 0, durationMs: 0, attempts: 0 };
+  let runError: Error | undefined;
+  let result: T | undefined;
+
+  const cancellation = new AbortController();
+  const onExternalAbort = () =>
+    cancellation.abort(new CancelledError("Operation was cancelled"));
+
+  // Resolves once the hooks have run, so shutdown can wait for them
+  let markSettled = () => {};
+  const settled = new Promise<void>((resolve) => {
+    markSettled = resolve;
+  });
+
+  const uninstallShutdown = cancelOnSignals
+    ? installShutdownHandlers({ signals: cancelOnSignals })
+    : undefined;
+  const removeShutdownHandler = cancelOnSignals
+    ? onShutdown(
+        (signal) => {
+          cancellation.abort(new CancelledError(`Received ${signal}`, signal));
+          return settled;
+        },
+        { name: "safeRun", priority: Number.MAX_SAFE_INTEGER },
+      )
+    : undefined;
+
+  // Applies the hook error policy; only rethrows under "fail"
+  const runHook = async (hook: () => void | Promise<void>) => {
+    try {
+      await hook();
+    } catch (error) {
+      if (hookErrors === "fail") throw toError(error);
+      if (hookErrors === "aggregate") hookFailures.push(toError(error));
+    }
+  };
 
   try {
     if (onBefore) {
-      await onBefore();
+      await runHook(onBefore);
     }
 
-    if (timeoutMs && timeoutMs > 0) {
-      const { timeoutPromise, clear } = createTimeoutPromise(timeoutMs);
-
-      try {
-        await Promise.race([callback(), timeoutPromise]);
-      } finally {
-        clear();
-      }
+    if (externalSignal?.aborted) {
+      onExternalAbort();
     } else {
-      await callback();
+      externalSignal?.addEventListener("abort", onExternalAbort, {
+        once: true,
+      });
+    }
+
+    meta.startedAt = Date.now();
+    try {
+      result = await runMain(
+        callback,
+        options,
+        cancellation.signal,
+        (attempt) => {
+          meta.attempts = attempt;
+        },
+      );
+    } finally {
+      meta.durationMs = Date.now() - meta.startedAt;
+      externalSignal?.removeEventListener("abort", onExternalAbort);
     }
 
     // Run after hook on success
     if (onAfter) {
-      await onAfter();
+      await runHook(() => onAfter(result as T, meta));
     }
   } catch (error) {
-    mainError = error instanceof Error ? error : new Error(String(error));
+    runError = toError(error);
 
-    // Run fail hook with error context
+    // Run fail hook with error context, the original error always wins
     if (onFail) {
-      await onFail(mainError);
+      const failedWith = runError;
+      await runHook(() => onFail(failedWith)).catch((error: Error) => {
+        console.warn(`safeRun onFail hook failed: ${error.message}`);
+      });
     }
+  }
+
+  if (onFinally) {
+    const failedWith = runError;
+    await runHook(() => onFinally(failedWith, meta)).catch((error: Error) => {
+      if (runError) {
+        console.warn(`safeRun onFinally hook failed: ${error.message}`);
+      } else {
+        runError = error;
+      }
+    });
+  }
 
+  removeShutdownHandler?.();
+  uninstallShutdown?.();
+  markSettled();
+
+  if (
+    runError instanceof CancelledError &&
+    runError.signal &&
+    isShuttingDown()
+  ) {
+    // The shutdown manager exits the process once its handlers are done
+    return new Promise<never>(() => {});
+  }
+
+  const finalError =
+    hookFailures.length > 0
+      ? new AggregateError(
+          runError ? [runError, ...hookFailures] : hookFailures,
+          runError
+            ? `${runError.message} (and ${hookFailures.length} hook error(s))`
+            : `${hookFailures.length} safeRun hook(s) failed`,
+        )
+      : runError;
+
+  if (finalError) {
     // Exit process if configured to do so
     if (exitOnFailed) {
       process.exit(exitFailCode);
     }
 
     // Re-throw the error so caller can handle it if process doesn't exit
-    throw mainError;
+    throw finalError;
   }
+
+  return result as T;
 }
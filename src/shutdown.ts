@@ -0,0 +1,306 @@
+/**
+ * Graceful shutdown when the runner cancels a job.
+ *
+ * On cancellation the runner sends SIGINT, then SIGTERM about 7.5 seconds
+ * later and finally SIGKILL, so cleanup has to be quick and bounded.
+ */
+
+import { constants } from "node:os";
+
+/**
+ * Cleanup logic run when the process is shutting down because of a signal
+ */
+export type ShutdownHandler = (signal: NodeJS.Signals) => void | Promise<void>;
+
+/**
+ * Options for {@link onShutdown}.
+ */
+export type ShutdownHandlerOptions = {
+  /**
+   * Name used when reporting a failed or slow handler
+   */
+  name?: string;
+
+  /**
+   * Handlers with a higher priority run first (default: 0). Handlers with the
+   * same priority run concurrently.
+   */
+  priority?: number;
+
+  /**
+   * How long (in milliseconds) the handler may take before shutdown moves on
+   * without it (default: 5000)
+   */
+  timeoutMs?: number;
+};
+
+/**
+ * Options for {@link installShutdownHandlers}.
+ */
+export type ShutdownOptions = {
+  /**
+   * Signals that start a shutdown (default: `["SIGINT", "SIGTERM"]`)
+   */
+  signals?: NodeJS.Signals[];
+};
+
+/**
+ * How a single handler finished during shutdown.
+ */
+export type ShutdownHandlerResult = {
+  name: string;
+  status: "fulfilled" | "rejected" | "timeout";
+  error?: Error;
+};
+
+type RegisteredHandler = Required<ShutdownHandlerOptions> & {
+  handler: ShutdownHandler;
+};
+
+const handlers = new Set<RegisteredHandler>();
+const children = new Set<(signal: NodeJS.Signals) => void>();
+const listenerCounts = new Map<NodeJS.Signals, number>();
+let exitingWith: NodeJS.Signals | undefined;
+
+/**
+ * The conventional exit code of a process killed by a signal: 128 plus the
+ * signal number, e.g. 130 for SIGINT and 143 for SIGTERM.
+ *
+ * @example
+ * ```typescript
+ * getSignalExitCode("SIGTERM"); // 143
+ * ```
+ *
+ * @param signal - The signal name
+ * @returns The exit code
+ */
+export function getSignalExitCode(signal: NodeJS.Signals): number {
+  return 128 + (constants.signals[signal] ?? 0);
+}
+
+/**
+ * Whether the process is exiting because it received a shutdown signal.
+ */
+export function isShuttingDown(): boolean {
+  return exitingWith !== undefined;
+}
+
+/**
+ * Registers a cleanup handler to run on shutdown.
+ *
+ * Handlers only run once {@link installShutdownHandlers} is listening for
+ * signals; `safeRun` installs it for the duration of every run.
+ *
+ * @example
+ * ```typescript
+ * const dispose = onShutdown(
+ *   async () => {
+ *     await uploadPartialResults();
+ *   },
+ *   { name: "upload results", priority: 10, timeoutMs: 3000 },
+ * );
+ *
+ * // Later, once the handler is no longer needed
+ * dispose();
+ * ```
+ *
+ * @param handler - Called with the signal that started the shutdown
+ * @param options - Name, priority and time budget
+ * @returns A function that unregisters the handler
+ */
+export function onShutdown(
+  handler: ShutdownHandler,
+  options: ShutdownHandlerOptions = {},
+): () => void {
+  const registered: RegisteredHandler = {
+    handler,
+    name: options.name ?? (handler.name || "anonymous"),
+    priority: options.priority ?? 0,
+    timeoutMs: options.timeoutMs ?? 5000,
+  };
+
+  handlers.add(registered);
+  return () => {
+    handlers.delete(registered);
+  };
+}
+
+/**
+ * Registers a running child process so shutdown signals are forwarded to
+ * it. Commands started with `execCommand` and `runCommand` are tracked
+ * automatically.
+ *
+ * @param forward - Sends a signal to the child, or its process group
+ * @returns A function that stops tracking the child
+ */
+export function trackChildProcess(
+  forward: (signal: NodeJS.Signals) => void,
+): () => void {
+  children.add(forward);
+  return () => {
+    children.delete(forward);
+  };
+}
+
+/**
+ * Sends a signal to every tracked child process.
+ */
+function forwardSignal(signal: NodeJS.Signals): void {
+  for (const forward of children) {
+    try {
+      forward(signal);
+    } catch {
+      // The child already exited
+    }
+  }
+}
+
+/**
+ * Runs one handler within its time budget.
+ */
+async function runHandler(
+  registered: RegisteredHandler,
+  signal: NodeJS.Signals,
+): Promise<ShutdownHandlerResult> {
+  let timeoutId: ReturnType<typeof setTimeout> | undefined;
+
+  const timedOut = new Promise<ShutdownHandlerResult>((resolve) => {
+    timeoutId = setTimeout(
+      () => resolve({ name: registered.name, status: "timeout" }),
+      registered.timeoutMs,
+    );
+  });
+
+  const finished = Promise.resolve()
+    .then(() => registered.handler(signal))
+    .then(
+      (): ShutdownHandlerResult => ({
+        name: registered.name,
+        status: "fulfilled",
+      }),
+      (error: unknown): ShutdownHandlerResult => ({
+        name: registered.name,
+        status: "rejected",
+        error: error instanceof Error ? error : new Error(String(error)),
+      }),
+    );
+
+  try {
+    return await Promise.race([finished, timedOut]);
+  } finally {
+    clearTimeout(timeoutId);
+  }
+}
+
+/**
+ * Runs every registered handler, highest priority first. Handlers sharing a
+ * priority run concurrently and each is cut off after its `timeoutMs`.
+ *
+ * This does not exit the process, which makes it useful for tests and for
+ * shutting down on something other than a signal.
+ *
+ * @param signal - The signal passed on to handlers
+ * @returns How each handler finished, in the order they were started
+ */
+export async function runShutdownHandlers(
+  signal: NodeJS.Signals,
+): Promise<ShutdownHandlerResult[]> {
+  const byPriority = new Map<number, RegisteredHandler[]>();
+  for (const registered of handlers) {
+    const group = byPriority.get(registered.priority) ?? [];
+    group.push(registered);
+    byPriority.set(registered.priority, group);
+  }
+
+  const results: ShutdownHandlerResult[] = [];
+  const priorities = [...byPriority.keys()].sort((a, b) => b - a);
+
+  for (const priority of priorities) {
+    const group = byPriority.get(priority) ?? [];
+    results.push(
+      ...(await Promise.all(group.map((item) => runHandler(item, signal)))),
+    );
+  }
+
+  return results;
+}
+
+/**
+ * Handles a shutdown signal: forwards it to child processes, runs the
+ * handlers and exits with 128 + the signal number. A second signal while
+ * shutting down exits straight away.
+ */
+async function handleSignal(signal: NodeJS.Signals): Promise<never> {
+  forwardSignal(signal);
+
+  if (exitingWith) {
+    process.exit(getSignalExitCode(signal));
+  }
+
+  exitingWith = signal;
+  const results = await runShutdownHandlers(signal);
+
+  for (const result of results) {
+    if (result.status === "timeout") {
+      process.stderr.write(
+        `Shutdown handler "${result.name}" did not finish in time\n`,
+      );
+    } else if (result.status === "rejected") {
+      process.stderr.write(
+        `Shutdown handler "${result.name}" failed: ${result.error?.message}\n`,
+      );
+    }
+  }
+
+  process.exit(getSignalExitCode(signal));
+}
+
+/**
+ * Starts listening for shutdown signals. When one arrives, it is forwarded
+ * to tracked child processes, the registered handlers run, and the process
+ * exits with the conventional 128 + signal code.
+ *
+ * Installing is reference counted, so the listeners are removed once every
+ * caller has uninstalled.
+ *
+ * @example
+ * ```typescript
+ * const uninstall = installShutdownHandlers();
+ * onShutdown(() => server.close(), { name: "server" });
+ *
+ * await serveUntilDone();
+ * uninstall();
+ * ```
+ *
+ * @param options - The signals to listen for
+ * @returns A function that removes the listeners again
+ */
+export function installShutdownHandlers(
+  options: ShutdownOptions = {},
+): () => void {
+  const { signals = ["SIGINT", "SIGTERM"] } = options;
+
+  for (const signal of signals) {
+    const count = listenerCounts.get(signal) ?? 0;
+    if (count === 0) {
+      process.on(signal, handleSignal);
+    }
+    listenerCounts.set(signal, count + 1);
+  }
+
+  let installed = true;
+  return () => {
+    if (!installed) return;
+    installed = false;
+
+    for (const signal of signals) {
+      const count = (listenerCounts.get(signal) ?? 1) - 1;
+      listenerCounts.set(signal, count);
+
+      // Keep listening while shutting down so a second signal exits at once
+      if (count === 0 && !exitingWith) {
+        process.removeListener(signal, handleSignal);
+      }
+    }
+  };
+}
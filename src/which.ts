@@ -0,0 +1,144 @@
+/**
+ * Executable lookup on PATH, similar to `which` / `where`
+ */
+
+import { accessSync, constants, statSync } from "node:fs";
+import { extname, isAbsolute, join, resolve } from "node:path";
+import type { CIDetectionOptions } from "./ci.js";
+import { getEnv } from "./env.js";
+
+/**
+ * Options for {@link which}.
+ */
+export type WhichOptions = CIDetectionOptions & {
+  /**
+   * Directory relative command paths are resolved against (default: `process.cwd()`)
+   */
+  cwd?: string;
+
+  /**
+   * Platform rules to apply (default: `process.platform`)
+   */
+  platform?: NodeJS.Platform;
+};
+
+/**
+ * Reads an environment variable, ignoring case on Windows where `Path` and
+ * `PATH` are the same variable.
+ */
+function readEnvVar(
+  env: NodeJS.ProcessEnv,
+  name: string,
+  platform: NodeJS.Platform,
+): string | undefined {
+  if (platform !== "win32") {
+    return env[name];
+  }
+
+  const key = Object.keys(env).find(
+    (candidate) => candidate.toUpperCase() === name,
+  );
+  return key ? env[key] : undefined;
+}
+
+/**
+ * Whether a path is a file this process can execute.
+ */
+function isExecutable(path: string, platform: NodeJS.Platform): boolean {
+  try {
+    if (!statSync(path).isFile()) return false;
+    if (platform !== "win32") accessSync(path, constants.X_OK);
+    return true;
+  } catch {
+    return false;
+  }
+}
+
+/**
+ * The file names to try for a command. On Windows every `PATHEXT` extension
+ * is tried, unless the command already ends in one of them, and then the
+ * bare name, the same order `where` uses.
+ */
+function candidateNames(
+  command: string,
+  env: NodeJS.ProcessEnv,
+  platform: NodeJS.Platform,
+): string[] {
+  if (platform !== "win32") {
+    return [command];
+  }
+
+  const pathExt = (
+    readEnvVar(env, "PATHEXT", platform) ?? ".COM;.EXE;.BAT;.CMD"
+  )
+    .split(";")
+    .filter(Boolean);
+
+  const ext = extname(command).toUpperCase();
+  if (ext && pathExt.some((candidate) => candidate.toUpperCase() === ext)) {
+    return [command];
+  }
+
+  return [
+    ...pathExt.map((candidate) => `${command}${candidate.toLowerCase()}`),
+    command,
+  ];
+}
+
+/**
+ * Resolves a command to the absolute path of the executable that would run.
+ *
+ * Commands containing a path separator are resolved against `cwd` instead of
+ * being looked up on `PATH`. On Windows the `PATHEXT` extensions are tried in
+ * order, the same way the shell does.
+ *
+ * @example
+ * ```typescript
+ * const git = which("git");
+ * if (!git) {
+ *   throw new Error("git is not installed");
+ * }
+ * console.log(git); // "/usr/bin/git" or "C:\\Program Files\\Git\\cmd\\git.exe"
+ * ```
+ *
+ * @param command - The command name or path
+ * @param options - Optional environment, working directory and platform overrides
+ * @returns The absolute path of the executable, or `undefined` if it cannot be found
+ */
+export function which(
+  command: string,
+  options?: WhichOptions,
+): string | undefined {
+  if (!command) return undefined;
+
+  const env = getEnv(options);
+  const platform = options?.platform ?? process.platform;
+  const cwd = options?.cwd ?? process.cwd();
+  const names = candidateNames(command, env, platform);
+
+  const hasSeparator =
+    command.includes("/") || (platform === "win32" && command.includes("\\"));
+
+  if (hasSeparator || isAbsolute(command)) {
+    return names
+      .map((name) => resolve(cwd, name))
+      .find((candidate) => isExecutable(candidate, platform));
+  }
+
+  const separator = platform === "win32" ? ";" : ":";
+  const dirs = (readEnvVar(env, "PATH", platform) ?? "")
+    .split(separator)
+    .map((dir) => dir.replace(/^"(.*)"$/, "$1"))
+    .filter(Boolean);
+
+  for (const dir of dirs) {
+    for (const name of names) {
+      const candidate = resolve(cwd, join(dir, name));
+      if (isExecutable(candidate, platform)) {
+        return candidate;
+      }
+    }
+  }
+
+  return undefined;
+}
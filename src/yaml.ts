@@ -0,0 +1,725 @@
+/**
+ * Minimal YAML reader for action and workflow metadata
+ * @see {https://yaml.org/spec/1.2.2/}
+ */
+
+/**
+ * A parsed YAML value.
+ */
+export type YamlValue =
+  string | number | boolean | null | YamlValue[] | YamlMapping;
+
+/**
+ * A parsed YAML mapping.
+ */
+export type YamlMapping = { [key: string]: YamlValue };
+
+/**
+ * Thrown when a document is malformed or uses YAML the parser does not support.
+ */
+export class YamlParseError extends Error {
+  constructor(
+    message: string,
+    public readonly line: number,
+  ) {
+    super(`${message} (line ${line})`);
+    this.name = "YamlParseError";
+  }
+}
+
+/**
+ * Whether a line holds no content, only whitespace or a comment.
+ */
+function isBlank(line: string): boolean {
+  const trimmed = line.trim();
+  return trimmed === "" || trimmed.startsWith("#");
+}
+
+/**
+ * Whether a line starts a block sequence item.
+ */
+function isSequenceItem(content: string): boolean {
+  return content === "-" || content.startsWith("- ");
+}
+
+/**
+ * Whether a line is a `---` or `...` document marker.
+ */
+function isDocumentMarker(line: string): boolean {
+  return /^(---|\.\.\.)(\s|$)/.test(line);
+}
+
+/**
+ * Removes a trailing ` # comment` that is not inside quotes.
+ */
+function stripComment(text: string): string {
+  let quote: string | undefined;
+
+  for (let i = 0; i < text.length; i++) {
+    const char = text[i];
+
+    if (quote) {
+      if (char === quote) {
+        // A doubled single quote is an escaped quote
+        if (quote === "'" && text[i + 1] === "'") i++;
+        else quote = undefined;
+      } else if (char === "\\" && quote === '"') {
+        i++;
+      }
+    } else if (
+      (char === '"' || char === "'") &&
+      /^\s*$|[\s[{,:]$/.test(text.slice(0, i))
+    ) {
+      quote = char;
+    } else if (char === "#" && (i === 0 || /\s/.test(text[i - 1] ?? ""))) {
+      return text.slice(0, i).trimEnd();
+    }
+  }
+
+  return text.trimEnd();
+}
+
+/**
+ * Resolves a plain scalar using the YAML 1.2 core schema.
+ */
+function resolvePlain(text: string, line: number): YamlValue {
+  if (/^[&*!]/.test(text)) {
+    throw new YamlParseError(
+      `Anchors, aliases and tags are not supported: "${text}"`,
+      line,
+    );
+  }
+
+  if (/^(null|Null|NULL|~)?$/.test(text)) return null;
+  if (/^(true|True|TRUE)$/.test(text)) return true;
+  if (/^(false|False|FALSE)$/.test(text)) return false;
+  if (/^[-+]?[0-9]+$/.test(text)) return Number.parseInt(text, 10);
+  if (/^0o[0-7]+$/.test(text)) return Number.parseInt(text.slice(2), 8);
+  if (/^0x[0-9a-fA-F]+$/.test(text)) return Number.parseInt(text.slice(2), 16);
+  if (/^[-+]?(\.[0-9]+|[0-9]+(\.[0-9]*)?)([eE][-+]?[0-9]+)?$/.test(text)) {
+    return Number.parseFloat(text);
+  }
+  if (/^[-+]?\.(inf|Inf|INF)$/.test(text)) {
+    return text.startsWith("-") ? -Infinity : Infinity;
+  }
+  if (/^\.(nan|NaN|NAN)$/.test(text)) return NaN;
+
+  return text;
+}
+
+/**
+ * Single character escapes allowed in double quoted scalars.
+ */
+const DOUBLE_QUOTE_ESCAPES: Record<string, string> = {
+  "0": "\0",
+  a: "\x07",
+  b: "\b",
+  t: "\t",
+  "\t": "\t",
+  n: "\n",
+  v: "\v",
+  f: "\f",
+  r: "\r",
+  e: "\x1b",
+  " ": " ",
+  '"': '"',
+  "/": "/",
+  "\\": "\\",
+  N: "\x85",
+  _: "\xa0",
+  L: "\u2028",
+  P: "\u2029",
+};
+
+/**
+ * Reads a quoted scalar starting at `start`.
+ *
+ * @returns The unescaped value and the index just past the closing quote
+ */
+function readQuoted(
+  text: string,
+  start: number,
+  line: number,
+): { value: string; end: number } {
+  const quote = text[start];
+  let value = "";
+
+  for (let i = start + 1; i < text.length; i++) {
+    const char = text[i] ?? "";
+
+    if (quote === "'") {
+      if (char !== "'") {
+        value += char;
+      } else if (text[i + 1] === "'") {
+        value += "'";
+        i++;
+      } else {
+        return { value, end: i + 1 };
+      }
+      continue;
+    }
+
+    if (char === '"') {
+      return { value, end: i + 1 };
+    }
+
+    if (char !== "\\") {
+      value += char;
+      continue;
+    }
+
+    const escape = text[++i] ?? "";
+    const hexLength =
+      escape === "x" ? 2 : escape === "u" ? 4 : escape === "U" ? 8 : 0;
+
+    if (hexLength) {
+      const hex = text.slice(i + 1, i + 1 + hexLength);
+      if (!new RegExp(`^[0-9a-fA-F]{${hexLength}}$`).test(hex)) {
+        throw new YamlParseError(`Invalid escape "\\${escape}${hex}"`, line);
+      }
+      value += String.fromCodePoint(Number.parseInt(hex, 16));
+      i += hexLength;
+    } else if (Object.hasOwn(DOUBLE_QUOTE_ESCAPES, escape)) {
+      value += DOUBLE_QUOTE_ESCAPES[escape];
+    } else {
+      throw new YamlParseError(`Invalid escape "\\${escape}"`, line);
+    }
+  }
+
+  throw new YamlParseError("Unterminated quoted string", line);
+}
+
+/**
+ * Parses single line flow collections such as `[a, b]` and `{ a: 1 }`.
+ */
+class FlowParser {
+  private pos = 0;
+
+  constructor(
+    private readonly text: string,
+    private readonly line: number,
+  ) {}
+
+  parse(): YamlValue {
+    const value = this.parseValue();
+    this.skipSpace();
+
+    if (this.pos < this.text.length) {
+      throw new YamlParseError(
+        `Unexpected "${this.text.slice(this.pos)}" after flow collection`,
+        this.line,
+      );
+    }
+
+    return value;
+  }
+
+  private skipSpace(): void {
+    while (/\s/.test(this.text[this.pos] ?? "")) this.pos++;
+  }
+
+  private expect(char: string): void {
+    this.skipSpace();
+    if (this.text[this.pos] !== char) {
+      throw new YamlParseError(
+        `Expected "${char}" in flow collection`,
+        this.line,
+      );
+    }
+    this.pos++;
+  }
+
+  private parseValue(key = false): YamlValue {
+    this.skipSpace();
+    const char = this.text[this.pos];
+
+    if (char === "[") return this.parseSequence();
+    if (char === "{") return this.parseMapping();
+
+    if (char === '"' || char === "'") {
+      const { value, end } = readQuoted(this.text, this.pos, this.line);
+      this.pos = end;
+      return value;
+    }
+
+    const start = this.pos;
+    while (this.pos < this.text.length) {
+      const current = this.text[this.pos];
+      if (current === "," || current === "]" || current === "}") break;
+      if (
+        key &&
+        current === ":" &&
+        /[\s,}]|^$/.test(this.text[this.pos + 1] ?? "")
+      ) {
+        break;
+      }
+      this.pos++;
+    }
+
+    return resolvePlain(this.text.slice(start, this.pos).trim(), this.line);
+  }
+
+  private parseSequence(): YamlValue[] {
+    const items: YamlValue[] = [];
+    this.expect("[");
+
+    for (;;) {
+      this.skipSpace();
+      if (this.text[this.pos] === "]") break;
+
+      items.push(this.parseValue());
+      this.skipSpace();
+      if (this.text[this.pos] !== ",") break;
+      this.pos++;
+    }
+
+    this.expect("]");
+    return items;
+  }
+
+  private parseMapping(): YamlMapping {
+    const mapping: YamlMapping = {};
+    this.expect("{");
+
+    for (;;) {
+      this.skipSpace();
+      if (this.text[this.pos] === "}") break;
+
+      const key = String(this.parseValue(true));
+      this.skipSpace();
+
+      let value: YamlValue = null;
+      if (this.text[this.pos] === ":") {
+        this.pos++;
+        this.skipSpace();
+        const next = this.text[this.pos];
+        value = next === "," || next === "}" ? null : this.parseValue();
+      }
+
+      setKey(mapping, key, value, this.line);
+      this.skipSpace();
+      if (this.text[this.pos] !== ",") break;
+      this.pos++;
+    }
+
+    this.expect("}");
+    return mapping;
+  }
+}
+
+/**
+ * Adds a key to a mapping, rejecting duplicates. Keys are defined as own
+ * properties so names like `__proto__` stay plain data.
+ */
+function setKey(
+  mapping: YamlMapping,
+  key: string,
+  value: YamlValue,
+  line: number,
+): void {
+  if (Object.hasOwn(mapping, key)) {
+    throw new YamlParseError(`Duplicate key "${key}"`, line);
+  }
+
+  Object.defineProperty(mapping, key, {
+    value,
+    enumerable: true,
+    writable: true,
+    configurable: true,
+  });
+}
+
+/**
+ * Splits `key: rest` on the first mapping indicator outside quotes.
+ *
+ * @returns The key and the text after the colon, or `undefined` if the
+ * content is not a mapping entry
+ */
+function splitMappingEntry(
+  content: string,
+  line: number,
+): { key: string; rest: string } | undefined {
+  let key: string;
+  let afterKey: number;
+
+  if (content.startsWith('"') || content.startsWith("'")) {
+    const quoted = readQuoted(content, 0, line);
+    key = quoted.value;
+    afterKey = quoted.end;
+    while (content[afterKey] === " ") afterKey++;
+  } else {
+    const match = /:(\s|$)/.exec(content);
+    if (!match || content.startsWith("[") || content.startsWith("{")) {
+      return undefined;
+    }
+    afterKey = match.index;
+    key = content.slice(0, afterKey).trim();
+
+    if (key.includes(" #") || key.startsWith("#")) return undefined;
+  }
+
+  if (
+    content[afterKey] !== ":" ||
+    !/^(\s|$)/.test(content.slice(afterKey + 1))
+  ) {
+    return undefined;
+  }
+
+  return { key, rest: content.slice(afterKey + 1) };
+}
+
+/**
+ * Line based parser for block collections and scalars.
+ */
+class YamlParser {
+  private index = 0;
+
+  constructor(private readonly lines: string[]) {}
+
+  parseDocument(): YamlValue {
+    this.skipBlank();
+    if (this.peek()?.trim() === "---") {
+      this.index++;
+    }
+
+    const value = this.parseNode(0);
+    this.skipBlank();
+
+    const rest = this.peek();
+    if (rest !== undefined && rest.trim() !== "...") {
+      throw new YamlParseError(
+        rest.trim() === "---"
+          ? "Multiple documents are not supported"
+          : `Unexpected content "${rest.trim()}"`,
+        this.lineNumber(),
+      );
+    }
+
+    return value;
+  }
+
+  private peek(): string | undefined {
+    return this.lines[this.index];
+  }
+
+  private lineNumber(): number {
+    return this.index + 1;
+  }
+
+  private skipBlank(): void {
+    while (this.index < this.lines.length && isBlank(this.peek() ?? "")) {
+      this.index++;
+    }
+  }
+
+  private indentOf(line: string): number {
+    const indent = line.length - line.trimStart().length;
+    if (line.slice(0, indent).includes("\t")) {
+      throw new YamlParseError(
+        "Tabs are not allowed in indentation",
+        this.lineNumber(),
+      );
+    }
+    return indent;
+  }
+
+  /**
+   * Parses the node starting at the next content line, if it is indented at
+   * least `minIndent` spaces.
+   */
+  private parseNode(minIndent: number): YamlValue {
+    this.skipBlank();
+    const line = this.peek();
+    if (line === undefined) return null;
+
+    const indent = this.indentOf(line);
+    if (indent < minIndent) return null;
+
+    const content = line.slice(indent);
+    if (isSequenceItem(content)) {
+      return this.parseSequence(indent);
+    }
+
+    if (splitMappingEntry(stripComment(content), this.lineNumber())) {
+      return this.parseMapping(indent);
+    }
+
+    this.index++;
+    return this.parseValue(content, indent - 1, false);
+  }
+
+  private parseMapping(indent: number): YamlMapping {
+    const mapping: YamlMapping = {};
+
+    for (;;) {
+      this.skipBlank();
+      const line = this.peek();
+      if (line === undefined) break;
+
+      const lineIndent = this.indentOf(line);
+      if (lineIndent < indent || isDocumentMarker(line)) break;
+      if (lineIndent > indent) {
+        throw new YamlParseError("Unexpected indentation", this.lineNumber());
+      }
+
+      const content = line.slice(indent);
+      if (isSequenceItem(content)) break;
+
+      const lineNumber = this.lineNumber();
+      const entry = splitMappingEntry(content, lineNumber);
+      if (!entry) {
+        throw new YamlParseError(
+          `Expected a "key: value" entry but got "${content.trim()}"`,
+          lineNumber,
+        );
+      }
+
+      this.index++;
+      setKey(
+        mapping,
+        entry.key,
+        this.parseValue(entry.rest, indent, true),
+        lineNumber,
+      );
+    }
+
+    return mapping;
+  }
+
+  private parseSequence(indent: number): YamlValue[] {
+    const items: YamlValue[] = [];
+
+    for (;;) {
+      this.skipBlank();
+      const line = this.peek();
+      if (line === undefined) break;
+
+      const lineIndent = this.indentOf(line);
+      if (lineIndent < indent || isDocumentMarker(line)) break;
+      if (lineIndent > indent) {
+        throw new YamlParseError("Unexpected indentation", this.lineNumber());
+      }
+
+      const content = line.slice(indent);
+      if (!isSequenceItem(content)) break;
+
+      const afterDash = content.slice(1);
+      const item = afterDash.trimStart();
+      const itemIndent = indent + 1 + (afterDash.length - item.length);
+
+      if (
+        isSequenceItem(item) ||
+        splitMappingEntry(stripComment(item), this.lineNumber())
+      ) {
+        // Re-read the item as if it started on its own line
+        this.lines[this.index] = " ".repeat(itemIndent) + item;
+        items.push(this.parseNode(itemIndent));
+      } else {
+        this.index++;
+        items.push(this.parseValue(item, indent, false));
+      }
+    }
+
+    return items;
+  }
+
+  /**
+   * Parses the value after `key:` or `- `, which may continue on the
+   * following lines.
+   *
+   * @param text - The text on the current line
+   * @param parentIndent - Indentation of the owning key or sequence item
+   * @param inMapping - Whether a sequence at `parentIndent` belongs to the value
+   */
+  private parseValue(
+    text: string,
+    parentIndent: number,
+    inMapping: boolean,
+  ): YamlValue {
+    const line = this.index;
+    const value = stripComment(text).trim();
+
+    if (value === "") {
+      this.skipBlank();
+      const next = this.peek();
+      if (next === undefined) return null;
+
+      const nextIndent = this.indentOf(next);
+      if (nextIndent > parentIndent) {
+        return this.parseNode(parentIndent + 1);
+      }
+      if (
+        inMapping &&
+        nextIndent === parentIndent &&
+        isSequenceItem(next.slice(nextIndent))
+      ) {
+        return this.parseSequence(parentIndent);
+      }
+      return null;
+    }
+
+    if (value.startsWith("|") || value.startsWith(">")) {
+      return this.parseBlockScalar(value, parentIndent, line);
+    }
+
+    if (value.startsWith("[") || value.startsWith("{")) {
+      return new FlowParser(value, line).parse();
+    }
+
+    const continued = [value];
+    const quote = value.startsWith('"') || value.startsWith("'");
+
+    // Report anchors and tags on the line they appear, not on the node below
+    if (!quote && /^[&*!]/.test(value)) {
+      return resolvePlain(value, line);
+    }
+
+    // Plain and quoted scalars may be folded over more-indented lines
+    for (;;) {
+      const next = this.peek();
+      if (next === undefined || next.trim() === "") break;
+      if (this.indentOf(next) <= parentIndent) break;
+      if (!quote && next.trim().startsWith("#")) break;
+      if (!quote && splitMappingEntry(stripComment(next.trim()), line)) {
+        throw new YamlParseError(
+          "Unexpected indentation, mapping entries cannot continue a scalar",
+          this.lineNumber(),
+        );
+      }
+
+      continued.push(quote ? next.trim() : stripComment(next).trim());
+      this.index++;
+    }
+
+    const joined = continued.join(" ");
+
+    if (quote) {
+      const { value: unquoted, end } = readQuoted(joined, 0, line);
+      if (stripComment(joined.slice(end)).trim() !== "") {
+        throw new YamlParseError(
+          `Unexpected "${joined.slice(end).trim()}" after quoted string`,
+          line,
+        );
+      }
+      return unquoted;
+    }
+
+    return resolvePlain(joined, line);
+  }
+
+  /**
+   * Parses a literal (`|`) or folded (`>`) block scalar.
+   */
+  private parseBlockScalar(
+    header: string,
+    parentIndent: number,
+    line: number,
+  ): string {
+    const match = /^([|>])([+-]?)([1-9]?)([+-]?)$/.exec(header);
+    if (!match) {
+      throw new YamlParseError(`Invalid block scalar header "${header}"`, line);
+    }
+
+    const [, style, chompBefore, explicitIndent, chompAfter] = match;
+    const chomping = chompBefore || chompAfter;
+
+    let blockIndent = explicitIndent
+      ? parentIndent + Number(explicitIndent)
+      : undefined;
+    const rows: string[] = [];
+
+    for (;;) {
+      const next = this.peek();
+      if (next === undefined) break;
+
+      if (next.trim() === "") {
+        rows.push("");
+        this.index++;
+        continue;
+      }
+
+      const indent = this.indentOf(next);
+      blockIndent ??= indent;
+      if (indent < blockIndent || indent <= parentIndent) break;
+
+      rows.push(next.slice(blockIndent));
+      this.index++;
+    }
+
+    let trailing = 0;
+    while (rows.length > 0 && rows[rows.length - 1] === "") {
+      rows.pop();
+      trailing++;
+    }
+
+    const body = style === "|" ? rows.join("\n") : foldLines(rows);
+
+    if (chomping === "-" || body === "") {
+      return chomping === "+" ? "\n".repeat(trailing) : body;
+    }
+
+    return body + "\n" + (chomping === "+" ? "\n".repeat(trailing) : "");
+  }
+}
+
+/**
+ * Folds the lines of a `>` block scalar: single line breaks become spaces,
+ * empty lines become line breaks and more-indented lines are kept as is.
+ */
+function foldLines(rows: string[]): string {
+  let folded = "";
+  let previous: "none" | "normal" | "indented" = "none";
+  let emptyLines = 0;
+
+  for (const row of rows) {
+    if (row === "") {
+      emptyLines++;
+      continue;
+    }
+
+    const indented = /^\s/.test(row);
+
+    if (previous === "none") {
+      folded += "\n".repeat(emptyLines);
+    } else if (previous === "normal" && !indented) {
+      folded += emptyLines > 0 ? "\n".repeat(emptyLines) : " ";
+    } else {
+      folded += "\n" + "\n".repeat(emptyLines);
+    }
+
+    folded += row;
+    emptyLines = 0;
+    previous = indented ? "indented" : "normal";
+  }
+
+  return folded;
+}
+
+/**
+ * Parses a YAML document.
+ *
+ * Supports the subset used by action and workflow files: block mappings and
+ * sequences, plain and quoted scalars (including multi-line ones), literal
+ * and folded block scalars, single line flow collections and comments.
+ * Scalars are resolved with the YAML 1.2 core schema, so `yes` and `on` stay
+ * strings. Anchors, aliases, tags and multiple documents are rejected.
+ *
+ * @example
+ * ```typescript
+ * const doc = parseYaml(`
+ * name: Build
+ * inputs:
+ *   token:
+ *     required: true
+ * `);
+ * // { name: "Build", inputs: { token: { required: true } } }
+ * ```
+ *
+ * @param text - The YAML source
+ * @returns The parsed value, `null` for an empty document
+ * @throws YamlParseError if the document is invalid or uses unsupported syntax
+ */
+export function parseYaml(text: string): YamlValue {
+  const lines = text.replace(/^\uFEFF/, "").split(/\r?\n/);
+  return new YamlParser(lines).parseDocument();
+}
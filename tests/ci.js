@@ -0,0 +1,289 @@
+import assert from "node:assert/strict";
+import { mkdtempSync, rmSync, writeFileSync } from "node:fs";
+import { tmpdir } from "node:os";
+import { join } from "node:path";
+import {
+  detectCI,
+  diagnoseCI,
+  diagnoseCIProvider,
+  isCI,
+  isInsideGithubAction,
+} from "../dist/index.js";
+
+// Each provider is recognised from its own variables and normalised
+const cases = [
+  [
+    "github-actions",
+    {
+      GITHUB_ACTIONS: "true",
+      GITHUB_EVENT_NAME: "push",
+      GITHUB_REF: "refs/heads/main",
+      GITHUB_SHA: "abc123",
+      GITHUB_RUN_NUMBER: "42",
+      GITHUB_RUN_ID: "1001",
+      GITHUB_SERVER_URL: "https://github.com",
+      GITHUB_REPOSITORY: "octo-org/octo-repo",
+    },
+    {
+      name: "GitHub Actions",
+      isPullRequest: false,
+      branch: "main",
+      commitSha: "abc123",
+      buildNumber: "42",
+      buildUrl: "https://github.com/octo-org/octo-repo/actions/runs/1001",
+    },
+  ],
+  [
+    "gitlab-ci",
+    {
+      GITLAB_CI: "true",
+      CI_MERGE_REQUEST_IID: "7",
+      CI_MERGE_REQUEST_SOURCE_BRANCH_NAME: "feature",
+      CI_COMMIT_BRANCH: "main",
+      CI_COMMIT_SHA: "def456",
+      CI_PIPELINE_IID: "12",
+      CI_PIPELINE_URL: "https://gitlab.com/p/-/pipelines/1",
+    },
+    {
+      name: "GitLab CI",
+      isPullRequest: true,
+      branch: "feature",
+      commitSha: "def456",
+      buildNumber: "12",
+      buildUrl: "https://gitlab.com/p/-/pipelines/1",
+    },
+  ],
+  [
+    "circleci",
+    { CIRCLECI: "true", CIRCLE_BRANCH: "dev", CIRCLE_BUILD_NUM: "5" },
+    {
+      name: "CircleCI",
+      isPullRequest: false,
+      branch: "dev",
+      commitSha: undefined,
+      buildNumber: "5",
+      buildUrl: undefined,
+    },
+  ],
+  [
+    "travis",
+    {
+      TRAVIS: "true",
+      TRAVIS_PULL_REQUEST: "false",
+      TRAVIS_BRANCH: "main",
+      TRAVIS_COMMIT: "aaa",
+    },
+    {
+      name: "Travis CI",
+      isPullRequest: false,
+      branch: "main",
+      commitSha: "aaa",
+      buildNumber: undefined,
+      buildUrl: undefined,
+    },
+  ],
+  [
+    "azure-pipelines",
+    {
+      TF_BUILD: "True",
+      BUILD_REASON: "PullRequest",
+      SYSTEM_PULLREQUEST_SOURCEBRANCH: "refs/heads/topic",
+      BUILD_SOURCEVERSION: "bbb",
+      BUILD_BUILDNUMBER: "20240101.1",
+      BUILD_BUILDID: "99",
+      SYSTEM_TEAMFOUNDATIONCOLLECTIONURI: "https://dev.azure.com/org/",
+      SYSTEM_TEAMPROJECT: "proj",
+    },
+    {
+      name: "Azure Pipelines",
+      isPullRequest: true,
+      branch: "topic",
+      commitSha: "bbb",
+      buildNumber: "20240101.1",
+      buildUrl: "https://dev.azure.com/org/proj/_build/results?buildId=99",
+    },
+  ],
+  [
+    "bitbucket-pipelines",
+    {
+      BITBUCKET_BUILD_NUMBER: "3",
+      BITBUCKET_BRANCH: "main",
+      BITBUCKET_GIT_HTTP_ORIGIN: "https://bitbucket.org/team/repo",
+    },
+    {
+      name: "Bitbucket Pipelines",
+      isPullRequest: false,
+      branch: "main",
+      commitSha: undefined,
+      buildNumber: "3",
+      buildUrl:
+        "https://bitbucket.org/team/repo/addon/pipelines/home#!/results/3",
+    },
+  ],
+  [
+    "buildkite",
+    { BUILDKITE: "true", BUILDKITE_PULL_REQUEST: "15", BUILDKITE_BRANCH: "x" },
+    {
+      name: "Buildkite",
+      isPullRequest: true,
+      branch: "x",
+      commitSha: undefined,
+      buildNumber: undefined,
+      buildUrl: undefined,
+    },
+  ],
+  [
+    "teamcity",
+    { TEAMCITY_VERSION: "2023.11", BUILD_NUMBER: "8", BUILD_VCS_NUMBER: "ccc" },
+    {
+      name: "TeamCity",
+      isPullRequest: false,
+      branch: undefined,
+      commitSha: "ccc",
+      buildNumber: "8",
+      buildUrl: undefined,
+    },
+  ],
+  [
+    "jenkins",
+    {
+      JENKINS_URL: "https://ci.example.com/",
+      BUILD_ID: "17",
+      BUILD_NUMBER: "17",
+      GIT_BRANCH: "origin/release",
+      GIT_COMMIT: "ddd",
+    },
+    {
+      name: "Jenkins",
+      isPullRequest: false,
+      branch: "release",
+      commitSha: "ddd",
+      buildNumber: "17",
+      buildUrl: undefined,
+    },
+  ],
+];
+
+for (const [id, env, expected] of cases) {
+  assert.deepEqual(detectCI({ env }), { id, ...expected }, id);
+  assert.equal(isCI({ env }), true, id);
+}
+console.log("detectCI: every provider recognised and normalised");
+
+// Pull requests on GitHub use the head branch
+const pullRequest = detectCI({
+  env: {
+    GITHUB_ACTIONS: "true",
+    GITHUB_EVENT_NAME: "pull_request_target",
+    GITHUB_HEAD_REF: "feature",
+    GITHUB_REF: "refs/pull/1/merge",
+  },
+});
+assert.equal(pullRequest.isPullRequest, true);
+assert.equal(pullRequest.branch, "feature");
+
+const tag = detectCI({
+  env: { GITHUB_ACTIONS: "true", GITHUB_REF: "refs/tags/v1.0.0" },
+});
+assert.equal(tag.branch, undefined);
+console.log("detectCI: GitHub pull request and tag branches");
+
+// Unknown systems only count through the CI convention
+assert.equal(detectCI({ env: {} }), undefined);
+assert.equal(detectCI({ env: { GITHUB_ACTIONS: "false" } }), undefined);
+assert.equal(detectCI({ env: { JENKINS_URL: "https://ci" } }), undefined);
+assert.equal(isCI({ env: {} }), false);
+assert.equal(isCI({ env: { CI: "true" } }), true);
+assert.equal(isCI({ env: { CI: "1" } }), true);
+assert.equal(isCI({ env: { CI: "false" } }), false);
+console.log("isCI: known providers and the CI=true convention");
+
+// Strict mode needs every signal, including the workspace on disk
+const dir = mkdtempSync(join(tmpdir(), "ci-"));
+
+try {
+  const eventPath = join(dir, "event.json");
+  writeFileSync(eventPath, "{}");
+  const runner = {
+    GITHUB_ACTIONS: "true",
+    RUNNER_OS: "Linux",
+    GITHUB_RUN_ID: "1001",
+    GITHUB_WORKSPACE: dir,
+    GITHUB_EVENT_PATH: eventPath,
+  };
+  const local = { GITHUB_ACTIONS: "true", CI: "true" };
+
+  assert.equal(detectCI({ env: runner, strict: true })?.id, "github-actions");
+  assert.equal(isInsideGithubAction({ env: runner, strict: true }), true);
+  assert.equal(detectCI({ env: local })?.id, "github-actions");
+  assert.equal(detectCI({ env: local, strict: true }), undefined);
+  assert.equal(isInsideGithubAction({ env: local }), true);
+  assert.equal(isInsideGithubAction({ env: local, strict: true }), false);
+  assert.equal(
+    isCI({ env: local, strict: true }),
+    false,
+    "CI alone is not enough",
+  );
+
+  const missing = { ...runner, GITHUB_WORKSPACE: join(dir, "missing") };
+  assert.equal(detectCI({ env: missing, strict: true }), undefined);
+  assert.equal(
+    detectCI({ env: { ...runner, RUNNER_OS: "Solaris" }, strict: true }),
+    undefined,
+  );
+  assert.equal(
+    detectCI({ env: { ...runner, GITHUB_EVENT_PATH: dir }, strict: true }),
+    undefined,
+  );
+  console.log("strict: every signal must pass");
+
+  // Diagnostics explain each signal
+  const diagnosis = diagnoseCIProvider("github-actions", {
+    env: missing,
+    strict: true,
+  });
+  assert.equal(diagnosis.id, "github-actions");
+  assert.equal(diagnosis.name, "GitHub Actions");
+  assert.equal(diagnosis.detected, false);
+  assert.equal(diagnosis.strict, true);
+  assert.deepEqual(
+    diagnosis.signals.map(({ name, primary, passed }) => [
+      name,
+      primary,
+      passed,
+    ]),
+    [
+      ["GITHUB_ACTIONS=true", true, true],
+      ["RUNNER_OS matches /^(Linux|Windows|macOS)$/", false, true],
+      ["GITHUB_RUN_ID matches /^\\d+$/", false, true],
+      ["GITHUB_WORKSPACE is an existing directory", false, false],
+      ["GITHUB_EVENT_PATH is a readable file", false, true],
+    ],
+  );
+  assert.equal(
+    diagnosis.signals[3].detail,
+    `${join(dir, "missing")} does not exist`,
+  );
+
+  // Outside strict mode only primary signals decide, but all are reported
+  const loose = diagnoseCIProvider("github-actions", { env: missing });
+  assert.equal(loose.detected, true);
+  assert.equal(loose.strict, false);
+  assert.equal(loose.signals.length, 5);
+
+  assert.throws(() => diagnoseCIProvider("nope"), /Unknown CI provider "nope"/);
+
+  const all = diagnoseCI({ env: local, strict: true });
+  assert.equal(all.length, 9);
+  assert.equal(all[0].id, "github-actions");
+  assert.ok(all.every((result) => !result.detected));
+  assert.deepEqual(
+    all
+      .filter((result) => result.signals.some((s) => s.primary && s.passed))
+      .map((result) => result.id),
+    ["github-actions"],
+  );
+  console.log("diagnoseCI: signals, details and detection per provider");
+} finally {
+  rmSync(dir, { recursive: true, force: true });
+}
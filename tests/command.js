@@ -0,0 +1,179 @@
+import assert from "node:assert/strict";
+import { spawn, spawnSync } from "node:child_process";
+import { once } from "node:events";
+import { fileURLToPath } from "node:url";
+import {
+  CommandError,
+  CommandTerminatedError,
+  execCommand,
+} from "../dist/index.js";
+
+const dist = fileURLToPath(new URL("../dist/index.js", import.meta.url));
+const isAlive = (pid) => {
+  try {
+    process.kill(pid, 0);
+    return true;
+  } catch {
+    return false;
+  }
+};
+const waitFor = async (check, timeoutMs = 5000) => {
+  const deadline = Date.now() + timeoutMs;
+  while (!check()) {
+    if (Date.now() > deadline) return false;
+    await new Promise((resolve) => setTimeout(resolve, 50));
+  }
+  return true;
+};
+
+// Interrupt a parent running a plain execCommand: the child has its own
+// process group, so the parent forwards Ctrl+C and nothing is orphaned
+const parent = spawn(
+  process.execPath,
+  [
+    "--input-type=module",
+    "-e",
+    `import { execCommand } from ${JSON.stringify(dist)};
+     await execCommand("sh", ["-c", "echo $$ $(ps -o pgid= $$); exec sleep 30"], { stdout: "inherit" });`,
+  ],
+  { detached: true, stdio: ["ignore", "pipe", "inherit"] },
+);
+
+const [chunk] = await once(parent.stdout, "data");
+const [childPid, childGroup] = String(chunk).trim().split(/\s+/).map(Number);
+assert.ok(isAlive(childPid));
+assert.equal(childGroup, childPid, "child should lead its own group");
+
+// Signal the parent's whole group, as a terminal does on Ctrl+C
+process.kill(-parent.pid, "SIGINT");
+const [parentExitCode] = await once(parent, "exit");
+assert.equal(parentExitCode, 130);
+assert.ok(await waitFor(() => !isAlive(childPid)), "child was orphaned");
+console.log("group: interrupting the parent also stops the child's group");
+
+// A timeout stops grandchildren too, they share the child's group
+let grandchildPid;
+await assert.rejects(
+  execCommand("sh", ["-c", "sleep 30 & echo $!; wait"], { timeoutMs: 500 }),
+  (error) => {
+    assert.ok(error instanceof CommandTerminatedError);
+    grandchildPid = Number(error.stdout.trim());
+    return true;
+  },
+);
+assert.ok(await waitFor(() => !isAlive(grandchildPid)), "grandchild survived");
+console.log("group: a timeout stops grandchildren");
+
+// The result of a finished command
+const result = await execCommand("sh", ["-c", "echo out; echo err >&2"]);
+assert.deepEqual(
+  { ...result, durationMs: undefined },
+  {
+    command: "sh",
+    args: ["-c", "echo out; echo err >&2"],
+    exitCode: 0,
+    signal: null,
+    stdout: "out\n",
+    stderr: "err\n",
+    durationMs: undefined,
+  },
+);
+assert.equal(typeof result.durationMs, "number");
+assert.ok(result.durationMs >= 0);
+console.log("result: exit code, signal, output and duration");
+
+// Each stream is captured, teed, inherited or ignored on its own; a child
+// script shows what reaches this process's streams
+const streams = (stdout, stderr) => {
+  const { stdout: parentOut, stderr: parentErr } = spawnSync(
+    process.execPath,
+    [
+      "--input-type=module",
+      "-e",
+      `import { execCommand } from ${JSON.stringify(dist)};
+       const result = await execCommand("sh", ["-c", "echo out; echo err >&2"], ${JSON.stringify({ stdout, stderr })});
+       console.log(JSON.stringify({ stdout: result.stdout, stderr: result.stderr }));`,
+    ],
+    { encoding: "utf8", timeout: 10_000 },
+  );
+  const lines = parentOut.trim().split("\n");
+  return {
+    captured: JSON.parse(lines.pop()),
+    stdout: lines.join("\n"),
+    stderr: parentErr.trim(),
+  };
+};
+
+assert.deepEqual(streams("capture", "capture"), {
+  captured: { stdout: "out\n", stderr: "err\n" },
+  stdout: "",
+  stderr: "",
+});
+assert.deepEqual(streams("tee", "inherit"), {
+  captured: { stdout: "out\n", stderr: "" },
+  stdout: "out",
+  stderr: "err",
+});
+assert.deepEqual(streams("inherit", "tee"), {
+  captured: { stdout: "", stderr: "err\n" },
+  stdout: "out",
+  stderr: "err",
+});
+assert.deepEqual(streams("ignore", "ignore"), {
+  captured: { stdout: "", stderr: "" },
+  stdout: "",
+  stderr: "",
+});
+console.log("streams: capture, tee, inherit and ignore per stream");
+
+// stdin is ignored by default, fed from input, or inherited
+assert.equal((await execCommand("cat")).stdout, "");
+assert.equal(
+  (await execCommand("cat", [], { input: "hello" })).stdout,
+  "hello",
+);
+const inherited = spawnSync(
+  process.execPath,
+  [
+    "--input-type=module",
+    "-e",
+    `import { execCommand } from ${JSON.stringify(dist)};
+     await execCommand("cat", [], { stdin: "inherit", stdout: "inherit" });`,
+  ],
+  { encoding: "utf8", input: "piped", timeout: 10_000 },
+);
+assert.equal(inherited.stdout, "piped");
+console.log("stdin: ignored, input or inherited");
+
+// Non-zero exits reject with a CommandError unless ignoreReturnCode is set
+const failing = ["-c", "echo partial; echo broken >&2; exit 3"];
+const ignored = await execCommand("sh", failing, { ignoreReturnCode: true });
+assert.equal(ignored.exitCode, 3);
+assert.equal(ignored.stdout, "partial\n");
+
+await assert.rejects(execCommand("sh", failing), (error) => {
+  assert.ok(error instanceof CommandError);
+  assert.ok(!(error instanceof CommandTerminatedError));
+  assert.equal(error.name, "CommandError");
+  assert.equal(
+    error.message,
+    `Command "sh -c echo partial; echo broken >&2; exit 3" exited with code 3`,
+  );
+  assert.equal(error.command, "sh");
+  assert.deepEqual(error.args, failing);
+  assert.equal(error.exitCode, 3);
+  assert.equal(error.signal, null);
+  assert.equal(error.stdout, "partial\n");
+  assert.equal(error.stderr, "broken\n");
+  assert.equal(typeof error.durationMs, "number");
+  return true;
+});
+
+await assert.rejects(execCommand("sh", ["-c", "kill -TERM $$"]), (error) => {
+  assert.ok(error instanceof CommandError);
+  assert.equal(error.exitCode, null);
+  assert.equal(error.signal, "SIGTERM");
+  assert.match(error.message, /was terminated by SIGTERM$/);
+  return true;
+});
+console.log("errors: ignoreReturnCode and CommandError fields");
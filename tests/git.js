@@ -0,0 +1,144 @@
+import assert from "node:assert/strict";
+import { execFileSync } from "node:child_process";
+import {
+  existsSync,
+  mkdtempSync,
+  renameSync,
+  rmSync,
+  writeFileSync,
+} from "node:fs";
+import { tmpdir } from "node:os";
+import { join } from "node:path";
+import {
+  getChangedFiles,
+  getGitBranch,
+  getGitCloneDepth,
+  getGitCommits,
+  getGitSha,
+  getGitTagsAtHead,
+  isGitDirty,
+  isGitRepository,
+} from "../dist/index.js";
+
+const root = mkdtempSync(join(tmpdir(), "git-test-"));
+const repo = join(root, "repo");
+const env = {
+  ...process.env,
+  GIT_AUTHOR_NAME: "Octo Cat",
+  GIT_AUTHOR_EMAIL: "octo@example.com",
+  GIT_COMMITTER_NAME: "Octo Cat",
+  GIT_COMMITTER_EMAIL: "octo@example.com",
+  GIT_CONFIG_NOSYSTEM: "1",
+  HOME: root,
+};
+const git = (cwd, ...args) =>
+  execFileSync("git", args, { cwd, env, encoding: "utf8" }).trim();
+
+try {
+  execFileSync("git", ["init", "-q", "-b", "main", repo], { env });
+  writeFileSync(join(repo, "a.txt"), "alpha\n".repeat(20));
+  writeFileSync(join(repo, "b.txt"), "bravo\n");
+  git(repo, "add", ".");
+  git(repo, "commit", "-q", "-m", "Initial commit");
+  git(repo, "tag", "v1.0.0");
+  const first = git(repo, "rev-parse", "HEAD");
+
+  renameSync(join(repo, "a.txt"), join(repo, "renamed.txt"));
+  writeFileSync(join(repo, "b.txt"), "bravo\nbravo\n");
+  writeFileSync(join(repo, "c d.txt"), "charlie\n");
+  git(repo, "add", "-A");
+  git(repo, "commit", "-q", "-m", "Rename a\n\nBREAKING CHANGE: a.txt moved");
+  git(repo, "tag", "v2.0.0");
+  git(repo, "tag", "latest");
+
+  const options = { cwd: repo, env };
+
+  assert.equal(await isGitRepository(options), true);
+  assert.equal(await isGitRepository({ cwd: root, env }), false);
+  assert.equal(await getGitSha(options), git(repo, "rev-parse", "HEAD"));
+  assert.equal(await getGitBranch(options), "main");
+  assert.deepEqual(await getGitTagsAtHead(options), ["latest", "v2.0.0"]);
+  console.log("head: sha, branch and tags read from git");
+
+  const changed = await getChangedFiles(first, "HEAD", options);
+  assert.deepEqual(
+    changed.map((file) => [file.status, file.path, file.previousPath]),
+    [
+      ["modified", "b.txt", undefined],
+      ["added", "c d.txt", undefined],
+      ["renamed", "renamed.txt", "a.txt"],
+    ],
+  );
+  assert.equal(changed[2].similarity, 100);
+  const noRenames = await getChangedFiles("v1.0.0", "v2.0.0", {
+    ...options,
+    findRenames: false,
+  });
+  assert.ok(noRenames.some((file) => file.status === "deleted"));
+  console.log("diff:", changed.map((file) => file.path).join(", "));
+
+  const commits = await getGitCommits(first, "HEAD", options);
+  assert.equal(commits.length, 1);
+  assert.equal(commits[0].subject, "Rename a");
+  assert.equal(commits[0].body, "BREAKING CHANGE: a.txt moved");
+  assert.equal(commits[0].authorEmail, "octo@example.com");
+  assert.ok(commits[0].authoredAt instanceof Date);
+  console.log("log: read", commits.length, "commit");
+
+  // Refs that git would read as options are rejected before it runs
+  const output = join(root, "output.txt");
+  await assert.rejects(
+    getChangedFiles(`--output=${output}`, "HEAD", options),
+    /Invalid git ref "--output=.*": refs must not start with "-"/,
+  );
+  await assert.rejects(
+    getGitCommits(first, "--all", options),
+    /Invalid git ref "--all"/,
+  );
+  assert.equal(existsSync(output), false);
+  console.log("refs: option-like refs rejected");
+
+  assert.equal(await isGitDirty(options), false);
+  writeFileSync(join(repo, "untracked.txt"), "");
+  assert.equal(await isGitDirty(options), true);
+  assert.equal(
+    await isGitDirty({ ...options, includeUntracked: false }),
+    false,
+  );
+  console.log("status: untracked files counted unless excluded");
+
+  assert.deepEqual(await getGitCloneDepth(options), {
+    shallow: false,
+    depth: undefined,
+  });
+  const shallow = join(root, "shallow");
+  git(root, "clone", "-q", "--depth", "1", `file://${repo}`, shallow);
+  assert.deepEqual(await getGitCloneDepth({ cwd: shallow, env }), {
+    shallow: true,
+    depth: 1,
+  });
+  console.log("clone depth: shallow clone detected");
+
+  // Without PATH git cannot be found, so the GitHub variables are used
+  const fallback = {
+    cwd: repo,
+    env: {
+      GITHUB_SHA: "f".repeat(40),
+      GITHUB_REF_NAME: "v3.0.0",
+      GITHUB_REF_TYPE: "tag",
+    },
+  };
+  assert.equal(await getGitSha(fallback), "f".repeat(40));
+  assert.equal(await getGitBranch(fallback), undefined);
+  assert.deepEqual(await getGitTagsAtHead(fallback), ["v3.0.0"]);
+  assert.equal(
+    await getGitBranch({
+      ...fallback,
+      env: { GITHUB_REF_NAME: "main", GITHUB_REF_TYPE: "branch" },
+    }),
+    "main",
+  );
+  console.log("fallback: GitHub variables used without git");
+} finally {
+  rmSync(root, { recursive: true, force: true });
+}
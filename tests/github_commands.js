@@ -0,0 +1,126 @@
+import assert from "node:assert/strict";
+import { EOL } from "node:os";
+import {
+  debug,
+  error,
+  escapeCommandData,
+  escapeCommandProperty,
+  formatCommand,
+  group,
+  notice,
+  parseCommand,
+  parseWorkflowCommands,
+  setSecret,
+  stopCommands,
+  warning,
+} from "../dist/index.js";
+
+// Captures what the commands write to stdout
+const capture = async (callback) => {
+  const lines = [];
+  const write = process.stdout.write;
+  process.stdout.write = (chunk) => {
+    lines.push(...String(chunk).split(EOL).filter(Boolean));
+    return true;
+  };
+  try {
+    await callback();
+  } finally {
+    process.stdout.write = write;
+  }
+  return lines;
+};
+
+// Escaping: %, CR and LF everywhere, : and , in properties too
+assert.equal(escapeCommandData("50% done\r\nnext"), "50%25 done%0D%0Anext");
+assert.equal(escapeCommandData("a:b,c"), "a:b,c");
+assert.equal(escapeCommandData(undefined), "");
+assert.equal(escapeCommandData({ a: 1 }), '{"a":1}');
+assert.equal(escapeCommandProperty("a:b,c%\n"), "a%3Ab%2Cc%25%0A");
+assert.equal(
+  escapeCommandData("%0A"),
+  "%250A",
+  "escapes are not decoded twice",
+);
+console.log("escaping: data and property escapes");
+
+// Formatting skips empty properties, parsing reverses it
+assert.equal(
+  formatCommand(
+    "warning",
+    { file: "src/a,b.ts", line: 3, col: undefined, title: "" },
+    "Deprecated\nuse b",
+  ),
+  "::warning file=src/a%2Cb.ts,line=3::Deprecated%0Ause b",
+);
+assert.equal(formatCommand("endgroup", {}, ""), "::endgroup::");
+
+const message = "100% :: done\r\nreally, done";
+const properties = { title: "a:b,c", file: "x%y.ts" };
+assert.deepEqual(parseCommand(formatCommand("notice", properties, message)), {
+  command: "notice",
+  properties,
+  message,
+});
+assert.equal(parseCommand("plain output"), undefined);
+assert.equal(parseCommand("::no-terminator"), undefined);
+console.log("formatCommand: round trips through parseCommand");
+
+// Annotations and groups
+const annotations = await capture(async () => {
+  error("Missing semicolon", { file: "src/app.ts", line: 10, col: 15 });
+  warning(new TypeError("bad type"), { title: "Types" });
+  notice("Cache restored");
+  const value = await group("Install", () => 42);
+  assert.equal(value, 42);
+  await assert.rejects(
+    group("Broken", () => {
+      throw new Error("boom");
+    }),
+    /boom/,
+  );
+});
+assert.deepEqual(annotations, [
+  "::error file=src/app.ts,line=10,col=15::Missing semicolon",
+  "::warning title=Types::TypeError: bad type",
+  "::notice::Cache restored",
+  "::group::Install",
+  "::endgroup::",
+  "::group::Broken",
+  "::endgroup::",
+]);
+console.log("annotations: error, warning, notice and groups");
+
+// Masking and debug logging
+const masked = await capture(() => {
+  setSecret("p@ss:word\nline");
+  assert.equal(debug("hidden", { env: {} }), false);
+  assert.equal(debug("shown 50%", { env: { RUNNER_DEBUG: "1" } }), true);
+});
+assert.deepEqual(masked, [
+  "::add-mask::p@ss:word%0Aline",
+  "::debug::shown 50%25",
+]);
+console.log("masking and debug: add-mask and RUNNER_DEBUG");
+
+// stop-commands hides commands until the token is written back
+const stopped = await capture(() => {
+  const resume = stopCommands("pause-token");
+  process.stdout.write(`::error::not a command${EOL}`);
+  resume();
+  resume();
+  notice("back");
+});
+assert.deepEqual(stopped, [
+  "::stop-commands::pause-token",
+  "::error::not a command",
+  "::pause-token::",
+  "::notice::back",
+]);
+assert.deepEqual(parseWorkflowCommands(stopped.join("\n")), [
+  { command: "notice", properties: {}, message: "back" },
+]);
+
+const [random] = await capture(() => stopCommands()());
+assert.match(random, /^::stop-commands::[0-9a-f-]{36}$/);
+console.log("stopCommands: resume token and parseWorkflowCommands");
@@ -0,0 +1,109 @@
+import assert from "node:assert/strict";
+import { mkdtempSync, rmSync, writeFileSync } from "node:fs";
+import { tmpdir } from "node:os";
+import { join } from "node:path";
+import { getGithubContext } from "../dist/index.js";
+
+// Values come from the environment
+const env = {
+  GITHUB_ACTIONS: "true",
+  GITHUB_EVENT_NAME: "push",
+  GITHUB_REPOSITORY: "octo-org/octo-repo",
+  GITHUB_REF: "refs/heads/main",
+  GITHUB_REF_NAME: "main",
+  GITHUB_REF_TYPE: "branch",
+  GITHUB_SHA: "a".repeat(40),
+  GITHUB_RUN_ID: "1001",
+  GITHUB_RUN_NUMBER: "7",
+  GITHUB_RUN_ATTEMPT: "2",
+  GITHUB_ACTOR: "octocat",
+  RUNNER_OS: "Linux",
+  RUNNER_ARCH: "X64",
+  RUNNER_DEBUG: "1",
+};
+const payload = {
+  ref: "refs/heads/payload",
+  after: "b".repeat(40),
+  repository: { name: "payload-repo", owner: { login: "payload-owner" } },
+};
+
+const context = getGithubContext({ env, payload });
+assert.equal(context.eventName, "push");
+assert.equal(context.repository, "octo-org/octo-repo");
+assert.deepEqual(context.repo, { owner: "octo-org", repo: "octo-repo" });
+assert.equal(context.ref, "refs/heads/main");
+assert.equal(context.refName, "main");
+assert.equal(context.refType, "branch");
+assert.equal(context.sha, "a".repeat(40));
+assert.equal(context.actor, "octocat");
+assert.equal(context.runAttempt, "2");
+assert.equal(
+  context.runUrl,
+  "https://github.com/octo-org/octo-repo/actions/runs/1001",
+);
+assert.equal(context.serverUrl, "https://github.com");
+assert.equal(context.apiUrl, "https://api.github.com");
+assert.equal(context.graphqlUrl, "https://api.github.com/graphql");
+assert.equal(context.runner.os, "Linux");
+assert.equal(context.runner.arch, "X64");
+assert.equal(context.runner.debug, true);
+assert.deepEqual(context.event, payload);
+console.log("context: environment values and defaults");
+
+// The payload fills in what the environment lacks
+const fallback = getGithubContext({
+  env: { GITHUB_EVENT_NAME: "push" },
+  payload,
+});
+assert.equal(fallback.repository, "payload-owner/payload-repo");
+assert.equal(fallback.repositoryOwner, "payload-owner");
+assert.equal(fallback.ref, "refs/heads/payload");
+assert.equal(fallback.sha, "b".repeat(40));
+assert.equal(fallback.runUrl, undefined);
+assert.equal(fallback.runner.debug, false);
+
+const pullRequest = getGithubContext({
+  env: {},
+  payload: { pull_request: { head: { sha: "c".repeat(40) } } },
+});
+assert.equal(pullRequest.sha, "c".repeat(40));
+
+const empty = getGithubContext({ env: {}, payload: undefined });
+assert.equal(empty.event, undefined);
+assert.equal(empty.repo, undefined);
+console.log("context: payload fallbacks");
+
+// The snapshot is frozen all the way down and detached from the payload
+assert.ok(Object.isFrozen(context));
+assert.ok(Object.isFrozen(context.runner));
+assert.ok(Object.isFrozen(context.repo));
+assert.ok(Object.isFrozen(context.event.repository.owner));
+assert.throws(() => {
+  context.sha = "changed";
+}, TypeError);
+assert.throws(() => {
+  context.event.repository.owner.login = "changed";
+}, TypeError);
+
+assert.ok(!Object.isFrozen(payload), "the caller's payload is not frozen");
+assert.notEqual(context.event, payload);
+payload.repository.name = "renamed";
+assert.equal(context.event.repository.name, "payload-repo");
+console.log("freezing: deep, and independent of the source payload");
+
+// Without a payload option the event is read from GITHUB_EVENT_PATH
+const dir = mkdtempSync(join(tmpdir(), "context-"));
+
+try {
+  const eventPath = join(dir, "event.json");
+  writeFileSync(eventPath, JSON.stringify({ action: "opened", number: 3 }));
+  const fromFile = getGithubContext({
+    env: { GITHUB_EVENT_NAME: "pull_request", GITHUB_EVENT_PATH: eventPath },
+  });
+  assert.equal(fromFile.eventPath, eventPath);
+  assert.deepEqual(fromFile.event, { action: "opened", number: 3 });
+  assert.ok(Object.isFrozen(fromFile.event));
+  console.log("context: event read from GITHUB_EVENT_PATH");
+} finally {
+  rmSync(dir, { recursive: true, force: true });
+}
@@ -0,0 +1,154 @@
+import assert from "node:assert/strict";
+import { mkdtempSync, readFileSync, rmSync, writeFileSync } from "node:fs";
+import { EOL, tmpdir } from "node:os";
+import { delimiter, join } from "node:path";
+import {
+  addPath,
+  appendStepSummary,
+  clearStepSummary,
+  exportVariable,
+  formatKeyValueFileCommand,
+  overwriteStepSummary,
+  parseKeyValueFileCommands,
+  readKeyValueFileCommands,
+  setOutput,
+  toCommandValue,
+} from "../dist/index.js";
+
+// Values are strings, null and undefined are empty, the rest JSON
+assert.equal(toCommandValue("text"), "text");
+assert.equal(toCommandValue(undefined), "");
+assert.equal(toCommandValue(null), "");
+assert.equal(toCommandValue(42), "42");
+assert.equal(toCommandValue(false), "false");
+assert.equal(toCommandValue({ os: ["linux"] }), '{"os":["linux"]}');
+console.log("toCommandValue: strings, empty values and JSON");
+
+// Single lines use name=value, multiline values a random heredoc delimiter
+assert.equal(formatKeyValueFileCommand("version", "1.2.3"), "version=1.2.3");
+assert.equal(formatKeyValueFileCommand("empty", ""), "empty=");
+
+const heredoc = formatKeyValueFileCommand("notes", "line one\nline two");
+const [, heredocDelimiter] = /^notes<<(ghadelimiter_[0-9a-f-]{36})/.exec(
+  heredoc,
+);
+assert.equal(
+  heredoc,
+  `notes<<${heredocDelimiter}${EOL}line one\nline two${EOL}${heredocDelimiter}`,
+);
+assert.notEqual(
+  /<<(\S+)/.exec(formatKeyValueFileCommand("notes", "a\nb"))[1],
+  heredocDelimiter,
+  "each heredoc gets its own delimiter",
+);
+assert.match(
+  formatKeyValueFileCommand("crlf", "a\r\nb"),
+  /^crlf<<ghadelimiter_/,
+);
+
+for (const name of ["", "a=b", "a<<b", "a\nb", "a\rb"]) {
+  assert.throws(
+    () => formatKeyValueFileCommand(name, "value"),
+    /File command name/,
+  );
+}
+console.log("formatKeyValueFileCommand: name=value and heredoc delimiters");
+
+// Parsing is the inverse of formatting, later entries win
+const content = [
+  "version=1.2.3",
+  formatKeyValueFileCommand("notes", "line one\nline two"),
+  "url=https://example.com/?a=b",
+  "version=2.0.0",
+  "",
+].join(EOL);
+assert.deepEqual(parseKeyValueFileCommands(content), {
+  version: "2.0.0",
+  notes: "line one\nline two",
+  url: "https://example.com/?a=b",
+});
+assert.deepEqual(parseKeyValueFileCommands("a<<EOF\n=x\nEOF\n"), { a: "=x" });
+assert.throws(() => parseKeyValueFileCommands("just text"), /line 1/);
+assert.throws(
+  () => parseKeyValueFileCommands("notes<<EOF\nline one\n"),
+  /delimiter "EOF" not found/,
+);
+console.log("parseKeyValueFileCommands: round trips formatted entries");
+
+const dir = mkdtempSync(join(tmpdir(), "file-commands-"));
+
+try {
+  const files = {
+    GITHUB_OUTPUT: join(dir, "output"),
+    GITHUB_ENV: join(dir, "env"),
+    GITHUB_PATH: join(dir, "path"),
+    GITHUB_STEP_SUMMARY: join(dir, "summary"),
+  };
+  const env = { ...files, PATH: "/usr/bin" };
+
+  // Writers append to the files the env points at
+  assert.equal(setOutput("version", "1.2.3", { env }), true);
+  assert.equal(setOutput("matrix", { node: [20, 22] }, { env }), true);
+  assert.equal(setOutput("changelog", "- one\n- two", { env }), true);
+  assert.deepEqual(readKeyValueFileCommands("GITHUB_OUTPUT", { env }), {
+    version: "1.2.3",
+    matrix: '{"node":[20,22]}',
+    changelog: "- one\n- two",
+  });
+
+  assert.equal(exportVariable("NODE_ENV", "production", { env }), true);
+  assert.equal(env.NODE_ENV, "production", "current environment updated");
+  assert.deepEqual(readKeyValueFileCommands("GITHUB_ENV", { env }), {
+    NODE_ENV: "production",
+  });
+
+  assert.equal(addPath("/opt/tool/bin", { env }), true);
+  assert.equal(env.PATH, `/opt/tool/bin${delimiter}/usr/bin`);
+  assert.equal(readFileSync(files.GITHUB_PATH, "utf8"), `/opt/tool/bin${EOL}`);
+  assert.throws(() => addPath("a\nb", { env }), /line breaks/);
+  console.log("writers: outputs, env and PATH written to their files");
+
+  // Summaries can be appended to, replaced and cleared
+  appendStepSummary("## Results", { env });
+  appendStepSummary("All passed", { env });
+  assert.equal(
+    readFileSync(files.GITHUB_STEP_SUMMARY, "utf8"),
+    `## Results${EOL}All passed${EOL}`,
+  );
+  assert.equal(overwriteStepSummary("Replaced", { env }), true);
+  assert.equal(
+    readFileSync(files.GITHUB_STEP_SUMMARY, "utf8"),
+    `Replaced${EOL}`,
+  );
+  assert.equal(clearStepSummary({ env }), true);
+  assert.equal(readFileSync(files.GITHUB_STEP_SUMMARY, "utf8"), "");
+  console.log("summary: append, overwrite and clear");
+
+  // Without the variables nothing is written
+  const local = {};
+  assert.equal(setOutput("version", "1", { env: local }), false);
+  assert.equal(exportVariable("A", "1", { env: local }), false);
+  assert.equal(local.A, "1");
+  assert.equal(addPath("/bin", { env: local }), false);
+  assert.equal(appendStepSummary("x", { env: local }), false);
+  assert.equal(clearStepSummary({ env: local }), false);
+  assert.equal(
+    readKeyValueFileCommands("GITHUB_OUTPUT", { env: local }),
+    undefined,
+  );
+  assert.equal(
+    readKeyValueFileCommands("GITHUB_OUTPUT", {
+      env: { GITHUB_OUTPUT: join(dir, "missing") },
+    }),
+    undefined,
+  );
+
+  writeFileSync(files.GITHUB_ENV, "broken<<EOF\n");
+  assert.throws(
+    () => readKeyValueFileCommands("GITHUB_ENV", { env }),
+    /not found/,
+  );
+  console.log("missing files: writers report false, readers undefined");
+} finally {
+  rmSync(dir, { recursive: true, force: true });
+}
@@ -0,0 +1,116 @@
+import assert from "node:assert/strict";
+import {
+  createEventPayload,
+  createIssueCommentPayload,
+  createPullRequestPayload,
+  createPushPayload,
+  getGithubEventPayloadSafe,
+  getPullRequestContext,
+  validateEventPayload,
+} from "../dist/index.js";
+
+const events = [
+  "push",
+  "pull_request",
+  "issues",
+  "issue_comment",
+  "release",
+  "workflow_dispatch",
+  "schedule",
+  "workflow_run",
+  "merge_group",
+];
+
+// Every fixture is a valid payload for its event
+for (const event of events) {
+  const payload = createEventPayload(event);
+  assert.deepEqual(validateEventPayload(event, payload), [], event);
+
+  const result = getGithubEventPayloadSafe(event, {
+    env: { GITHUB_EVENT_NAME: event },
+    source: payload,
+    validate: true,
+  });
+  assert.equal(result.success, true, event);
+  assert.equal(result.data, payload);
+
+  // Deterministic, so snapshots stay stable
+  assert.deepEqual(createEventPayload(event), payload, event);
+}
+console.log("fixtures: every event passes validation");
+
+// Shared values come from the options
+const push = createPushPayload(
+  {},
+  { sha: "a".repeat(40), baseSha: "b".repeat(40), defaultBranch: "trunk" },
+);
+assert.equal(push.ref, "refs/heads/trunk");
+assert.equal(push.after, "a".repeat(40));
+assert.equal(push.before, "b".repeat(40));
+assert.equal(push.head_commit.id, push.after);
+assert.deepEqual(push.head_commit, push.commits[0]);
+push.head_commit.message = "Amended";
+assert.equal(push.commits[0].message, "Update README.md", "not shared");
+assert.equal(push.repository.default_branch, "trunk");
+
+const other = createEventPayload("release", {}, { repository: "acme/tool" });
+assert.equal(other.repository.full_name, "acme/tool");
+assert.equal(other.repository.owner.login, "acme");
+assert.match(other.release.html_url, /^https:\/\/github\.com\/acme\/tool\//);
+console.log("options: SHAs, branch and repository flow through the payload");
+
+// Deep overrides replace only the fields they name
+const fork = createPullRequestPayload({
+  pull_request: {
+    title: "Fix typo",
+    head: { repo: { full_name: "someone/octo-repo", fork: true } },
+  },
+});
+assert.equal(fork.pull_request.title, "Fix typo");
+assert.equal(fork.pull_request.number, 1);
+assert.equal(fork.pull_request.state, "open");
+assert.equal(fork.pull_request.head.ref, "feature");
+assert.equal(fork.pull_request.head.repo.full_name, "someone/octo-repo");
+assert.equal(fork.pull_request.head.repo.fork, true);
+assert.equal(fork.pull_request.head.repo.name, "octo-repo");
+assert.equal(fork.pull_request.head.repo.owner.login, "octo-org");
+assert.equal(fork.pull_request.base.repo.full_name, "octo-org/octo-repo");
+assert.equal(fork.repository.full_name, "octo-org/octo-repo");
+assert.equal(
+  getPullRequestContext({
+    env: { GITHUB_EVENT_NAME: "pull_request" },
+    payload: fork,
+  })?.isFork,
+  true,
+);
+
+// Arrays are replaced as a whole, undefined overrides are ignored
+const empty = createPushPayload({ commits: [], forced: undefined });
+assert.deepEqual(empty.commits, []);
+assert.equal(empty.forced, false);
+assert.equal(empty.head_commit.message, "Update README.md");
+console.log("overrides: merged deeply, siblings kept");
+
+// The repository objects are separate, so changing one leaves the rest alone
+const pr = createPullRequestPayload();
+assert.notEqual(pr.pull_request.head.repo, pr.repository);
+assert.notEqual(pr.pull_request.base.repo, pr.repository);
+assert.notEqual(pr.pull_request.head.repo, pr.pull_request.base.repo);
+pr.repository.name = "renamed";
+pr.pull_request.head.repo.owner.login = "someone";
+assert.equal(pr.pull_request.base.repo.name, "octo-repo");
+assert.equal(pr.pull_request.head.repo.name, "octo-repo");
+assert.equal(pr.pull_request.base.repo.owner.login, "octo-org");
+assert.equal(pr.repository.owner.login, "octo-org");
+console.log("repositories: payload, head and base do not share objects");
+
+// issue_comment on a pull request
+const comment = createIssueCommentPayload(
+  { comment: { body: "/deploy" } },
+  { pullRequest: true, number: 42 },
+);
+assert.equal(comment.comment.body, "/deploy");
+assert.equal(comment.issue.number, 42);
+assert.ok(comment.issue.pull_request);
+assert.equal(createIssueCommentPayload().issue.pull_request, undefined);
+console.log("issue_comment: issues and pull requests");
@@ -0,0 +1,158 @@
+import assert from "node:assert/strict";
+import { createServer } from "node:http";
+import {
+  GithubApiError,
+  graphql,
+  GraphqlError,
+  iterateGraphql,
+  paginateGraphql,
+} from "../dist/index.js";
+
+const cursors = [];
+const pages = {
+  "": { nodes: [{ tag: "v1" }, null], hasNextPage: true, endCursor: "c1" },
+  c1: { nodes: [{ tag: "v2" }], hasNextPage: true, endCursor: "c2" },
+  c2: { nodes: [{ tag: "v3" }], hasNextPage: false, endCursor: null },
+};
+
+const server = createServer(async (req, res) => {
+  const json = (status, body) => {
+    res.writeHead(status, { "content-type": "application/json" });
+    res.end(JSON.stringify(body));
+  };
+
+  let raw = "";
+  for await (const chunk of req) raw += chunk;
+  const { query, variables = {} } = JSON.parse(raw);
+
+  if (req.headers.authorization !== "Bearer secret") {
+    json(401, { message: "Bad credentials" });
+    return;
+  }
+
+  if (query.includes("missing")) {
+    json(200, {
+      data: { repository: null },
+      errors: [
+        {
+          type: "NOT_FOUND",
+          path: ["repository"],
+          message: "Could not resolve to a Repository",
+        },
+      ],
+    });
+    return;
+  }
+
+  if (query.includes("releases")) {
+    const cursor = variables.cursor ?? variables.after ?? null;
+    cursors.push(cursor);
+    const { nodes, hasNextPage, endCursor } = pages[cursor ?? ""];
+    const releases = query.includes("edges")
+      ? { edges: nodes.map((node) => ({ node })) }
+      : { nodes };
+    json(200, {
+      data: {
+        repository: {
+          releases: { ...releases, pageInfo: { hasNextPage, endCursor } },
+        },
+      },
+    });
+    return;
+  }
+
+  if (query.includes("twice")) {
+    const connection = { nodes: [], pageInfo: { hasNextPage: false } };
+    json(200, { data: { a: connection, b: connection } });
+    return;
+  }
+
+  json(200, { data: { viewer: { login: "octocat" }, variables } });
+});
+
+await new Promise((resolve) => server.listen(0, resolve));
+
+const options = {
+  env: {
+    GITHUB_TOKEN: "secret",
+    GITHUB_GRAPHQL_URL: `http://localhost:${server.address().port}/graphql`,
+  },
+};
+
+try {
+  const data = await graphql(
+    "query ($name: String!) { viewer { login } }",
+    { name: "octo" },
+    options,
+  );
+  assert.deepEqual(data, {
+    viewer: { login: "octocat" },
+    variables: { name: "octo" },
+  });
+  console.log("graphql: data returned, url and token read from env");
+
+  await assert.rejects(
+    graphql("query { missing: repository { id } }", {}, options),
+    (error) => {
+      assert.ok(error instanceof GraphqlError);
+      assert.equal(
+        error.message,
+        "GraphQL request failed: Could not resolve to a Repository (at repository)",
+      );
+      assert.deepEqual(error.types, ["NOT_FOUND"]);
+      assert.deepEqual(error.data, { repository: null });
+      assert.match(error.query, /missing/);
+      return true;
+    },
+  );
+  await assert.rejects(
+    graphql("query { viewer { login } }", {}, { ...options, token: "wrong" }),
+    (error) => {
+      assert.ok(error instanceof GithubApiError);
+      assert.ok(!(error instanceof GraphqlError));
+      assert.equal(error.status, 401);
+      return true;
+    },
+  );
+  console.log(
+    "errors: GraphqlError for errors arrays, GithubApiError otherwise",
+  );
+
+  const query = `query ($cursor: String) {
+    repository { releases(first: 2, after: $cursor) { nodes { tag } pageInfo { hasNextPage endCursor } } }
+  }`;
+  const seen = [];
+  for await (const page of iterateGraphql(query, {}, options)) {
+    seen.push(page.repository.releases.nodes.length);
+  }
+  assert.deepEqual(seen, [2, 1, 1]);
+  assert.deepEqual(cursors, [null, "c1", "c2"]);
+
+  cursors.length = 0;
+  const tags = await paginateGraphql(query, {}, options);
+  assert.deepEqual(tags, [{ tag: "v1" }, { tag: "v2" }, { tag: "v3" }]);
+  assert.deepEqual(cursors, [null, "c1", "c2"]);
+  console.log("iterateGraphql: follows endCursor until hasNextPage is false");
+
+  cursors.length = 0;
+  const edges = await paginateGraphql(
+    "query ($after: String) { releases edges }",
+    {},
+    {
+      ...options,
+      cursorVariable: "after",
+      connection: (data) => data.repository.releases,
+    },
+  );
+  assert.deepEqual(edges, [{ tag: "v1" }, { tag: "v2" }, { tag: "v3" }]);
+  assert.deepEqual(cursors, [null, "c1", "c2"]);
+  console.log("paginateGraphql: edges, custom cursor and connection");
+
+  await assert.rejects(
+    paginateGraphql("query { twice }", {}, options),
+    /Several connections with pageInfo found/,
+  );
+  console.log("paginateGraphql: ambiguous connections rejected");
+} finally {
+  server.close();
+}
@@ -0,0 +1,147 @@
+import assert from "node:assert/strict";
+import {
+  getBooleanInput,
+  getEnumInput,
+  getInput,
+  getInputEnvName,
+  getJsonInput,
+  getMultilineInput,
+  getNumberInput,
+  InputError,
+} from "../dist/index.js";
+
+const throwsInput = (read, name, pattern) =>
+  assert.throws(read, (error) => {
+    assert.ok(error instanceof InputError);
+    assert.equal(error.input, name);
+    assert.match(error.message, pattern);
+    return true;
+  });
+
+// Plain strings, names map to INPUT_* variables
+assert.equal(getInputEnvName("node version"), "INPUT_NODE_VERSION");
+assert.equal(getInputEnvName("github-token"), "INPUT_GITHUB-TOKEN");
+
+const env = {
+  "INPUT_GITHUB-TOKEN": "  secret  ",
+  INPUT_NODE_VERSION: "20",
+  INPUT_BLANK: "   ",
+};
+assert.equal(getInput("github-token", { env }), "secret");
+assert.equal(
+  getInput("github-token", { env, trimWhitespace: false }),
+  "  secret  ",
+);
+assert.equal(getInput("node version", { env }), "20");
+assert.equal(getInput("missing", { env }), "");
+assert.equal(getInput("blank", { env, default: "fallback" }), "fallback");
+assert.equal(getInput("missing", { env, required: true, default: "x" }), "x");
+throwsInput(
+  () => getInput("blank", { env, required: true }),
+  "blank",
+  /^Input required and not supplied: blank \(expected INPUT_BLANK to be set\)$/,
+);
+console.log("getInput: env names, trimming, defaults and required");
+
+// Booleans follow the YAML 1.2 core schema only
+for (const value of ["true", "True", "TRUE"]) {
+  assert.equal(getBooleanInput("flag", { env: { INPUT_FLAG: value } }), true);
+}
+for (const value of ["false", "False", "FALSE"]) {
+  assert.equal(getBooleanInput("flag", { env: { INPUT_FLAG: value } }), false);
+}
+for (const value of ["yes", "1", "on", "tRUE"]) {
+  throwsInput(
+    () => getBooleanInput("flag", { env: { INPUT_FLAG: value } }),
+    "flag",
+    /YAML 1\.2 "Core Schema" specification: flag/,
+  );
+}
+assert.equal(getBooleanInput("flag", { env: {} }), undefined);
+assert.equal(getBooleanInput("flag", { env: {}, default: true }), true);
+assert.equal(getBooleanInput("flag", { env: { INPUT_FLAG: " true\n" } }), true);
+console.log("getBooleanInput: true/True/TRUE and false/False/FALSE only");
+
+// Multiline inputs drop empty lines and trim each line
+const files = { INPUT_FILES: "  dist/index.js\r\n\n  dist/index.d.ts  \n" };
+assert.deepEqual(getMultilineInput("files", { env: files }), [
+  "dist/index.js",
+  "dist/index.d.ts",
+]);
+assert.deepEqual(
+  getMultilineInput("files", { env: files, trimWhitespace: false }),
+  ["  dist/index.js", "  dist/index.d.ts  "],
+);
+assert.deepEqual(getMultilineInput("files", { env: {} }), []);
+assert.deepEqual(getMultilineInput("files", { env: {}, default: ["a"] }), [
+  "a",
+]);
+console.log("getMultilineInput: lines trimmed, empty lines dropped");
+
+// Numbers
+const number = (value, options = {}) =>
+  getNumberInput("retries", { env: { INPUT_RETRIES: value }, ...options });
+assert.equal(number("3"), 3);
+assert.equal(number(" 1.5 "), 1.5);
+assert.equal(number("0x10"), 16);
+assert.equal(number(""), undefined);
+assert.equal(number("", { default: 2 }), 2);
+throwsInput(
+  () => number("abc"),
+  "retries",
+  /^Input retries must be a number but got "abc"$/,
+);
+throwsInput(() => number("Infinity"), "retries", /must be a number/);
+throwsInput(
+  () => number("1.5", { integer: true }),
+  "retries",
+  /^Input retries must be an integer but got "1.5"$/,
+);
+throwsInput(
+  () => number("11", { min: 0, max: 10 }),
+  "retries",
+  /^Input retries must be between 0 and 10 but got 11$/,
+);
+throwsInput(
+  () => number("-1", { min: 0 }),
+  "retries",
+  /between 0 and Infinity but got -1/,
+);
+console.log("getNumberInput: parsing, integer and range checks");
+
+// Enums keep the spelling from the allowed values
+const levels = ["debug", "info", "warn"];
+const level = (value, options = {}) =>
+  getEnumInput("log-level", levels, {
+    env: { "INPUT_LOG-LEVEL": value },
+    ...options,
+  });
+assert.equal(level("INFO"), "info");
+assert.equal(level("", { default: "warn" }), "warn");
+throwsInput(
+  () => level("INFO", { caseSensitive: true }),
+  "log-level",
+  /^Input log-level must be one of "debug", "info", "warn" but got "INFO"$/,
+);
+throwsInput(() => level("trace"), "log-level", /but got "trace"/);
+console.log("getEnumInput: case-insensitive matching and errors");
+
+// JSON
+assert.deepEqual(
+  getJsonInput("matrix", {
+    env: { INPUT_MATRIX: '{ "node": ["20", "22"] }' },
+  }),
+  { node: ["20", "22"] },
+);
+assert.equal(getJsonInput("matrix", { env: {} }), undefined);
+throwsInput(
+  () => getJsonInput("matrix", { env: { INPUT_MATRIX: "{ node: 20 }" } }),
+  "matrix",
+  /^Input matrix is not valid JSON: /,
+);
+throwsInput(
+  () => getJsonInput("matrix", { env: {}, required: true }),
+  "matrix",
+  /Input required and not supplied: matrix/,
+);
+console.log("getJsonInput: parsed documents and invalid JSON");
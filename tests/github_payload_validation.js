@@ -0,0 +1,141 @@
+import assert from "node:assert/strict";
+import {
+  getGithubEventPayloadSafe,
+  getGithubEventPayloadSafeAsync,
+  validateEventPayload,
+} from "../dist/index.js";
+
+const repository = { full_name: "octo-org/octo-repo" };
+const sender = { login: "octocat" };
+const push = {
+  ref: "refs/heads/main",
+  before: "b".repeat(40),
+  after: "a".repeat(40),
+  commits: [],
+  pusher: { name: "octocat" },
+  repository,
+  sender,
+};
+
+// Valid payloads have no issues, events without rules only need an object
+assert.deepEqual(validateEventPayload("push", push), []);
+assert.deepEqual(validateEventPayload("schedule", {}), []);
+assert.deepEqual(
+  validateEventPayload("workflow_dispatch", {
+    ref: "refs/heads/main",
+    workflow: ".github/workflows/ci.yml",
+    inputs: null,
+    repository,
+    sender,
+  }),
+  [],
+  "nullable fields accept null",
+);
+
+// Missing fields and wrong types are reported by path
+assert.deepEqual(
+  validateEventPayload("push", { ...push, commits: {}, after: undefined }),
+  [
+    {
+      path: "after",
+      expected: "string",
+      received: "undefined",
+      message: 'Missing required field "after" for push event',
+    },
+    {
+      path: "commits",
+      expected: "array",
+      received: "object",
+      message: 'Expected "commits" to be array but got object',
+    },
+  ],
+);
+
+const pullRequest = validateEventPayload("pull_request", {
+  action: "opened",
+  number: 1,
+  pull_request: { number: "1", head: null, base: { sha: "b", ref: "main" } },
+  repository,
+  sender,
+});
+assert.deepEqual(
+  pullRequest.map(({ path, received }) => [path, received]),
+  [
+    ["pull_request.number", "string"],
+    ["pull_request.head", "null"],
+    ["pull_request.head.sha", "undefined"],
+    ["pull_request.head.ref", "undefined"],
+  ],
+);
+
+for (const [payload, received] of [
+  [null, "null"],
+  [[], "array"],
+  ["push", "string"],
+]) {
+  assert.deepEqual(validateEventPayload("push", payload), [
+    {
+      path: "",
+      expected: "object",
+      received,
+      message: `Expected the push payload to be an object but got ${received}`,
+    },
+  ]);
+}
+console.log("validateEventPayload: paths, expected and received types");
+
+// validate: true turns problems into error codes
+const env = { GITHUB_EVENT_NAME: "push" };
+assert.deepEqual(
+  getGithubEventPayloadSafe("push", { env, source: push, validate: true }),
+  { success: true, data: push },
+);
+
+const mismatch = getGithubEventPayloadSafe("pull_request", {
+  env,
+  source: push,
+  validate: true,
+});
+assert.deepEqual(mismatch, {
+  success: false,
+  code: "event-mismatch",
+  error: "Expected a pull_request event but the workflow was triggered by push",
+  issues: [],
+});
+
+const invalid = getGithubEventPayloadSafe("push", {
+  env,
+  source: { ...push, ref: 1 },
+  validate: true,
+});
+assert.equal(invalid.success, false);
+assert.equal(invalid.code, "invalid-payload");
+assert.equal(
+  invalid.error,
+  'Invalid push payload: Expected "ref" to be string but got number',
+);
+assert.deepEqual(
+  invalid.issues.map((issue) => issue.path),
+  ["ref"],
+);
+
+// Without validate the payload is returned as is
+assert.equal(
+  getGithubEventPayloadSafe("pull_request", { env, source: push }).success,
+  true,
+);
+
+// An explicit event name is checked when GITHUB_EVENT_NAME is not set
+assert.equal(
+  getGithubEventPayloadSafe("issues", { env: {}, source: push, validate: true })
+    .code,
+  "invalid-payload",
+);
+
+const asyncMismatch = await getGithubEventPayloadSafeAsync("release", {
+  env,
+  source: push,
+  validate: true,
+});
+assert.equal(asyncMismatch.code, "event-mismatch");
+console.log("validate: event-mismatch and invalid-payload codes");
@@ -0,0 +1,149 @@
+import assert from "node:assert/strict";
+import { mkdtempSync, rmSync, writeFileSync } from "node:fs";
+import { tmpdir } from "node:os";
+import { join } from "node:path";
+import {
+  clearGithubEventPayloadCache,
+  createPayloadGetter,
+  getGithubEventPayload,
+  getGithubEventPayloadAsync,
+  getGithubEventPayloadAuto,
+  getGithubEventPayloadAutoAsync,
+  getGithubEventPayloadSafe,
+  getGithubEventPayloadSafeAsync,
+} from "../dist/index.js";
+
+const dir = mkdtempSync(join(tmpdir(), "payloads-"));
+
+try {
+  const eventPath = join(dir, "event.json");
+  const write = (payload) => writeFileSync(eventPath, JSON.stringify(payload));
+  const env = { GITHUB_EVENT_NAME: "push", GITHUB_EVENT_PATH: eventPath };
+
+  // The env override decides which file and event are read
+  write({ ref: "refs/heads/main" });
+  assert.deepEqual(getGithubEventPayload("push", { env }), {
+    ref: "refs/heads/main",
+  });
+  assert.deepEqual(getGithubEventPayloadAuto({ env }), {
+    ref: "refs/heads/main",
+  });
+  assert.equal(getGithubEventPayloadAuto({ env: {} }), undefined);
+  assert.deepEqual(getGithubEventPayloadSafe(undefined, { env: {} }), {
+    success: false,
+    error: "GITHUB_EVENT_NAME not set and no eventName provided",
+    code: "event-name-not-set",
+    issues: [],
+  });
+  assert.deepEqual(getGithubEventPayloadSafe("push", { env: {} }), {
+    success: false,
+    error: "GITHUB_EVENT_PATH not set",
+    code: "event-path-not-set",
+    issues: [],
+  });
+  console.log("env: GITHUB_EVENT_PATH and GITHUB_EVENT_NAME overrides");
+
+  // Payloads are memoised per path and every caller gets its own copy
+  write({ ref: "refs/heads/first", commits: [{ id: "1" }] });
+  clearGithubEventPayloadCache();
+  const first = getGithubEventPayload("push", { env });
+  write({ ref: "refs/heads/second", commits: [] });
+  const second = getGithubEventPayload("push", { env });
+  assert.equal(second.ref, "refs/heads/first", "served from the cache");
+  assert.notEqual(first, second);
+
+  first.ref = "changed";
+  first.commits.push({ id: "2" });
+  const third = getGithubEventPayload("push", { env });
+  assert.equal(third.ref, "refs/heads/first");
+  assert.deepEqual(third.commits, [{ id: "1" }]);
+
+  assert.equal(
+    getGithubEventPayload("push", { env, cache: false }).ref,
+    "refs/heads/second",
+  );
+  assert.equal(getGithubEventPayload("push", { env }).ref, "refs/heads/first");
+  clearGithubEventPayloadCache();
+  assert.equal(getGithubEventPayload("push", { env }).ref, "refs/heads/second");
+  console.log("cache: memoised per path, cloned per caller, clearable");
+
+  // Sources: another file, a reader or an object
+  const otherPath = join(dir, "other.json");
+  writeFileSync(otherPath, JSON.stringify({ ref: "refs/heads/other" }));
+  assert.equal(
+    getGithubEventPayload("push", { env, source: otherPath }).ref,
+    "refs/heads/other",
+  );
+
+  const paths = [];
+  const reader = (path) => {
+    paths.push(path);
+    return '{"ref":"refs/heads/reader"}';
+  };
+  assert.equal(
+    getGithubEventPayload("push", { env, source: reader }).ref,
+    "refs/heads/reader",
+  );
+  assert.equal(
+    getGithubEventPayload("push", { env, source: reader }).ref,
+    "refs/heads/reader",
+  );
+  assert.deepEqual(paths, [eventPath, eventPath], "readers are not cached");
+
+  const object = { ref: "refs/heads/object" };
+  assert.equal(getGithubEventPayload("push", { source: object }), object);
+
+  const broken = getGithubEventPayloadSafe("push", {
+    env,
+    source: () => "{ not json",
+  });
+  assert.equal(broken.success, false);
+  assert.equal(broken.code, "read-failed");
+  assert.equal(
+    getGithubEventPayloadSafe("push", {
+      env,
+      source: join(dir, "missing.json"),
+    }).code,
+    "read-failed",
+  );
+  const getPush = createPayloadGetter("push", { env, source: object });
+  assert.equal(getPush(), object);
+  console.log("sources: file paths, readers and objects");
+
+  // Async readers accept promises and share the cache
+  const asyncEnv = { ...env, GITHUB_EVENT_PATH: join(dir, "async.json") };
+  writeFileSync(asyncEnv.GITHUB_EVENT_PATH, '{"ref":"refs/heads/async"}');
+  const viaAsync = await getGithubEventPayloadAsync("push", { env: asyncEnv });
+  assert.equal(viaAsync.ref, "refs/heads/async");
+  writeFileSync(asyncEnv.GITHUB_EVENT_PATH, '{"ref":"refs/heads/changed"}');
+  assert.equal(
+    getGithubEventPayload("push", { env: asyncEnv }).ref,
+    "refs/heads/async",
+  );
+  assert.equal(
+    (await getGithubEventPayloadAutoAsync({ env: asyncEnv, cache: false })).ref,
+    "refs/heads/changed",
+  );
+  assert.equal(
+    (
+      await getGithubEventPayloadAsync("push", {
+        env,
+        source: async (path) => JSON.stringify({ ref: path }),
+      })
+    ).ref,
+    eventPath,
+  );
+  const rejected = await getGithubEventPayloadSafeAsync("push", {
+    env,
+    source: () => Promise.reject(new Error("network down")),
+  });
+  assert.deepEqual(rejected, {
+    success: false,
+    error: "network down",
+    code: "read-failed",
+    issues: [],
+  });
+  console.log("async: readers, promises and the shared cache");
+} finally {
+  rmSync(dir, { recursive: true, force: true });
+}
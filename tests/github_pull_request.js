@@ -0,0 +1,187 @@
+import assert from "node:assert/strict";
+import { createServer } from "node:http";
+import {
+  fetchPullRequestContext,
+  getPullRequestContext,
+} from "../dist/index.js";
+
+const repo = (fullName) => ({
+  name: fullName.split("/")[1],
+  full_name: fullName,
+  owner: { login: fullName.split("/")[0] },
+  clone_url: `https://github.com/${fullName}.git`,
+});
+const pullRequestPayload = ({
+  number = 1,
+  headRepo = repo("octo-org/octo-repo"),
+  headSha = "h".repeat(40),
+  action = "opened",
+} = {}) => ({
+  action,
+  number,
+  pull_request: {
+    number,
+    title: "Update README.md",
+    user: { login: "octocat" },
+    base: {
+      ref: "main",
+      sha: "b".repeat(40),
+      repo: repo("octo-org/octo-repo"),
+    },
+    head: { ref: "feature", sha: headSha, repo: headRepo },
+  },
+});
+const issueCommentPayload = ({ number = 1, pullRequest = true } = {}) => ({
+  action: "created",
+  issue: {
+    number,
+    title: "Something is broken",
+    user: { login: "octocat" },
+    ...(pullRequest && {
+      pull_request: { url: `https://api.github.com/pulls/${number}` },
+    }),
+  },
+  comment: { body: "/deploy" },
+});
+
+const context = (eventName, payload, env = {}) =>
+  getPullRequestContext({
+    env: { GITHUB_EVENT_NAME: eventName, GITHUB_ACTOR: "octocat", ...env },
+    payload,
+  });
+
+const fromFork = pullRequestPayload({ headRepo: repo("someone/octo-repo") });
+const deletedHead = pullRequestPayload({ headRepo: null });
+
+// Fork detection and secret availability
+const cases = [
+  ["same repository", "pull_request", pullRequestPayload(), {}, false, true],
+  ["fork", "pull_request", fromFork, {}, true, false],
+  ["deleted head repository", "pull_request", deletedHead, {}, true, false],
+  [
+    "Dependabot",
+    "pull_request",
+    pullRequestPayload(),
+    { GITHUB_ACTOR: "dependabot[bot]" },
+    false,
+    false,
+  ],
+  [
+    "pull_request_target from a fork",
+    "pull_request_target",
+    fromFork,
+    {},
+    true,
+    true,
+  ],
+  [
+    "review on a fork",
+    "pull_request_review",
+    { ...fromFork, action: "submitted" },
+    {},
+    true,
+    false,
+  ],
+  [
+    "issue_comment",
+    "issue_comment",
+    issueCommentPayload(),
+    {},
+    undefined,
+    true,
+  ],
+];
+for (const [
+  label,
+  eventName,
+  payload,
+  env,
+  isFork,
+  secretsAvailable,
+] of cases) {
+  const pr = context(eventName, payload, env);
+  assert.equal(pr?.isFork, isFork, label);
+  assert.equal(pr?.secretsAvailable, secretsAvailable, label);
+}
+console.log(
+  "matrix: isFork and secretsAvailable per event and head repository",
+);
+
+// The rest of the context
+const pr = context("pull_request", pullRequestPayload({ number: 7 }));
+assert.equal(pr.number, 7);
+assert.equal(pr.action, "opened");
+assert.equal(pr.baseRef, "main");
+assert.equal(pr.headRef, "feature");
+assert.deepEqual(pr.baseRepo, {
+  owner: "octo-org",
+  name: "octo-repo",
+  fullName: "octo-org/octo-repo",
+  cloneUrl: "https://github.com/octo-org/octo-repo.git",
+});
+assert.equal(pr.mergeRef, "refs/pull/7/merge");
+assert.equal(pr.headPullRef, "refs/pull/7/head");
+assert.equal(context("pull_request", deletedHead).headRepo, undefined);
+
+assert.equal(context("push", pullRequestPayload()), undefined);
+assert.equal(
+  context("issue_comment", issueCommentPayload({ pullRequest: false })),
+  undefined,
+  "comments on issues are not pull requests",
+);
+console.log("context: refs, repositories and non pull request events");
+
+// issue_comment lacks refs and SHAs, so they are fetched over REST
+const requests = [];
+const server = createServer((req, res) => {
+  requests.push(req.url);
+  const body =
+    req.url === "/repos/octo-org/octo-repo/pulls/42"
+      ? pullRequestPayload({
+          number: 42,
+          headRepo: repo("someone/octo-repo"),
+        }).pull_request
+      : { message: "Not Found" };
+  res.writeHead(body.message ? 404 : 200, {
+    "content-type": "application/json",
+  });
+  res.end(JSON.stringify(body));
+});
+await new Promise((resolve) => server.listen(0, resolve));
+
+try {
+  const options = (number) => ({
+    env: {
+      GITHUB_EVENT_NAME: "issue_comment",
+      GITHUB_REPOSITORY: "octo-org/octo-repo",
+      GITHUB_TOKEN: "secret",
+    },
+    payload: issueCommentPayload({ number }),
+    baseUrl: `http://localhost:${server.address().port}`,
+  });
+
+  const fetched = await fetchPullRequestContext(options(42));
+  assert.deepEqual(requests, ["/repos/octo-org/octo-repo/pulls/42"]);
+  assert.equal(fetched.eventName, "issue_comment");
+  assert.equal(fetched.headSha, "h".repeat(40));
+  assert.equal(fetched.baseSha, "b".repeat(40));
+  assert.equal(fetched.headRef, "feature");
+  assert.equal(fetched.headRepo.fullName, "someone/octo-repo");
+  assert.equal(fetched.isFork, true);
+  assert.equal(fetched.secretsAvailable, true);
+
+  // Payloads that already have the SHAs are not fetched again
+  requests.length = 0;
+  const local = await fetchPullRequestContext({
+    ...options(42),
+    env: { GITHUB_EVENT_NAME: "pull_request" },
+    payload: pullRequestPayload({ headSha: "l".repeat(40) }),
+  });
+  assert.equal(local.headSha, "l".repeat(40));
+  assert.deepEqual(requests, []);
+
+  await assert.rejects(fetchPullRequestContext(options(404)), /Not Found/);
+  console.log("fetchPullRequestContext: falls back to REST for comments");
+} finally {
+  server.close();
+}
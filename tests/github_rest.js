@@ -0,0 +1,170 @@
+import assert from "node:assert/strict";
+import { createServer } from "node:http";
+import {
+  createGithubRestClient,
+  GithubApiError,
+  GithubRateLimitError,
+} from "../dist/index.js";
+
+let secondaryHits = 0;
+
+const server = createServer((req, res) => {
+  const url = new URL(req.url, "http://localhost");
+  const base = `http://localhost:${server.address().port}`;
+  const json = (status, body, headers = {}) => {
+    res.writeHead(status, { "content-type": "application/json", ...headers });
+    res.end(JSON.stringify(body));
+  };
+
+  if (url.pathname === "/repos/octo/repo/labels") {
+    const page = Number(url.searchParams.get("page") ?? 1);
+    const link =
+      page < 3
+        ? {
+            link: `<${base}${url.pathname}?per_page=2&page=${page + 1}>; rel="next"`,
+          }
+        : {};
+    json(200, [{ name: `label-${page}a` }, { name: `label-${page}b` }], link);
+    return;
+  }
+
+  if (url.pathname === "/repos/octo/repo") {
+    if (req.headers["if-none-match"] === '"v1"') {
+      res.writeHead(304, { etag: '"v1"' });
+      res.end();
+      return;
+    }
+    json(200, { full_name: "octo/repo" }, { etag: '"v1"' });
+    return;
+  }
+
+  if (url.pathname === "/secondary") {
+    secondaryHits++;
+    if (secondaryHits === 1) {
+      json(
+        403,
+        { message: "You have exceeded a secondary rate limit" },
+        { "retry-after": "1" },
+      );
+      return;
+    }
+    json(200, { ok: true });
+    return;
+  }
+
+  if (url.pathname === "/retry-date") {
+    secondaryHits++;
+    if (secondaryHits === 1) {
+      // An HTTP date that has already passed, so no wait is needed
+      json(
+        429,
+        { message: "Too many requests" },
+        { "retry-after": new Date(Date.now() - 5000).toUTCString() },
+      );
+      return;
+    }
+    json(200, { ok: true });
+    return;
+  }
+
+  if (url.pathname === "/retry-invalid") {
+    json(429, { message: "Too many requests" }, { "retry-after": "soon" });
+    return;
+  }
+
+  if (url.pathname === "/exhausted") {
+    json(
+      403,
+      { message: "API rate limit exceeded" },
+      {
+        "x-ratelimit-limit": "60",
+        "x-ratelimit-remaining": "0",
+        "x-ratelimit-reset": String(Math.floor(Date.now() / 1000) + 3600),
+      },
+    );
+    return;
+  }
+
+  json(404, {
+    message: "Not Found",
+    documentation_url: "https://docs.github.com/rest",
+  });
+});
+
+await new Promise((resolve) => server.listen(0, resolve));
+
+const github = createGithubRestClient({
+  baseUrl: `http://localhost:${server.address().port}`,
+  env: { GITHUB_REPOSITORY: "octo/repo", GITHUB_TOKEN: "secret" },
+});
+
+try {
+  const labels = await github.paginate("GET /repos/{owner}/{repo}/labels");
+  assert.equal(labels.length, 6);
+  console.log("paginate:", labels.map((label) => label.name).join(", "));
+
+  const first = await github.request("GET /repos/{owner}/{repo}");
+  const second = await github.request("GET /repos/{owner}/{repo}");
+  assert.equal(first.fromCache, false);
+  assert.equal(second.fromCache, true);
+  assert.equal(second.data.full_name, "octo/repo");
+  const raw = await github.request("GET /repos/{owner}/{repo}", {
+    headers: { Accept: "application/vnd.github.raw+json" },
+  });
+  const otherToken = await github.request("GET /repos/{owner}/{repo}", {
+    headers: { authorization: "Bearer other" },
+  });
+  assert.equal(raw.fromCache, false);
+  assert.equal(otherToken.fromCache, false);
+  console.log("etag: cached per URL, media type and token");
+
+  const waits = [];
+  const secondary = await createGithubRestClient({
+    baseUrl: github.baseUrl,
+    onRateLimit: (info) => waits.push(info.waitMs),
+  }).request("GET /secondary");
+  assert.deepEqual(secondary.data, { ok: true });
+  assert.deepEqual(waits, [1000]);
+  console.log("secondary rate limit: retried after", waits[0], "ms");
+
+  secondaryHits = 0;
+  waits.length = 0;
+  const dated = await createGithubRestClient({
+    baseUrl: github.baseUrl,
+    onRateLimit: (info) => waits.push(info.waitMs),
+  }).request("GET /retry-date");
+  assert.deepEqual(dated.data, { ok: true });
+  assert.deepEqual(waits, [0]);
+
+  await assert.rejects(
+    createGithubRestClient({
+      baseUrl: github.baseUrl,
+      maxRateLimitWaitMs: 1000,
+    }).request("GET /retry-invalid"),
+    (error) => {
+      assert.ok(error instanceof GithubRateLimitError);
+      assert.equal(error.retryAfterMs, 60_000);
+      return true;
+    },
+  );
+  console.log(
+    "retry-after: HTTP dates parsed, unreadable values wait a minute",
+  );
+
+  await assert.rejects(github.request("/exhausted"), (error) => {
+    assert.ok(error instanceof GithubRateLimitError);
+    assert.equal(error.secondary, false);
+    return true;
+  });
+  console.log("primary rate limit: rejected without waiting an hour");
+
+  await assert.rejects(github.request("/missing"), (error) => {
+    assert.ok(error instanceof GithubApiError);
+    assert.equal(error.status, 404);
+    assert.equal(error.documentationUrl, "https://docs.github.com/rest");
+    return true;
+  });
+  console.log("errors: 404 surfaced as GithubApiError");
+} finally {
+  server.close();
+}
@@ -0,0 +1,95 @@
+import assert from "node:assert/strict";
+import { createEventRouter, EventRouter } from "../dist/index.js";
+
+const env = { GITHUB_EVENT_NAME: "pull_request" };
+const opened = { action: "opened", number: 1 };
+
+// Every matching pattern runs, in registration order
+const calls = [];
+const router = createEventRouter()
+  .on("pull_request.closed", () => calls.push("closed"))
+  .on("pull_request", (payload, context) => {
+    calls.push(["any", payload.number, context.eventName, context.action]);
+  })
+  .on(["push", "pull_request.opened"], async () => {
+    await new Promise((resolve) => setTimeout(resolve, 10));
+    calls.push("opened");
+  })
+  .on("pull_request.opened", () => calls.push("opened again"))
+  .fallback(() => calls.push("fallback"));
+
+assert.ok(router instanceof EventRouter);
+assert.equal(await router.dispatch({ env, source: opened }), 3);
+assert.deepEqual(calls, [
+  ["any", 1, "pull_request", "opened"],
+  "opened",
+  "opened again",
+]);
+console.log("dispatch: matching patterns run in registration order");
+
+// The fallback only runs when nothing matches
+calls.length = 0;
+assert.equal(
+  await router.dispatch({
+    env: { GITHUB_EVENT_NAME: "issues" },
+    source: { action: "opened" },
+  }),
+  1,
+);
+assert.deepEqual(calls, ["fallback"]);
+
+calls.length = 0;
+assert.equal(
+  await router.dispatch({
+    env: { GITHUB_EVENT_NAME: "push" },
+    source: { ref: "refs/heads/main" },
+  }),
+  1,
+);
+assert.deepEqual(calls, ["opened"], "payloads without an action match");
+
+const noFallback = createEventRouter().on("push", () => {});
+assert.equal(await noFallback.dispatch({ env, source: opened }), 0);
+
+let fallbackContext;
+await createEventRouter()
+  .fallback((payload, context) => {
+    fallbackContext = { payload, ...context };
+  })
+  .dispatch({ env: { GITHUB_EVENT_NAME: "schedule" }, source: {} });
+assert.deepEqual(fallbackContext, {
+  payload: {},
+  eventName: "schedule",
+  action: undefined,
+  signal: undefined,
+});
+console.log("fallback: runs only when no pattern matches");
+
+// Missing events and unreadable payloads are errors
+await assert.rejects(
+  createEventRouter().dispatch({ env: {} }),
+  /Cannot dispatch event: GITHUB_EVENT_NAME not set/,
+);
+await assert.rejects(
+  createEventRouter().dispatch({ env }),
+  /Cannot dispatch pull_request event: GITHUB_EVENT_PATH not set/,
+);
+
+// Handler errors propagate, and run passes its signal to handlers
+await assert.rejects(
+  createEventRouter()
+    .on("pull_request", () => {
+      throw new Error("handler broke");
+    })
+    .dispatch({ env, source: opened }),
+  /handler broke/,
+);
+
+let runSignal;
+await createEventRouter()
+  .on("pull_request.opened", (_, { signal }) => {
+    runSignal = signal;
+  })
+  .run({ env, source: opened, timeoutMs: 1000 });
+assert.ok(runSignal instanceof AbortSignal);
+console.log("errors: missing events, payloads and failing handlers");
@@ -0,0 +1,124 @@
+import assert from "node:assert/strict";
+import { readdirSync } from "node:fs";
+import { tmpdir } from "node:os";
+import { join } from "node:path";
+import {
+  addPath,
+  appendStepSummary,
+  createGithubActionsSandbox,
+  exportVariable,
+  getBooleanInput,
+  getGithubEventName,
+  getInput,
+  getPullRequestContext,
+  notice,
+  setOutput,
+  setSecret,
+  stopCommands,
+  warning,
+} from "../dist/index.js";
+
+const sandbox = createGithubActionsSandbox({
+  event: "pull_request",
+  payload: {
+    number: 7,
+    pull_request: {
+      number: 7,
+      base: { ref: "main", sha: "b".repeat(40) },
+      head: { ref: "feature", sha: "h".repeat(40) },
+    },
+    repository: { full_name: "octo/repo" },
+    sender: { login: "mona" },
+  },
+  inputs: { name: "world", "dry-run": true },
+  files: { "package.json": '{ "name": "demo" }' },
+});
+
+try {
+  assert.equal(sandbox.env.GITHUB_REF, "refs/pull/7/merge");
+  assert.equal(sandbox.env.GITHUB_HEAD_REF, "feature");
+  assert.equal(sandbox.env.GITHUB_ACTOR, "mona");
+  assert.equal(getPullRequestContext(sandbox.options)?.number, 7);
+
+  const outsideEnv = process.env;
+  const result = await sandbox.run(() => {
+    assert.equal(getGithubEventName(), "pull_request");
+    assert.equal(getBooleanInput("dry-run"), true);
+
+    setOutput("greeting", `Hello ${getInput("name")}`);
+    setOutput("multi", "one\ntwo");
+    exportVariable("MODE", "test");
+    addPath("/opt/tool/bin");
+    appendStepSummary("## Report");
+    setSecret("hunter2");
+    warning("Line too long", { file: "src/a.ts", line: 3, col: 81 });
+    const resume = stopCommands("pause");
+    console.log("::error::not a command while paused");
+    resume();
+    notice("done: 100%");
+    process.exitCode = 1;
+    return "ok";
+  });
+
+  assert.equal(result, "ok");
+  assert.equal(process.env, outsideEnv);
+  assert.equal(process.exitCode, undefined);
+
+  const { outputs, env, path, summary, annotations, secrets, exitCode } =
+    sandbox.getResult();
+  assert.deepEqual(outputs, { greeting: "Hello world", multi: "one\ntwo" });
+  assert.deepEqual(env, { MODE: "test" });
+  assert.deepEqual(path, ["/opt/tool/bin"]);
+  assert.equal(summary, "## Report\n");
+  assert.deepEqual(secrets, ["hunter2"]);
+  assert.deepEqual(annotations, [
+    {
+      level: "warning",
+      message: "Line too long",
+      file: "src/a.ts",
+      line: 3,
+      col: 81,
+    },
+    { level: "notice", message: "done: 100%" },
+  ]);
+  assert.equal(exitCode, 1);
+  console.log("run: outputs, env, path, summary and annotations read back");
+
+  await sandbox.exec(process.execPath, [
+    "-e",
+    `require("fs").appendFileSync(process.env.GITHUB_OUTPUT, "child=" + require("./package.json").name + "\\n");
+     console.log("::error file=index.js::failed");
+     process.exit(2);`,
+  ]);
+  const afterExec = sandbox.getResult();
+  assert.equal(afterExec.outputs.child, "demo");
+  assert.equal(afterExec.annotations.at(-1)?.message, "failed");
+  assert.equal(afterExec.exitCode, 2);
+  console.log("exec: child process results read back");
+
+  assert.equal(
+    sandbox.writeFile("src/../notes.txt", "ok"),
+    join(sandbox.workspace, "notes.txt"),
+  );
+  sandbox.writeFile("..config", "ok");
+  for (const path of ["../escape.txt", "src/../../escape.txt", "/tmp/x.txt"]) {
+    assert.throws(
+      () => sandbox.writeFile(path, "nope"),
+      /outside the sandbox workspace/,
+    );
+  }
+  console.log("writeFile: paths outside the workspace rejected");
+} finally {
+  sandbox.cleanup();
+}
+
+// A rejected file removes the temp dir the constructor already created
+const sandboxDirs = () =>
+  readdirSync(tmpdir()).filter((name) => name.startsWith("gha-sandbox-"));
+const before = sandboxDirs();
+assert.throws(
+  () => createGithubActionsSandbox({ files: { "../escape.txt": "nope" } }),
+  /outside the sandbox workspace/,
+);
+assert.deepEqual(sandboxDirs(), before);
+console.log("constructor: temp dir removed when a file is rejected");
@@ -0,0 +1,119 @@
+import assert from "node:assert/strict";
+import {
+  mkdtempSync,
+  readFileSync,
+  rmSync,
+  statSync,
+  writeFileSync,
+} from "node:fs";
+import { EOL, tmpdir } from "node:os";
+import { join } from "node:path";
+import {
+  createStepSummary,
+  STEP_SUMMARY_SIZE_LIMIT,
+  StepSummaryLimitError,
+} from "../dist/index.js";
+
+// The builder renders HTML, escaping attributes and code
+const html = createStepSummary({ env: {} })
+  .addHeading("Results", 2)
+  .addTable([
+    [
+      { data: "Suite", header: true },
+      { data: "Result", header: true, colspan: 2 },
+    ],
+    ["unit", "✅"],
+  ])
+  .addCodeBlock("if (a < b && c) {}", "js")
+  .addDetails("Logs", "<pre>ok</pre>")
+  .addList(["one", "two"], true)
+  .addLink("Coverage", 'https://example.com/?a=1&b="2"')
+  .addImage("chart.png", "Chart", { width: 100 })
+  .addQuote("Ship it", "https://example.com")
+  .addSeparator()
+  .addBreak()
+  .addRaw("done")
+  .stringify();
+
+assert.equal(
+  html,
+  [
+    "<h2>Results</h2>",
+    '<table><tr><th>Suite</th><th colspan="2">Result</th></tr><tr><td>unit</td><td>✅</td></tr></table>',
+    '<pre lang="js"><code>if (a &lt; b &amp;&amp; c) {}</code></pre>',
+    "<details><summary>Logs</summary><pre>ok</pre></details>",
+    "<ol><li>one</li><li>two</li></ol>",
+    '<a href="https://example.com/?a=1&amp;b=&quot;2&quot;">Coverage</a>',
+    '<img src="chart.png" alt="Chart" width="100">',
+    '<blockquote cite="https://example.com">Ship it</blockquote>',
+    "<hr>",
+    "<br>",
+    "done",
+  ].join(EOL),
+);
+console.log("builder: headings, tables, code, details, lists and links");
+
+// Nothing is written without GITHUB_STEP_SUMMARY
+const detached = createStepSummary({ env: {} }).addRaw("text");
+assert.equal(detached.write(), false);
+assert.equal(detached.stringify(), "text", "buffer kept for a later write");
+assert.equal(detached.clear(), false);
+
+const dir = mkdtempSync(join(tmpdir(), "summary-"));
+
+try {
+  const file = join(dir, "summary.md");
+  const env = { GITHUB_STEP_SUMMARY: file };
+
+  // Writing appends and empties the buffer, overwrite replaces the file
+  const summary = createStepSummary({ env });
+  assert.equal(summary.addHeading("First").write(), true);
+  assert.equal(summary.isEmptyBuffer(), true);
+  summary.addRaw("Second").write();
+  assert.equal(
+    readFileSync(file, "utf8"),
+    `<h1>First</h1>${EOL}${EOL}Second${EOL}`,
+  );
+
+  summary.addRaw("Only").write({ overwrite: true });
+  assert.equal(readFileSync(file, "utf8"), `Only${EOL}`);
+
+  summary.addRaw("pending");
+  assert.equal(summary.clear(), true);
+  assert.equal(summary.isEmptyBuffer(), true);
+  assert.equal(readFileSync(file, "utf8"), "");
+  console.log("write: append, overwrite and clear");
+
+  // The 1 MiB limit counts the bytes already in the file
+  const limit = STEP_SUMMARY_SIZE_LIMIT;
+  assert.equal(limit, 1024 * 1024);
+
+  const exact = "a".repeat(limit - Buffer.byteLength(EOL));
+  assert.equal(summary.addRaw(exact).write(), true);
+  assert.equal(statSync(file).size, limit);
+
+  summary.addRaw("x");
+  assert.throws(
+    () => summary.write(),
+    (error) => {
+      assert.ok(error instanceof StepSummaryLimitError);
+      assert.equal(error.limit, limit);
+      assert.equal(error.size, limit + 1 + Buffer.byteLength(EOL));
+      assert.match(error.message, /exceeds the 1048576 byte limit/);
+      return true;
+    },
+  );
+  assert.equal(summary.stringify(), "x", "buffer kept after a failed write");
+  assert.equal(statSync(file).size, limit, "file left untouched");
+
+  // Overwriting only counts the new content, multibyte text by its bytes
+  assert.equal(summary.write({ overwrite: true }), true);
+  assert.equal(readFileSync(file, "utf8"), `x${EOL}`);
+
+  writeFileSync(file, "");
+  const euros = "€".repeat(Math.ceil(limit / 3));
+  assert.throws(() => summary.addRaw(euros).write(), StepSummaryLimitError);
+  console.log("limit: 1 MiB including existing content, counted in bytes");
+} finally {
+  rmSync(dir, { recursive: true, force: true });
+}
@@ -0,0 +1,239 @@
+import assert from "node:assert/strict";
+import { mkdtempSync, rmSync, writeFileSync } from "node:fs";
+import { tmpdir } from "node:os";
+import { join } from "node:path";
+import {
+  createGlobMatcher,
+  filterChangedFiles,
+  getChangedFilesRange,
+  getEventChangedFiles,
+  globToRegExp,
+  matchGlob,
+  matchPathFilters,
+  parsePathFilters,
+  readKeyValueFileCommands,
+  setPathFilterOutputs,
+} from "../dist/index.js";
+
+const matches = (pattern, paths, options) =>
+  paths.filter((path) => matchGlob(path, pattern, options));
+
+// Globstars at the start, middle and end
+assert.deepEqual(
+  matches("**/*.ts", ["a.ts", "src/a.ts", "src/deep/a.ts", "a.js"]),
+  ["a.ts", "src/a.ts", "src/deep/a.ts"],
+);
+assert.deepEqual(
+  matches("src/**/test.js", ["src/test.js", "src/a/b/test.js", "test.js"]),
+  ["src/test.js", "src/a/b/test.js"],
+);
+assert.deepEqual(
+  matches("src/**", ["src", "src/a", "src/a/b", "srcx/a", "other/src/a"]),
+  ["src", "src/a", "src/a/b"],
+);
+assert.deepEqual(matches("src/*", ["src/a", "src/a/b", "src"]), ["src/a"]);
+console.log("globstar: leading, inner and trailing");
+
+// A trailing slash matches the directory itself and everything below it
+assert.deepEqual(
+  matches("docs/", ["docs", "docs/a.md", "docs/a/b.md", "docsx"]),
+  ["docs", "docs/a.md", "docs/a/b.md"],
+);
+assert.ok(matchGlob("./docs/", "docs/"));
+console.log("directories: trailing slash includes the directory");
+
+// Braces, classes and escapes
+assert.deepEqual(
+  matches("src/{a,b{c,d}}.ts", [
+    "src/a.ts",
+    "src/bc.ts",
+    "src/bd.ts",
+    "src/b.ts",
+  ]),
+  ["src/a.ts", "src/bc.ts", "src/bd.ts"],
+);
+assert.deepEqual(matches("{x}.ts", ["{x}.ts", "x.ts"]), ["{x}.ts"]);
+assert.deepEqual(
+  matches("file[!a].txt", ["filea.txt", "fileb.txt", "file/.txt"]),
+  ["fileb.txt"],
+);
+assert.deepEqual(matches("v[0-9].md", ["v1.md", "vx.md"]), ["v1.md"]);
+assert.deepEqual(matches("\\*.md", ["*.md", "a.md"]), ["*.md"]);
+assert.deepEqual(matches("a\\{b,c}", ["a{b,c}", "ab"]), ["a{b,c}"]);
+assert.equal(globToRegExp("A.TS", { caseSensitive: false }).test("a.ts"), true);
+console.log("syntax: nested braces, [!a] classes and escapes");
+
+// Dot files need { dot: true } unless named literally
+assert.deepEqual(matches("*", [".env", "env"]), ["env"]);
+assert.deepEqual(matches("**/ci.yml", [".github/ci.yml", "a/ci.yml"]), [
+  "a/ci.yml",
+]);
+assert.deepEqual(matches("**/ci.yml", [".github/ci.yml"], { dot: true }), [
+  ".github/ci.yml",
+]);
+assert.equal(matchGlob(".github/ci.yml", ".github/*.yml"), true);
+console.log("dot: wildcards skip dot files by default");
+
+// Negation, the last matching pattern decides
+const docs = createGlobMatcher([
+  "docs/**",
+  "!docs/drafts/**",
+  "docs/drafts/keep.md",
+]);
+assert.equal(docs("docs/guide.md"), true);
+assert.equal(docs("docs/drafts/wip.md"), false);
+assert.equal(docs("docs/drafts/keep.md"), true);
+assert.equal(docs("src/index.ts"), false);
+
+const notMarkdown = createGlobMatcher(["!**/*.md"]);
+assert.equal(notMarkdown("src/index.ts"), true);
+assert.equal(notMarkdown("README.md"), false);
+assert.equal(notMarkdown("docs/guide.md"), false);
+assert.equal(createGlobMatcher(["!*.md", "README.md"])("README.md"), true);
+console.log("negation: last match wins, a leading negation starts included");
+
+// Path filters, renames match on either side
+const files = [
+  {
+    path: "packages/api/src/index.ts",
+    previousPath: undefined,
+    status: "modified",
+    similarity: undefined,
+  },
+  {
+    path: "packages/api/README.md",
+    previousPath: undefined,
+    status: "modified",
+    similarity: undefined,
+  },
+  {
+    path: "lib/moved.ts",
+    previousPath: "packages/web/old.ts",
+    status: "renamed",
+    similarity: 100,
+  },
+  ".github/workflows/ci.yml",
+];
+const filters = parsePathFilters(`
+api:
+  - packages/api/**
+  - "!**/*.md"
+web: packages/web/**
+ci: .github/**
+docs: docs/**
+`);
+assert.deepEqual(filters.web, ["packages/web/**"]);
+const results = matchPathFilters(files, filters);
+assert.deepEqual(
+  results.api.files.map((file) => file.path),
+  ["packages/api/src/index.ts"],
+);
+assert.deepEqual(
+  results.web.files.map((file) => file.path),
+  ["lib/moved.ts"],
+);
+assert.equal(results.ci.matched, true);
+assert.deepEqual(results.docs, { matched: false, files: [] });
+assert.throws(() => parsePathFilters("- a\n"), /mapping/);
+assert.throws(() => parsePathFilters("api: [1]\n"), /"api"/);
+console.log("paths filter: negation, renames and dot files");
+
+// Step outputs use the dorny/paths-filter names
+const dir = mkdtempSync(join(tmpdir(), "glob-test-"));
+try {
+  const output = join(dir, "output");
+  writeFileSync(output, "");
+  const env = { GITHUB_OUTPUT: output };
+
+  setPathFilterOutputs(results, { env });
+  assert.deepEqual(readKeyValueFileCommands("GITHUB_OUTPUT", { env }), {
+    api: "true",
+    api_count: "1",
+    api_files: '["packages/api/src/index.ts"]',
+    web: "true",
+    web_count: "1",
+    web_files: '["lib/moved.ts"]',
+    ci: "true",
+    ci_count: "1",
+    ci_files: '[".github/workflows/ci.yml"]',
+    docs: "false",
+    docs_count: "0",
+    docs_files: "[]",
+    changes: '["api","web","ci"]',
+  });
+
+  writeFileSync(output, "");
+  const filtered = await filterChangedFiles("docs: docs/**\n", {
+    env,
+    files: ["docs/a.md"],
+  });
+  assert.equal(filtered.docs.matched, true);
+  assert.equal(
+    readKeyValueFileCommands("GITHUB_OUTPUT", { env }).changes,
+    '["docs"]',
+  );
+  console.log("outputs: <name>, <name>_count, <name>_files and changes");
+} finally {
+  rmSync(dir, { recursive: true, force: true });
+}
+
+// The commits to compare for each event
+assert.deepEqual(
+  getChangedFilesRange({
+    env: { GITHUB_EVENT_NAME: "pull_request" },
+    payload: {
+      action: "synchronize",
+      number: 7,
+      pull_request: { number: 7, base: { sha: "base" }, head: { sha: "head" } },
+    },
+  }),
+  { base: "base", head: "head", mergeBase: true },
+);
+assert.deepEqual(
+  getChangedFilesRange({
+    env: { GITHUB_EVENT_NAME: "push" },
+    payload: { before: "aaa", after: "bbb" },
+  }),
+  { base: "aaa", head: "bbb", mergeBase: false },
+);
+assert.deepEqual(
+  getChangedFilesRange({
+    env: { GITHUB_EVENT_NAME: "merge_group" },
+    payload: { merge_group: { base_sha: "base", head_sha: "head" } },
+  }),
+  { base: "base", head: "head", mergeBase: false },
+);
+assert.equal(
+  getChangedFilesRange({
+    env: { GITHUB_EVENT_NAME: "workflow_dispatch" },
+    payload: {},
+  }),
+  undefined,
+);
+
+// A push that created the branch falls back to the payload commits
+const created = {
+  env: { GITHUB_EVENT_NAME: "push" },
+  payload: {
+    before: "0".repeat(40),
+    after: "bbb",
+    commits: [
+      { added: ["new.ts"], modified: [], removed: ["gone.ts"] },
+      { added: [], modified: ["new.ts", "kept.ts"], removed: [] },
+    ],
+  },
+};
+assert.equal(getChangedFilesRange(created), undefined);
+assert.deepEqual(
+  (await getEventChangedFiles(created)).map((file) => [file.status, file.path]),
+  [
+    ["added", "new.ts"],
+    ["deleted", "gone.ts"],
+    ["modified", "kept.ts"],
+  ],
+);
+await assert.rejects(
+  getEventChangedFiles({ env: { GITHUB_EVENT_NAME: "schedule" }, payload: {} }),
+  /schedule event/,
+);
+console.log("range: pull_request, push, new branch push and merge_group");
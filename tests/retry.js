@@ -0,0 +1,217 @@
+import assert from "node:assert/strict";
+import { mkdtempSync, readFileSync, rmSync } from "node:fs";
+import { tmpdir } from "node:os";
+import { join } from "node:path";
+import {
+  CommandError,
+  CommandTerminatedError,
+  execCommand,
+  getRetryDelay,
+  retry,
+  TimeoutError,
+} from "../dist/index.js";
+
+// Fixed and exponential delays, capped at maxDelayMs
+assert.equal(getRetryDelay("fixed", 1, 0), 1000);
+assert.equal(getRetryDelay("fixed", 5, 1000, { initialDelayMs: 250 }), 250);
+assert.deepEqual(
+  [1, 2, 3, 4].map((n) => getRetryDelay("exponential", n, 0)),
+  [1000, 2000, 4000, 8000],
+);
+assert.equal(
+  getRetryDelay("exponential", 3, 0, { initialDelayMs: 100, factor: 3 }),
+  900,
+);
+assert.equal(getRetryDelay("exponential", 10, 0, { maxDelayMs: 5000 }), 5000);
+console.log("getRetryDelay: fixed and exponential, capped at maxDelayMs");
+
+// Decorrelated jitter stays between initialDelayMs and three times the
+// previous delay, checked at both ends of Math.random
+const random = Math.random;
+try {
+  const jitter = (value, previous, options) => {
+    Math.random = () => value;
+    return getRetryDelay("decorrelated-jitter", 2, previous, options);
+  };
+
+  assert.equal(jitter(0, 2000), 1000);
+  assert.equal(jitter(0.999999, 2000), 6000);
+  assert.equal(jitter(0.5, 2000), 3500);
+  assert.equal(jitter(0.5, 0), 1000, "first retry waits initialDelayMs");
+  assert.equal(jitter(0.999999, 20000, { maxDelayMs: 30000 }), 30000);
+} finally {
+  Math.random = random;
+}
+
+for (let i = 0, previous = 0; i < 50; i++) {
+  const delay = getRetryDelay("decorrelated-jitter", i + 1, previous, {
+    initialDelayMs: 10,
+    maxDelayMs: 400,
+  });
+  assert.ok(delay >= 10 && delay <= Math.min(400, Math.max(10, previous * 3)));
+  previous = delay;
+}
+console.log("getRetryDelay: decorrelated jitter within its bounds");
+
+const fast = { initialDelayMs: 1, backoff: "fixed" };
+
+// Attempt counts and the value of the first success
+const attempts = [];
+const value = await retry(
+  (attempt) => {
+    attempts.push(attempt);
+    if (attempt < 3) throw new Error(`flaky ${attempt}`);
+    return "ok";
+  },
+  { ...fast, maxAttempts: 5 },
+);
+assert.equal(value, "ok");
+assert.deepEqual(attempts, [1, 2, 3]);
+
+let calls = 0;
+await assert.rejects(
+  retry(
+    () => {
+      calls++;
+      throw new Error(`failed ${calls}`);
+    },
+    { ...fast, maxAttempts: 4 },
+  ),
+  /^Error: failed 4$/,
+);
+assert.equal(calls, 4, "stops after maxAttempts");
+
+calls = 0;
+await assert.rejects(
+  retry(() => Promise.reject(`rejected ${++calls}`), { maxAttempts: 1 }),
+  (error) => error instanceof Error && error.message === "rejected 1",
+);
+console.log("retry: attempt numbers, maxAttempts and the last error");
+
+// retryIf stops early, onRetry sees every failure with its delay
+const retried = [];
+calls = 0;
+await assert.rejects(
+  retry(
+    () => {
+      calls++;
+      throw new Error(calls < 3 ? "busy" : "fatal");
+    },
+    {
+      maxAttempts: 10,
+      initialDelayMs: 5,
+      factor: 2,
+      retryIf: (error) => error.message === "busy",
+      onRetry: (error, attempt, delayMs) =>
+        retried.push([error.message, attempt, delayMs]),
+    },
+  ),
+  /fatal/,
+);
+assert.equal(calls, 3);
+assert.deepEqual(retried, [
+  ["busy", 1, 5],
+  ["busy", 2, 10],
+]);
+console.log("retry: retryIf and onRetry");
+
+// Each attempt gets its own timeout and an aborted signal once it expires
+const signals = [];
+await assert.rejects(
+  retry(
+    (attempt, signal) => {
+      signals.push(signal);
+      return new Promise(() => {});
+    },
+    { ...fast, maxAttempts: 2, attemptTimeoutMs: 50 },
+  ),
+  (error) => {
+    assert.ok(error instanceof TimeoutError);
+    assert.equal(error.timeoutMs, 50);
+    return true;
+  },
+);
+assert.equal(signals.length, 2);
+assert.ok(signals.every((signal) => signal.aborted));
+assert.notEqual(signals[0], signals[1]);
+
+const slowOnce = await retry(
+  (attempt) =>
+    new Promise((resolve) =>
+      setTimeout(resolve, attempt === 1 ? 500 : 0, attempt),
+    ),
+  { ...fast, attemptTimeoutMs: 100 },
+);
+assert.equal(slowOnce, 2);
+console.log("retry: attemptTimeoutMs fails and aborts slow attempts");
+
+// Aborting stops the retries, including during the wait between attempts
+const controller = new AbortController();
+calls = 0;
+await assert.rejects(
+  retry(
+    () => {
+      calls++;
+      throw new Error("down");
+    },
+    {
+      maxAttempts: 5,
+      initialDelayMs: 10_000,
+      onRetry: () => controller.abort(new Error("stopped")),
+    },
+    controller.signal,
+  ),
+  /stopped/,
+);
+assert.equal(calls, 1);
+console.log("retry: an aborted signal stops further attempts");
+
+// execCommand retries failed commands with the same options
+const counter = `n=$(cat "$0" 2>/dev/null || echo 0); echo $((n + 1)) > "$0"`;
+const dir = mkdtempSync(join(tmpdir(), "retry-"));
+
+try {
+  const file = join(dir, "count");
+  const result = await execCommand(
+    "sh",
+    ["-c", `${counter}; [ "$(cat "$0")" -ge 3 ]`, file],
+    { retry: { ...fast, maxAttempts: 5 } },
+  );
+  assert.equal(result.exitCode, 0);
+  assert.equal(readFileSync(file, "utf8").trim(), "3");
+
+  const exitCodes = [];
+  const other = join(dir, "other");
+  await assert.rejects(
+    execCommand("sh", ["-c", `${counter}; exit 2`, other], {
+      retry: {
+        ...fast,
+        maxAttempts: 5,
+        retryIf: (error) => {
+          exitCodes.push(error.exitCode);
+          return error instanceof CommandError && error.exitCode !== 2;
+        },
+      },
+    }),
+    (error) => error instanceof CommandError && error.exitCode === 2,
+  );
+  assert.deepEqual(exitCodes, [2]);
+  assert.equal(readFileSync(other, "utf8").trim(), "1");
+
+  // Per attempt timeouts kill the process, the overall timeoutMs ends retrying
+  const slow = join(dir, "slow");
+  const startedAt = Date.now();
+  await assert.rejects(
+    execCommand("sh", ["-c", `${counter}; exec sleep 30`, slow], {
+      timeoutMs: 1000,
+      retry: { ...fast, maxAttempts: 100, attemptTimeoutMs: 300 },
+    }),
+    (error) => error instanceof CommandTerminatedError && error.timedOut,
+  );
+  assert.ok(Date.now() - startedAt < 3000, "overall timeout ignored");
+  const slowAttempts = Number(readFileSync(slow, "utf8"));
+  assert.ok(slowAttempts >= 2 && slowAttempts <= 4, `${slowAttempts} attempts`);
+  console.log("execCommand: retry, retryIf and attempt timeouts");
+} finally {
+  rmSync(dir, { recursive: true, force: true });
+}
@@ -0,0 +1,111 @@
+import assert from "node:assert/strict";
+import { CancelledError, safeRun, TimeoutError } from "../dist/index.js";
+
+const waitForAbort = (signal) =>
+  new Promise((_, reject) =>
+    signal.addEventListener("abort", () => reject(signal.reason), {
+      once: true,
+    }),
+  );
+
+// A timeout aborts the callback's signal and fails the run
+let timeoutSignal;
+await assert.rejects(
+  safeRun(
+    (signal) => {
+      timeoutSignal = signal;
+      return waitForAbort(signal);
+    },
+    { timeoutMs: 50 },
+  ),
+  (error) => {
+    assert.ok(error instanceof TimeoutError);
+    assert.equal(error.timeoutMs, 50);
+    return true;
+  },
+);
+assert.ok(timeoutSignal.aborted);
+assert.ok(timeoutSignal.reason instanceof TimeoutError);
+console.log("timeout: the callback signal aborts with a TimeoutError");
+
+// Aborting the external signal cancels the run, also before it starts
+const controller = new AbortController();
+let cancelledSignal;
+const cancelled = safeRun(
+  (signal) => {
+    cancelledSignal = signal;
+    return waitForAbort(signal);
+  },
+  { signal: controller.signal },
+);
+setTimeout(() => controller.abort(), 20);
+await assert.rejects(cancelled, (error) => {
+  assert.ok(error instanceof CancelledError);
+  assert.equal(error.signal, undefined);
+  return true;
+});
+assert.ok(cancelledSignal.aborted);
+assert.ok(cancelledSignal.reason instanceof CancelledError);
+
+let abortedAtStart;
+await assert.rejects(
+  safeRun(
+    (signal) => {
+      abortedAtStart = signal.aborted;
+    },
+    { signal: AbortSignal.abort() },
+  ),
+  CancelledError,
+);
+assert.equal(abortedAtStart, true);
+console.log("signal: external aborts cancel the callback");
+
+// settleGraceMs lets the callback clean up before onFail runs
+const events = [];
+const cleanup = (signal, ms) =>
+  new Promise((resolve) =>
+    signal.addEventListener("abort", () =>
+      setTimeout(() => {
+        events.push("callback settled");
+        resolve();
+      }, ms),
+    ),
+  );
+
+await assert.rejects(
+  safeRun((signal) => cleanup(signal, 50), {
+    timeoutMs: 20,
+    settleGraceMs: 1000,
+    onFail: () => events.push("onFail"),
+  }),
+  TimeoutError,
+);
+assert.deepEqual(events, ["callback settled", "onFail"]);
+
+// Without a grace period onFail does not wait
+events.length = 0;
+await assert.rejects(
+  safeRun((signal) => cleanup(signal, 50), {
+    timeoutMs: 20,
+    onFail: () => events.push("onFail"),
+  }),
+  TimeoutError,
+);
+assert.deepEqual(events, ["onFail"]);
+await new Promise((resolve) => setTimeout(resolve, 100));
+assert.deepEqual(events, ["onFail", "callback settled"]);
+
+// The grace period is an upper bound
+events.length = 0;
+const startedAt = Date.now();
+await assert.rejects(
+  safeRun((signal) => cleanup(signal, 500), {
+    timeoutMs: 20,
+    settleGraceMs: 100,
+    onFail: () => events.push("onFail"),
+  }),
+  TimeoutError,
+);
+assert.ok(Date.now() - startedAt < 400, "grace period not bounded");
+assert.deepEqual(events, ["onFail"]);
+console.log("settleGraceMs: waits for the callback, up to the grace period");
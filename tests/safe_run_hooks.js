@@ -0,0 +1,143 @@
+import assert from "node:assert/strict";
+import { safeRun } from "../dist/index.js";
+
+const hookError = (name) => () => {
+  throw new Error(`${name} broke`);
+};
+
+// The callback's value is returned, onAfter gets it with timing details
+let after;
+const beforeRun = Date.now();
+const version = await safeRun(
+  async () => {
+    await new Promise((resolve) => setTimeout(resolve, 30));
+    return { version: "1.2.3" };
+  },
+  { onAfter: (value, meta) => (after = { value, meta }) },
+);
+assert.deepEqual(version, { version: "1.2.3" });
+assert.equal(after.value, version);
+assert.equal(after.meta.attempts, 1);
+assert.ok(after.meta.startedAt >= beforeRun);
+assert.ok(after.meta.durationMs >= 25, `${after.meta.durationMs}ms`);
+
+let calls = 0;
+await safeRun(
+  () => {
+    if (++calls < 3) throw new Error("flaky");
+    return calls;
+  },
+  {
+    retry: { initialDelayMs: 1, backoff: "fixed" },
+    onAfter: (value, meta) => (after = { value, meta }),
+  },
+);
+assert.equal(after.value, 3);
+assert.equal(after.meta.attempts, 3);
+console.log("result: returned value and onAfter timing metadata");
+
+// onFinally always runs last, with the error the run failed with
+const finals = [];
+const onFinally = (error, meta) => finals.push([error?.message, meta.attempts]);
+
+await safeRun(() => {}, { onFinally });
+await assert.rejects(
+  safeRun(hookError("callback"), { onFail: () => {}, onFinally }),
+  /callback broke/,
+);
+await assert.rejects(
+  safeRun(() => {}, { onBefore: hookError("onBefore"), onFinally }),
+  /onBefore broke/,
+);
+await assert.rejects(
+  safeRun(() => {}, { onAfter: hookError("onAfter"), onFinally }),
+  /onAfter broke/,
+);
+assert.deepEqual(finals, [
+  [undefined, 1],
+  ["callback broke", 1],
+  ["onBefore broke", 0],
+  ["onAfter broke", 1],
+]);
+
+await assert.rejects(
+  safeRun(() => {}, { onFinally: hookError("onFinally") }),
+  /onFinally broke/,
+);
+console.log("onFinally: runs after success, failures and hook errors");
+
+// hookErrors: the callback's own error is never replaced by a hook error
+const warnings = [];
+const warn = console.warn;
+console.warn = (message) => warnings.push(message);
+try {
+  await assert.rejects(
+    safeRun(hookError("callback"), {
+      onFail: hookError("onFail"),
+      onFinally: hookError("onFinally"),
+    }),
+    /^Error: callback broke$/,
+  );
+  assert.deepEqual(warnings, [
+    "safeRun onFail hook failed: onFail broke",
+    "safeRun onFinally hook failed: onFinally broke",
+  ]);
+} finally {
+  console.warn = warn;
+}
+console.log("hookErrors fail: hook errors fail the run, never replace errors");
+
+let finished = false;
+assert.equal(
+  await safeRun(() => "done", {
+    hookErrors: "ignore",
+    onBefore: hookError("onBefore"),
+    onAfter: hookError("onAfter"),
+    onFinally: hookError("onFinally"),
+  }),
+  "done",
+);
+await assert.rejects(
+  safeRun(hookError("callback"), {
+    hookErrors: "ignore",
+    onFail: hookError("onFail"),
+    onFinally: () => (finished = true),
+  }),
+  /^Error: callback broke$/,
+);
+assert.ok(finished);
+console.log("hookErrors ignore: hook errors are discarded");
+
+await assert.rejects(
+  safeRun(() => "done", {
+    hookErrors: "aggregate",
+    onBefore: hookError("onBefore"),
+    onAfter: hookError("onAfter"),
+  }),
+  (error) => {
+    assert.ok(error instanceof AggregateError);
+    assert.equal(error.message, "2 safeRun hook(s) failed");
+    assert.deepEqual(
+      error.errors.map((e) => e.message),
+      ["onBefore broke", "onAfter broke"],
+    );
+    return true;
+  },
+);
+await assert.rejects(
+  safeRun(hookError("callback"), {
+    hookErrors: "aggregate",
+    onFail: hookError("onFail"),
+    onFinally: hookError("onFinally"),
+  }),
+  (error) => {
+    assert.ok(error instanceof AggregateError);
+    assert.equal(error.message, "callback broke (and 2 hook error(s))");
+    assert.deepEqual(
+      error.errors.map((e) => e.message),
+      ["callback broke", "onFail broke", "onFinally broke"],
+    );
+    return true;
+  },
+);
+console.log("hookErrors aggregate: run and hook errors in one AggregateError");
@@ -0,0 +1,133 @@
+import assert from "node:assert/strict";
+import { spawn } from "node:child_process";
+import { once } from "node:events";
+import { fileURLToPath } from "node:url";
+import {
+  getSignalExitCode,
+  installShutdownHandlers,
+  onShutdown,
+  runShutdownHandlers,
+} from "../dist/index.js";
+
+const dist = fileURLToPath(new URL("../dist/index.js", import.meta.url));
+const isAlive = (pid) => {
+  try {
+    process.kill(pid, 0);
+    return true;
+  } catch {
+    return false;
+  }
+};
+const waitFor = async (check, timeoutMs = 5000) => {
+  const deadline = Date.now() + timeoutMs;
+  while (!check()) {
+    if (Date.now() > deadline) return false;
+    await new Promise((resolve) => setTimeout(resolve, 50));
+  }
+  return true;
+};
+
+assert.equal(getSignalExitCode("SIGINT"), 130);
+assert.equal(getSignalExitCode("SIGTERM"), 143);
+console.log("getSignalExitCode: 128 plus the signal number");
+
+// Higher priorities first, each handler cut off at its own timeoutMs
+const order = [];
+const disposers = [
+  onShutdown(() => order.push("last"), { name: "last", priority: -1 }),
+  onShutdown(
+    async () => {
+      order.push("slow");
+      await new Promise((resolve) => setTimeout(resolve, 5000).unref());
+    },
+    { name: "slow", timeoutMs: 100 },
+  ),
+  onShutdown(
+    () => {
+      order.push("broken");
+      throw new Error("disk full");
+    },
+    { name: "broken" },
+  ),
+  onShutdown((signal) => order.push(`first ${signal}`), {
+    name: "first",
+    priority: 10,
+  }),
+];
+
+const startedAt = Date.now();
+const results = await runShutdownHandlers("SIGTERM");
+assert.ok(Date.now() - startedAt < 2000, "slow handler was not cut off");
+assert.deepEqual(order, ["first SIGTERM", "slow", "broken", "last"]);
+assert.deepEqual(
+  results.map(({ name, status }) => [name, status]),
+  [
+    ["first", "fulfilled"],
+    ["slow", "timeout"],
+    ["broken", "rejected"],
+    ["last", "fulfilled"],
+  ],
+);
+assert.equal(results[2].error.message, "disk full");
+
+for (const dispose of disposers) dispose();
+order.length = 0;
+await runShutdownHandlers("SIGTERM");
+assert.deepEqual(order, []);
+console.log("runShutdownHandlers: priority order, timeouts and failures");
+
+// Installing is reference counted, the listener stays until the last uninstall
+const listeners = process.listenerCount("SIGTERM");
+const uninstallA = installShutdownHandlers();
+const uninstallB = installShutdownHandlers({ signals: ["SIGTERM"] });
+assert.equal(process.listenerCount("SIGTERM"), listeners + 1);
+uninstallA();
+uninstallA();
+assert.equal(process.listenerCount("SIGTERM"), listeners + 1);
+uninstallB();
+assert.equal(process.listenerCount("SIGTERM"), listeners);
+assert.equal(process.listenerCount("SIGINT"), 0);
+console.log("installShutdownHandlers: reference counted");
+
+// A real SIGTERM: handlers run in order, the tracked child gets the signal
+// and the process exits with 143
+const script = spawn(
+  process.execPath,
+  [
+    "--input-type=module",
+    "-e",
+    `import { execCommand, installShutdownHandlers, onShutdown } from ${JSON.stringify(dist)};
+     const log = (line) => process.stdout.write(line + "\\n");
+     onShutdown(() => log("flush"), { priority: 1 });
+     onShutdown(() => new Promise(() => {}), { name: "hung", timeoutMs: 100 });
+     onShutdown(() => log("close"), { priority: -1 });
+     installShutdownHandlers();
+     installShutdownHandlers()();
+     // The forwarded signal fails the command, shutdown still decides the exit code
+     await execCommand("sh", ["-c", "echo $$; exec sleep 30"], { stdout: "inherit" }).catch(() => {});`,
+  ],
+  { stdio: ["ignore", "pipe", "pipe"] },
+);
+
+let stdout = "";
+let stderr = "";
+script.stdout.on("data", (chunk) => (stdout += chunk));
+script.stderr.on("data", (chunk) => (stderr += chunk));
+
+try {
+  assert.ok(await waitFor(() => stdout.includes("\n")), "child not started");
+  const childPid = Number(stdout.trim());
+  assert.ok(isAlive(childPid));
+
+  // Only the script is signalled, not its process group
+  script.kill("SIGTERM");
+  const [exitCode] = await once(script, "exit");
+
+  assert.equal(exitCode, 143);
+  assert.deepEqual(stdout.trim().split("\n").slice(1), ["flush", "close"]);
+  assert.match(stderr, /Shutdown handler "hung" did not finish in time/);
+  assert.ok(await waitFor(() => !isAlive(childPid)), "child was orphaned");
+  console.log("signal: handlers run, child forwarded to, exit code 143");
+} finally {
+  if (script.exitCode === null) script.kill("SIGKILL");
+}
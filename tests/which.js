@@ -0,0 +1,107 @@
+import assert from "node:assert/strict";
+import {
+  chmodSync,
+  mkdirSync,
+  mkdtempSync,
+  rmSync,
+  writeFileSync,
+} from "node:fs";
+import { tmpdir } from "node:os";
+import { join } from "node:path";
+import {
+  CommandError,
+  execCommand,
+  quoteShellArg,
+  which,
+} from "../dist/index.js";
+
+const dir = mkdtempSync(join(tmpdir(), "which-"));
+const bin = join(dir, "bin");
+const other = join(dir, "other");
+const tool = (path, mode = 0o755) => {
+  writeFileSync(path, "#!/bin/sh\necho tool\n");
+  chmodSync(path, mode);
+};
+
+try {
+  mkdirSync(bin);
+  mkdirSync(other);
+  mkdirSync(join(other, "folder"));
+  tool(join(bin, "mytool"));
+  tool(join(other, "mytool"));
+  tool(join(other, "noexec"), 0o644);
+  tool(join(bin, "noexec"));
+
+  // PATH order wins, directories and files that cannot run are skipped
+  const env = { PATH: `${other}::${bin}` };
+  assert.equal(which("mytool", { env }), join(other, "mytool"));
+  assert.equal(which("noexec", { env }), join(bin, "noexec"));
+  assert.equal(which("folder", { env }), undefined);
+  assert.equal(which("missing", { env }), undefined);
+  assert.equal(which("mytool", { env: {} }), undefined);
+  assert.equal(which("", { env }), undefined);
+
+  // Paths are resolved against cwd instead of PATH
+  assert.equal(which("./mytool", { cwd: bin, env: {} }), join(bin, "mytool"));
+  assert.equal(which(join(bin, "mytool"), { env: {} }), join(bin, "mytool"));
+  assert.equal(which("bin/noexec", { cwd: dir, env: {} }), join(bin, "noexec"));
+  assert.equal(which("other/noexec", { cwd: dir, env: {} }), undefined);
+  console.log("which: PATH order, executability and relative paths");
+
+  // Windows tries PATHEXT extensions in order, then the bare name
+  writeFileSync(join(bin, "setup.cmd"), "");
+  writeFileSync(join(bin, "setup.exe"), "");
+  writeFileSync(join(bin, "setup"), "");
+  writeFileSync(join(bin, "LICENSE"), "");
+  const windows = (command, pathExt = ".EXE;.CMD") =>
+    which(command, {
+      platform: "win32",
+      env: { Path: `"${bin}";${other}`, PATHEXT: pathExt },
+    });
+  assert.equal(windows("setup"), join(bin, "setup.exe"));
+  assert.equal(windows("setup", ".CMD;.EXE"), join(bin, "setup.cmd"));
+  assert.equal(windows("setup.cmd"), join(bin, "setup.cmd"));
+  assert.equal(windows("setup", ".BAT"), join(bin, "setup"));
+  assert.equal(windows("LICENSE"), join(bin, "LICENSE"));
+  assert.equal(windows("missing"), undefined);
+  console.log("which: PATHEXT order on Windows, bare name last");
+
+  // Commands run without a shell unless asked to
+  const literal = await execCommand("echo", ["$HOME", "a;b", "*"]);
+  assert.equal(literal.stdout, "$HOME a;b *\n");
+
+  const quoted = await execCommand("echo", ["$HOME", "it's"], { shell: true });
+  assert.equal(quoted.stdout, "$HOME it's\n");
+
+  const found = await execCommand("mytool", [], { env: { PATH: bin } });
+  assert.equal(found.stdout, "tool\n");
+
+  await assert.rejects(
+    execCommand("missing-command", [], { env: { PATH: bin } }),
+    (error) => {
+      assert.ok(error instanceof CommandError);
+      assert.equal(
+        error.message,
+        'Command "missing-command" was not found on PATH',
+      );
+      assert.equal(error.exitCode, null);
+      assert.equal(error.signal, null);
+      return true;
+    },
+  );
+  console.log("execCommand: no shell by default, missing commands rejected");
+} finally {
+  rmSync(dir, { recursive: true, force: true });
+}
+
+// Quoting for POSIX shells and cmd.exe
+assert.equal(quoteShellArg("dist/index.js", "linux"), "dist/index.js");
+assert.equal(quoteShellArg("a b", "linux"), "'a b'");
+assert.equal(quoteShellArg("it's", "darwin"), "'it'\\''s'");
+assert.equal(quoteShellArg("$(rm -rf ~)", "linux"), "'$(rm -rf ~)'");
+assert.equal(quoteShellArg("", "linux"), "''");
+assert.equal(quoteShellArg("a b", "win32"), '^"a^ b^"');
+assert.equal(quoteShellArg("100%", "win32"), '^"100^%^"');
+assert.equal(quoteShellArg('x"y', "win32"), '^"x\\^"y^"');
+assert.equal(quoteShellArg("a&b|c", "win32"), '^"a^&b^|c^"');
+console.log("quoteShellArg: POSIX and cmd.exe quoting");
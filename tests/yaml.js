@@ -0,0 +1,223 @@
+import assert from "node:assert/strict";
+import { mkdtempSync, rmSync, writeFileSync } from "node:fs";
+import { tmpdir } from "node:os";
+import { join } from "node:path";
+import {
+  ActionMetadataError,
+  loadActionMetadata,
+  parseActionMetadata,
+  parseKeyValueFileCommands,
+  parseYaml,
+  readKeyValueFileCommands,
+  validateActionInputs,
+  validateActionOutputs,
+  YamlParseError,
+} from "../dist/index.js";
+
+const rejectsAt = (source, line, pattern) =>
+  assert.throws(
+    () => parseYaml(source),
+    (error) => {
+      assert.ok(error instanceof YamlParseError);
+      assert.equal(error.line, line);
+      assert.match(error.message, pattern);
+      return true;
+    },
+  );
+
+// Block collections, plain scalars and the core schema
+assert.deepEqual(
+  parseYaml(`
+# leading comment
+name: demo # trailing comment
+count: 3
+ratio: 0.5
+enabled: true
+nothing: ~
+hex: 0x1F
+list:
+  - one
+  - two: 2
+    three: 3
+  -
+    - nested
+mapping:
+  inner:
+    deep: value
+`),
+  {
+    name: "demo",
+    count: 3,
+    ratio: 0.5,
+    enabled: true,
+    nothing: null,
+    hex: 31,
+    list: ["one", { two: 2, three: 3 }, ["nested"]],
+    mapping: { inner: { deep: "value" } },
+  },
+);
+assert.deepEqual(parseYaml("- a\n- b\n"), ["a", "b"]);
+assert.deepEqual(parseYaml("key:\n- a\n- b\n"), { key: ["a", "b"] });
+console.log("block: mappings, sequences and core schema scalars");
+
+// Flow collections
+assert.deepEqual(
+  parseYaml(
+    `flow: [a, 'b, c', { k: v, n: 1 }, [x, y], []]\nmap: {a: 1, b: [true, null]}`,
+  ),
+  {
+    flow: ["a", "b, c", { k: "v", n: 1 }, ["x", "y"], []],
+    map: { a: 1, b: [true, null] },
+  },
+);
+console.log("flow: nested sequences and mappings");
+
+// Block scalars and chomping
+assert.deepEqual(
+  parseYaml(`
+literal: |
+  line one
+    indented
+  line three
+folded: >
+  folded
+  text
+
+  new paragraph
+strip: |-
+  no newline
+keep: |+
+  kept
+
+after: end
+`),
+  {
+    literal: "line one\n  indented\nline three\n",
+    folded: "folded text\nnew paragraph\n",
+    strip: "no newline",
+    keep: "kept\n\n",
+    after: "end",
+  },
+);
+console.log("block scalars: |, >, strip and keep chomping");
+
+// Quoted strings
+assert.deepEqual(
+  parseYaml(
+    String.raw`double: "tab\there\nnew \"quoted\" \u00e9 \x41"
+single: 'it''s # not a comment'
+number: "123"`,
+  ),
+  {
+    double: 'tab\there\nnew "quoted" é A',
+    single: "it's # not a comment",
+    number: "123",
+  },
+);
+console.log("quoted: escapes and quoted numbers stay strings");
+
+// Rejected constructs and error lines
+rejectsAt("base: &base\n  a: 1\n", 1, /Anchors, aliases and tags/);
+rejectsAt("a: 1\nb: *base\n", 2, /Anchors, aliases and tags/);
+rejectsAt("a: !!str 1\n", 1, /Anchors, aliases and tags/);
+rejectsAt("a: 1\nb: 2\na: 3\n", 3, /Duplicate key "a"/);
+rejectsAt("a: 1\n---\nb: 2\n", 2, /Multiple documents/);
+rejectsAt("a:\n\t- b\n", 2, /[Tt]ab/);
+rejectsAt('a: "open\n', 1, /Unterminated quoted string/);
+rejectsAt('a: "\\q"\n', 1, /Invalid escape/);
+rejectsAt("a: 1\n    b: 2\n", 2, /indentation/);
+console.log("errors: anchors, aliases, tags, duplicates and positions");
+
+// action.yml parsing
+const metadata = parseActionMetadata(
+  `
+name: Greet
+description: Says hello
+inputs:
+  who:
+    description: Who to greet
+    required: true
+  greeting:
+    description: The greeting
+    default: Hello
+outputs:
+  message:
+    description: The full message
+runs:
+  using: node20
+  main: dist/index.js
+`,
+  "action.yml",
+);
+assert.equal(metadata.inputs.who.required, true);
+assert.equal(metadata.inputs.greeting.default, "Hello");
+assert.equal(metadata.runs.using, "node20");
+assert.equal(metadata.runs.main, "dist/index.js");
+
+const rejectsMetadata = (source, pattern) =>
+  assert.throws(
+    () => parseActionMetadata(source, "action.yml"),
+    (error) => {
+      assert.ok(error instanceof ActionMetadataError);
+      assert.equal(error.file, "action.yml");
+      assert.match(error.message, pattern);
+      return true;
+    },
+  );
+rejectsMetadata(
+  "description: x\nruns:\n  using: node20\n  main: a.js\n",
+  /"name" is required/,
+);
+rejectsMetadata("name: x\ndescription: x\n", /"runs" is required/);
+rejectsMetadata(
+  "name: x\ndescription: x\nruns:\n  using: python\n  main: a.js\n",
+  /"runs.using" must be .* got "python"/,
+);
+rejectsMetadata("name: [x\n", /line 1/);
+console.log("action metadata: required fields and runs.using checked");
+
+// Loading from disk and checking the step against it
+const dir = mkdtempSync(join(tmpdir(), "yaml-test-"));
+try {
+  writeFileSync(
+    join(dir, "action.yaml"),
+    "name: x\ndescription: x\ninputs:\n  who:\n    required: true\noutputs:\n  message: {}\nruns:\n  using: composite\n  steps: []\n",
+  );
+  const loaded = loadActionMetadata({ dir });
+  assert.equal(loaded.file, join(dir, "action.yaml"));
+
+  const output = join(dir, "output");
+  writeFileSync(output, "");
+  const env = { INPUT_WHOM: "typo", GITHUB_OUTPUT: output };
+  assert.deepEqual(
+    validateActionInputs(loaded, { env }).map((issue) => issue.kind),
+    ["missing-input", "unexpected-input"],
+  );
+  assert.deepEqual(
+    validateActionOutputs(loaded, { env }).map((issue) => issue.name),
+    ["message"],
+  );
+
+  writeFileSync(output, "message<<EOF\nhello\nworld\nEOF\nother=1\n");
+  assert.deepEqual(readKeyValueFileCommands("GITHUB_OUTPUT", { env }), {
+    message: "hello\nworld",
+    other: "1",
+  });
+  assert.deepEqual(validateActionOutputs(loaded, { env }), []);
+  assert.equal(readKeyValueFileCommands("GITHUB_ENV", { env }), undefined);
+  console.log("action metadata: loaded from disk and validated");
+} finally {
+  rmSync(dir, { recursive: true, force: true });
+}
+
+// File command parsing
+assert.deepEqual(parseKeyValueFileCommands("a=1\na=2\nb=x=y\n"), {
+  a: "2",
+  b: "x=y",
+});
+assert.throws(
+  () => parseKeyValueFileCommands("a<<EOF\nnever closed\n"),
+  /not found/,
+);
+assert.throws(() => parseKeyValueFileCommands("no separator\n"), /line 1/);
+console.log("file commands: later entries win, heredocs must close");